@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "trips" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "tagline" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "coverImage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trips_startDate_idx" ON "trips"("startDate");
+
+-- Backfill: the existing itinerary becomes the first trip so no rows are orphaned
+INSERT INTO "trips" ("id", "title", "tagline", "startDate", "endDate", "timezone", "updatedAt")
+VALUES (
+    'legacy_trip',
+    '我们的四天之旅 💜',
+    '四天三夜 与你共度每一瞬间💞',
+    date_trunc('day', CURRENT_TIMESTAMP),
+    date_trunc('day', CURRENT_TIMESTAMP) + INTERVAL '3 days',
+    'UTC',
+    CURRENT_TIMESTAMP
+);
+
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "tripId" TEXT;
+UPDATE "trip_places" SET "tripId" = 'legacy_trip';
+ALTER TABLE "trip_places" ALTER COLUMN "tripId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "suggestions" ADD COLUMN "tripId" TEXT;
+UPDATE "suggestions" SET "tripId" = 'legacy_trip';
+ALTER TABLE "suggestions" ALTER COLUMN "tripId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "trip_places_day_idx";
+
+-- DropIndex
+DROP INDEX "suggestions_status_idx";
+
+-- CreateIndex
+CREATE INDEX "trip_places_tripId_day_idx" ON "trip_places"("tripId", "day");
+
+-- CreateIndex
+CREATE INDEX "suggestions_tripId_status_idx" ON "suggestions"("tripId", "status");
+
+-- AddForeignKey
+ALTER TABLE "trip_places" ADD CONSTRAINT "trip_places_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "suggestions" ADD CONSTRAINT "suggestions_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
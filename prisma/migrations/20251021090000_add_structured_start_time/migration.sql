@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "startTime" INTEGER,
+ADD COLUMN "durationMinutes" INTEGER,
+ADD COLUMN "timeLabel" TEXT;
+
+-- Backfill: 24-hour clock times ("09:30", "14:00")
+UPDATE "trip_places"
+SET "startTime" = split_part(trim("time"), ':', 1)::INTEGER * 60 + split_part(trim("time"), ':', 2)::INTEGER
+WHERE trim("time") ~ '^([01]?[0-9]|2[0-3]):[0-5][0-9]$';
+
+-- Backfill: 12-hour clock times ("9:30 PM", "10 AM")
+UPDATE "trip_places" AS tp
+SET "startTime" = ((parsed.m[1]::INTEGER % 12) + CASE WHEN lower(parsed.m[3]) = 'p' THEN 12 ELSE 0 END) * 60
+    + COALESCE(parsed.m[2]::INTEGER, 0)
+FROM (
+    SELECT "id", regexp_match(trim("time"), '^(1[0-2]|0?[1-9])(?::([0-5][0-9]))?\s*([AaPp])\.?[Mm]\.?$') AS m
+    FROM "trip_places"
+) AS parsed
+WHERE tp."id" = parsed."id" AND parsed.m IS NOT NULL AND tp."startTime" IS NULL;
+
+-- Backfill: everything else keeps its text as a label; known fuzzy slots get an approximate start
+-- (keep in sync with FUZZY_TIME_SLOTS in src/utils/time_utils.ts)
+UPDATE "trip_places"
+SET "timeLabel" = trim("time"),
+    "startTime" = CASE lower(trim("time"))
+        WHEN 'morning' THEN 540
+        WHEN '早上' THEN 540
+        WHEN 'noon' THEN 720
+        WHEN 'lunch' THEN 720
+        WHEN '中午' THEN 720
+        WHEN 'afternoon' THEN 840
+        WHEN '下午' THEN 840
+        WHEN 'evening' THEN 1080
+        WHEN 'dinner' THEN 1140
+        WHEN '晚上' THEN 1140
+        WHEN 'night' THEN 1260
+        WHEN '夜晚' THEN 1260
+        ELSE NULL
+    END
+WHERE "startTime" IS NULL AND trim("time") <> '';
+
+-- AlterTable
+ALTER TABLE "trip_places" DROP COLUMN "time";
+
+-- DropIndex
+DROP INDEX "trip_places_tripId_day_idx";
+
+-- CreateIndex
+CREATE INDEX "trip_places_tripId_day_startTime_idx" ON "trip_places"("tripId", "day", "startTime");
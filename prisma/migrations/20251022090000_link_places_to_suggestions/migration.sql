@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "sourceSuggestionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_places_sourceSuggestionId_key" ON "trip_places"("sourceSuggestionId");
+
+-- AddForeignKey
+ALTER TABLE "trip_places" ADD CONSTRAINT "trip_places_sourceSuggestionId_fkey" FOREIGN KEY ("sourceSuggestionId") REFERENCES "suggestions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
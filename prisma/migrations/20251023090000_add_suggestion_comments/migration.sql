@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "suggestions" ADD COLUMN "reviewNote" TEXT;
+
+-- CreateTable
+CREATE TABLE "suggestion_comments" (
+    "id" TEXT NOT NULL,
+    "suggestionId" TEXT NOT NULL,
+    "authorRole" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suggestion_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "suggestion_comments_suggestionId_createdAt_idx" ON "suggestion_comments"("suggestionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "suggestion_comments" ADD CONSTRAINT "suggestion_comments_suggestionId_fkey" FOREIGN KEY ("suggestionId") REFERENCES "suggestions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
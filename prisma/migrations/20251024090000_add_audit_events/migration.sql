@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "actorId" TEXT,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_tripId_createdAt_idx" ON "audit_events"("tripId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_entityType_entityId_idx" ON "audit_events"("entityType", "entityId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "trip_places_tripId_deletedAt_idx" ON "trip_places"("tripId", "deletedAt");
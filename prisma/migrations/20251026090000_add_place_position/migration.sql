@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
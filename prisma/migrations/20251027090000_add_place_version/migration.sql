@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
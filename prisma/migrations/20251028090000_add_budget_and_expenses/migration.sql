@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ExpenseCategory" AS ENUM ('Food', 'Transport', 'Lodging', 'Activities', 'Shopping', 'Other');
+
+-- AlterTable
+ALTER TABLE "trip_places" ADD COLUMN "estimatedCost" DOUBLE PRECISION,
+ADD COLUMN "currency" TEXT;
+
+-- CreateTable
+CREATE TABLE "expenses" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "placeId" TEXT,
+    "day" INTEGER,
+    "payer" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "category" "ExpenseCategory" NOT NULL DEFAULT 'Other',
+    "description" TEXT,
+    "shared" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expenses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_tripId_day_idx" ON "expenses"("tripId", "day");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_placeId_fkey" FOREIGN KEY ("placeId") REFERENCES "trip_places"("id") ON DELETE SET NULL ON UPDATE CASCADE;
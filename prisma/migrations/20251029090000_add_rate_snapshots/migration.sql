@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "rate_snapshots" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "homeCurrency" TEXT NOT NULL,
+    "rates" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rate_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_snapshots_tripId_createdAt_idx" ON "rate_snapshots"("tripId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "rate_snapshots" ADD CONSTRAINT "rate_snapshots_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
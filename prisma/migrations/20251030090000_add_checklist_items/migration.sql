@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ChecklistCategory" AS ENUM ('Booking', 'Document', 'Packing', 'Other');
+
+-- CreateTable
+CREATE TABLE "checklist_items" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "placeId" TEXT,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "category" "ChecklistCategory" NOT NULL DEFAULT 'Other',
+    "assignee" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "done" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "checklist_items_tripId_done_idx" ON "checklist_items"("tripId", "done");
+
+-- AddForeignKey
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_placeId_fkey" FOREIGN KEY ("placeId") REFERENCES "trip_places"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "bookings" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "placeId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "confirmationCode" TEXT,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "partySize" INTEGER,
+    "contactPhone" TEXT,
+    "cancellationDeadline" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bookings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_tripId_cancellationDeadline_idx" ON "bookings"("tripId", "cancellationDeadline");
+
+-- CreateIndex
+CREATE INDEX "bookings_placeId_idx" ON "bookings"("placeId");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_placeId_fkey" FOREIGN KEY ("placeId") REFERENCES "trip_places"("id") ON DELETE CASCADE ON UPDATE CASCADE;
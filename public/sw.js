@@ -0,0 +1,103 @@
+// Service worker for offline use: caches the app shell and the last itinerary responses,
+// so the plan still opens without a connection. Suggestions written offline are queued in
+// IndexedDB by the page itself (src/utils/offline_outbox.ts), not here.
+// Bump CACHE_VERSION when the caching rules change; older caches are removed on activate.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const DATA_CACHE = `data-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+    '/',
+    '/manifest.webmanifest',
+    '/kuromi-avatar-login-1.png',
+];
+
+// API reads answered from the cache when the network is unavailable
+const CACHED_API_PATHS = [
+    /^\/api\/auth\/me$/,
+    /^\/api\/trips$/,
+    /^\/api\/itinerary$/,
+    /^\/api\/trips\/[^/]+\/itinerary$/,
+];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Network first, falling back to the last successful response
+async function networkFirst(request, cacheName) {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            await cache.put(request, response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+// Cache first for build output, whose URLs change whenever the content does
+async function cacheFirst(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    if (url.origin !== self.location.origin) return;
+
+    if (request.method !== 'GET') {
+        // Signing in or out changes what the cached reads would return, so forget them
+        if (url.pathname.startsWith('/api/auth/')) {
+            event.waitUntil(caches.delete(DATA_CACHE));
+        }
+        return;
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+        // Everything else, including the /api/events stream, goes straight to the network
+        if (CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+            event.respondWith(networkFirst(request, DATA_CACHE));
+        }
+        return;
+    }
+
+    if (url.pathname.startsWith('/_next/static/')) {
+        event.respondWith(cacheFirst(request));
+        return;
+    }
+
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            networkFirst(request, SHELL_CACHE).catch(() => caches.match('/'))
+        );
+    }
+});
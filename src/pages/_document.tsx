@@ -0,0 +1,18 @@
+import { Html, Head, Main, NextScript } from 'next/document';
+
+// Adds the web manifest so the planner can be installed and opened offline (see public/sw.js)
+export default function Document() {
+    return (
+        <Html lang="en">
+            <Head>
+                <link rel="manifest" href="/manifest.webmanifest" />
+                <link rel="apple-touch-icon" href="/kuromi-avatar-login-1.png" />
+                <meta name="theme-color" content="#6a329f" />
+            </Head>
+            <body>
+                <Main />
+                <NextScript />
+            </body>
+        </Html>
+    );
+}
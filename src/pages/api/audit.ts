@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AuditEvent } from '../../../app/generated/prisma';
+import { AuditEventFilters, getAuditEvents } from '../../services/prisma_service';
+import { withPermission } from '../../utils/permissions';
+import { getQueryParam } from '../../utils/request_utils';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditAction, AuditEntityType } from '../../utils/audit_utils';
+
+type AuditResponse = AuditEvent[] | { error: string };
+
+// --- READ HISTORY (audit:list) ---
+// Only the Admin can read the change history.
+// Filters: ?tripId, entityType, entityId, action, actorRole, from/to (ISO dates), limit (max 500).
+async function handler(req: NextApiRequest, res: NextApiResponse<AuditResponse>) {
+    const filters: AuditEventFilters = {
+        tripId: getQueryParam(req, 'tripId'),
+        entityId: getQueryParam(req, 'entityId'),
+        actorRole: getQueryParam(req, 'actorRole'),
+    };
+
+    const entityType = getQueryParam(req, 'entityType');
+    if (entityType) {
+        if (!AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+            return res.status(400).json({ error: `Invalid entityType filter. Must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}.` });
+        }
+        filters.entityType = entityType as AuditEntityType;
+    }
+
+    const action = getQueryParam(req, 'action');
+    if (action) {
+        if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+            return res.status(400).json({ error: `Invalid action filter. Must be one of: ${AUDIT_ACTIONS.join(', ')}.` });
+        }
+        filters.action = action as AuditAction;
+    }
+
+    for (const bound of ['from', 'to'] as const) {
+        const value = getQueryParam(req, bound);
+        if (!value) continue;
+
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            return res.status(400).json({ error: `Invalid ${bound} parameter. Must be an ISO date.` });
+        }
+        filters[bound] = date;
+    }
+
+    const limit = getQueryParam(req, 'limit');
+    if (limit) {
+        const parsedLimit = parseInt(limit, 10);
+        if (isNaN(parsedLimit) || parsedLimit < 1) {
+            return res.status(400).json({ error: 'Invalid limit parameter. Must be a positive integer.' });
+        }
+        filters.limit = parsedLimit;
+    }
+
+    try {
+        const events = await getAuditEvents(filters);
+        return res.status(200).json(events);
+    } catch (error: any) {
+        console.error('Error in /api/audit handler:', error);
+        return res.status(500).json({ error: 'Failed to fetch the change history due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'audit:list' }, handler);
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withPermission } from '../../../utils/permissions';
+import { resolveRoleForSecret } from '../../../utils/auth_utils';
+import { validateLoginInput, validationError } from '../../../utils/schemas';
+import { startSession, SessionRole } from '../../../utils/session_utils';
+
+type LoginResponse = { role: SessionRole } | { error: string };
+
+async function handler(req: NextApiRequest, res: NextApiResponse<LoginResponse>) {
+    try {
+        const validation = validateLoginInput(req.body);
+        if (!validation.ok) {
+            return res.status(400).json(validationError(validation.fields));
+        }
+
+        // The secret is only ever compared here, on the server
+        const role = resolveRoleForSecret(validation.data.secret);
+
+        if (!role) {
+            return res.status(401).json({ error: 'Unauthorized: The secret does not match any role.' });
+        }
+
+        // The session's userId is issued by the server; a userId in the body is ignored
+        const session = startSession(req, res, role);
+
+        if (!session) {
+            return res.status(500).json({ error: 'Sessions are not configured on the server.' });
+        }
+
+        return res.status(200).json({ role: session.role });
+    } catch (error) {
+        console.error('Error in /api/auth/login handler:', error);
+        return res.status(500).json({ error: 'Failed to log in due to a server error.' });
+    }
+}
+
+export default withPermission({ POST: 'session:manage' }, handler);
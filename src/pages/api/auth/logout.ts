@@ -0,0 +1,12 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withPermission } from '../../../utils/permissions';
+import { endSession } from '../../../utils/session_utils';
+
+type LogoutResponse = { role: 'guest' } | { error: string };
+
+function handler(req: NextApiRequest, res: NextApiResponse<LogoutResponse>) {
+    endSession(res);
+    return res.status(200).json({ role: 'guest' });
+}
+
+export default withPermission({ POST: 'session:manage' }, handler);
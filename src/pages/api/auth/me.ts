@@ -0,0 +1,13 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withPermission } from '../../../utils/permissions';
+import { getSession, SessionRole } from '../../../utils/session_utils';
+
+type MeResponse = { role: SessionRole | 'guest' } | { error: string };
+
+function handler(req: NextApiRequest, res: NextApiResponse<MeResponse>) {
+    // Guests (no cookie, or an expired/tampered one) simply report the guest role
+    const session = getSession(req);
+    return res.status(200).json({ role: session ? session.role : 'guest' });
+}
+
+export default withPermission({ GET: 'session:manage' }, handler);
@@ -0,0 +1,24 @@
+import { Booking } from '../../../app/generated/prisma';
+import { getBookings, createBooking } from '../../services/prisma_service';
+import { withPermission } from '../../utils/permissions';
+import { BookingInput, validateBookingInput } from '../../utils/schemas';
+import { tripCollectionHandler } from '../../utils/trip_record_routes';
+
+// Bookings of the trip given by ?tripId=, otherwise the default trip.
+// --- READ (booking:list) ---
+// Times are trip-local wall clock times ("stored as UTC"), so clients show them without conversion.
+// --- CREATE (booking:create) ---
+// Every booking belongs to a place of the trip, e.g. the hotel or restaurant it was made with.
+const handler = tripCollectionHandler<Booking, BookingInput>({
+    route: '/api/bookings',
+    record: 'Booking',
+    request: 'booking',
+    collection: 'bookings',
+    noTrip: 'Create a trip before adding bookings.',
+    placeError: 'The place is not part of this trip.',
+    list: getBookings,
+    validate: validateBookingInput,
+    create: createBooking,
+});
+
+export default withPermission({ GET: 'booking:list', POST: 'booking:create' }, handler);
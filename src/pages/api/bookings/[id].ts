@@ -0,0 +1,30 @@
+import { Booking } from '../../../../app/generated/prisma';
+import { getBooking, updateBooking, deleteBooking } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { UpdateBookingData, validateBookingUpdate } from '../../../utils/schemas';
+import { tripRecordHandler } from '../../../utils/trip_record_routes';
+
+// Stored times are trip-local wall clock times kept as UTC, so they read back as "YYYY-MM-DDTHH:mm"
+const toDateTimeInput = (value: Date | null) => value ? value.toISOString().slice(0, 16) : null;
+
+// --- UPDATE (booking:update) ---
+// Partial updates; clearing a field means sending it as null or an empty string.
+// A time sent alone is checked against the stored one, so check-out cannot move before check-in.
+// --- DELETE (booking:delete) ---
+// Bookings are removed for good; the audit log keeps what they were.
+const handler = tripRecordHandler<Booking, UpdateBookingData>({
+    route: '/api/bookings',
+    record: 'Booking',
+    request: 'booking',
+    collection: 'bookings',
+    placeError: 'The place is not part of this trip.',
+    load: getBooking,
+    validate: (input, booking) => validateBookingUpdate(input, booking && {
+        startsAt: toDateTimeInput(booking.startsAt),
+        endsAt: toDateTimeInput(booking.endsAt),
+    }),
+    update: updateBooking,
+    remove: deleteBooking,
+});
+
+export default withPermission({ PUT: 'booking:update', DELETE: 'booking:delete' }, handler);
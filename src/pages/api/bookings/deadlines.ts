@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Booking } from '../../../../app/generated/prisma';
+import { getTrip, getUpcomingCancellationDeadlines } from '../../../services/prisma_service';
+import { toTripWallClock } from '../../../services/calendar_service';
+import { withPermission } from '../../../utils/permissions';
+import { resolveTripId } from '../../../utils/request_utils';
+
+type DeadlinesResponse = Booking[] | { error: string };
+
+// --- DEADLINES (booking:list) ---
+// Bookings of a trip (?tripId=, otherwise the default trip) that can still be cancelled,
+// soonest cancellation cutoff first. "Still" is judged by the clock in the trip's time zone.
+async function handler(req: NextApiRequest, res: NextApiResponse<DeadlinesResponse>) {
+    try {
+        const tripId = await resolveTripId(req);
+        const trip = tripId ? await getTrip(tripId) : null;
+
+        if (!trip) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before adding bookings.' });
+        }
+
+        const bookings = await getUpcomingCancellationDeadlines(trip.id, toTripWallClock(trip));
+        return res.status(200).json(bookings);
+
+    } catch (error: any) {
+        console.error('Error in /api/bookings/deadlines handler:', error);
+        return res.status(500).json({ error: 'Failed to load cancellation deadlines due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'booking:list' }, handler);
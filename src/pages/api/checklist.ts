@@ -0,0 +1,24 @@
+import { ChecklistItem } from '../../../app/generated/prisma';
+import { getChecklistItems, createChecklistItem } from '../../services/prisma_service';
+import { withPermission } from '../../utils/permissions';
+import { ChecklistItemInput, validateChecklistItemInput } from '../../utils/schemas';
+import { tripCollectionHandler } from '../../utils/trip_record_routes';
+
+// Checklist of the trip given by ?tripId=, otherwise the default trip.
+// --- READ (checklist:list) ---
+// Both travellers share one checklist: bookings, documents and packing.
+// --- CREATE (checklist:create) ---
+// Items can be assigned to either traveller, or left for whoever gets to it first.
+const handler = tripCollectionHandler<ChecklistItem, ChecklistItemInput>({
+    route: '/api/checklist',
+    record: 'Checklist item',
+    request: 'checklist',
+    collection: 'checklist',
+    noTrip: 'Create a trip before adding checklist items.',
+    placeError: 'The linked place is not part of this trip.',
+    list: getChecklistItems,
+    validate: validateChecklistItemInput,
+    create: createChecklistItem,
+});
+
+export default withPermission({ GET: 'checklist:list', POST: 'checklist:create' }, handler);
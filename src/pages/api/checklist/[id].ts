@@ -0,0 +1,22 @@
+import { ChecklistItem } from '../../../../app/generated/prisma';
+import { updateChecklistItem, deleteChecklistItem } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { UpdateChecklistItemData, validateChecklistItemUpdate } from '../../../utils/schemas';
+import { tripRecordHandler } from '../../../utils/trip_record_routes';
+
+// --- UPDATE (checklist:update) ---
+// Also used to tick items off: { done: true } is a valid partial update.
+// --- DELETE (checklist:delete) ---
+// Items are removed for good; the audit log keeps what they were.
+const handler = tripRecordHandler<ChecklistItem, UpdateChecklistItemData>({
+    route: '/api/checklist',
+    record: 'Checklist item',
+    request: 'checklist',
+    collection: 'checklist',
+    placeError: 'The linked place is not part of this trip.',
+    validate: validateChecklistItemUpdate,
+    update: updateChecklistItem,
+    remove: deleteChecklistItem,
+});
+
+export default withPermission({ PUT: 'checklist:update', DELETE: 'checklist:delete' }, handler);
@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getEventBroker, LiveEntityType, LiveEvent } from '../../services/event_service';
+import { Action, AuthContext, can, withPermission } from '../../utils/permissions';
+import { getQueryParam } from '../../utils/request_utils';
+
+// A comment line every so often keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// Events are only sent to roles that may read the records they name
+const READ_PERMISSION: Record<LiveEntityType, Action> = {
+    TripPlace: 'itinerary:list',
+    Suggestion: 'suggestion:mine',
+    SuggestionComment: 'suggestion:comment',
+    Expense: 'expense:list',
+    RateSnapshot: 'rates:list',
+    ChecklistItem: 'checklist:list',
+    Booking: 'booking:list',
+    Attachment: 'attachment:list',
+};
+
+// --- LIVE UPDATES (itinerary:list) ---
+// Server-sent events stream of itinerary, suggestion, comment, budget, checklist, booking and attachment changes, limited to one trip with ?tripId=.
+// Each message is a LiveEvent naming what changed; clients re-fetch it through the regular routes.
+// Events other than itinerary changes only go to roles that can read the records.
+async function handler(req: NextApiRequest, res: NextApiResponse, auth: AuthContext) {
+    const tripId = getQueryParam(req, 'tripId');
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Stop compression and proxy buffering from holding events back
+        'Content-Encoding': 'none',
+        'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = getEventBroker().subscribe((event: LiveEvent) => {
+        if (tripId && event.tripId !== tripId) return;
+        if (!can(auth.role, READ_PERMISSION[event.entityType])) return;
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+    // The handler only settles once the client disconnects, so Next.js keeps the response open
+    await new Promise<void>(resolve => {
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+            res.end();
+            resolve();
+        });
+    });
+}
+
+export default withPermission({ GET: 'itinerary:list' }, handler);
@@ -0,0 +1,24 @@
+import { Expense } from '../../../app/generated/prisma';
+import { getExpenses, createExpense } from '../../services/prisma_service';
+import { withPermission } from '../../utils/permissions';
+import { ExpenseInput, validateExpenseInput } from '../../utils/schemas';
+import { tripCollectionHandler } from '../../utils/trip_record_routes';
+
+// Expenses belong to the trip given by ?tripId=, otherwise the default trip.
+// --- READ (expense:list) ---
+// Both travellers see every expense of the trip.
+// --- CREATE (expense:create) ---
+// Either traveller can record a payment, including one the other made.
+const handler = tripCollectionHandler<Expense, ExpenseInput>({
+    route: '/api/expenses',
+    record: 'Expense',
+    request: 'expense',
+    collection: 'expenses',
+    noTrip: 'Create a trip before recording expenses.',
+    placeError: 'The linked place is not part of this trip.',
+    list: getExpenses,
+    validate: validateExpenseInput,
+    create: createExpense,
+});
+
+export default withPermission({ GET: 'expense:list', POST: 'expense:create' }, handler);
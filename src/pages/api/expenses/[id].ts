@@ -0,0 +1,22 @@
+import { Expense } from '../../../../app/generated/prisma';
+import { updateExpense, deleteExpense } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { UpdateExpenseData, validateExpenseUpdate } from '../../../utils/schemas';
+import { tripRecordHandler } from '../../../utils/trip_record_routes';
+
+// --- UPDATE (expense:update) ---
+// Only schema fields are passed on; the trip of an expense never changes.
+// --- DELETE (expense:delete) ---
+// Expenses are removed for good; the audit log keeps what they were.
+const handler = tripRecordHandler<Expense, UpdateExpenseData>({
+    route: '/api/expenses',
+    record: 'Expense',
+    request: 'expense',
+    collection: 'expenses',
+    placeError: 'The linked place is not part of this trip.',
+    validate: validateExpenseUpdate,
+    update: updateExpense,
+    remove: deleteExpense,
+});
+
+export default withPermission({ PUT: 'expense:update', DELETE: 'expense:delete' }, handler);
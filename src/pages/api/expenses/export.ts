@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { BUDGET_EXPORT_FORMATS, BudgetExportFormat, exportBudget, summarizeBudget } from '../../../services/budget_service';
+import { getCurrentRateSnapshot, getExpenses, getRateSnapshot, getTripPlaces } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { getQueryParam, resolveTripId } from '../../../utils/request_utils';
+
+type BudgetExportResponse = string | { error: string };
+
+const CONTENT_TYPES: Record<BudgetExportFormat, string> = {
+    json: 'application/json; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+};
+
+// --- EXPORT BUDGET (expense:list) ---
+// Downloads the expenses and budget totals of a trip (?tripId=, otherwise the default trip)
+// as format=json|csv, with original amounts next to amounts converted by the current
+// exchange rate table, or the one given by ?rateSnapshotId=.
+async function handler(req: NextApiRequest, res: NextApiResponse<BudgetExportResponse>) {
+    const format = (getQueryParam(req, 'format') || '').toLowerCase() as BudgetExportFormat;
+
+    if (!BUDGET_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Invalid format parameter. Must be one of: ${BUDGET_EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found.' });
+        }
+
+        const rateSnapshotId = getQueryParam(req, 'rateSnapshotId');
+        const snapshot = rateSnapshotId ? await getRateSnapshot(tripId, rateSnapshotId) : await getCurrentRateSnapshot(tripId);
+
+        if (rateSnapshotId && !snapshot) {
+            return res.status(404).json({ error: `Exchange rate snapshot not found with ID: ${rateSnapshotId}` });
+        }
+
+        const [places, expenses] = await Promise.all([getTripPlaces(tripId), getExpenses(tripId)]);
+        const summary = summarizeBudget(places, expenses, snapshot);
+
+        res.setHeader('Content-Type', CONTENT_TYPES[format]);
+        res.setHeader('Content-Disposition', `attachment; filename="budget.${format}"`);
+        return res.status(200).send(exportBudget(expenses, summary, snapshot, format));
+
+    } catch (error: any) {
+        console.error(`Error in /api/expenses/export handler (${format}):`, error);
+        return res.status(500).json({ error: 'Failed to export the budget due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'expense:list' }, handler);
@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { BudgetSummary, summarizeBudget } from '../../../services/budget_service';
+import { getCurrentRateSnapshot, getExpenses, getRateSnapshot, getTripPlaces } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { getQueryParam, resolveTripId } from '../../../utils/request_utils';
+
+type BudgetSummaryResponse = BudgetSummary | { error: string };
+
+// --- BUDGET SUMMARY (expense:list) ---
+// Estimated and actual totals per day and for the whole trip (?tripId=, otherwise the default trip),
+// grouped by currency, plus the payments that settle the shared expenses between the two travellers.
+// Totals are also converted with the current exchange rate table, or with an earlier one
+// given by ?rateSnapshotId= to reproduce a past figure.
+async function handler(req: NextApiRequest, res: NextApiResponse<BudgetSummaryResponse>) {
+    try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found.' });
+        }
+
+        const rateSnapshotId = getQueryParam(req, 'rateSnapshotId');
+        const snapshot = rateSnapshotId ? await getRateSnapshot(tripId, rateSnapshotId) : await getCurrentRateSnapshot(tripId);
+
+        if (rateSnapshotId && !snapshot) {
+            return res.status(404).json({ error: `Exchange rate snapshot not found with ID: ${rateSnapshotId}` });
+        }
+
+        const [places, expenses] = await Promise.all([getTripPlaces(tripId), getExpenses(tripId)]);
+        return res.status(200).json(summarizeBudget(places, expenses, snapshot));
+
+    } catch (error: any) {
+        console.error('Error in /api/expenses/summary handler:', error);
+        return res.status(500).json({ error: 'Failed to summarize the budget due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'expense:list' }, handler);
@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getTrip, getTripPlaces } from '../../services/prisma_service';
+import { buildItineraryCalendar } from '../../services/calendar_service';
+import { withPermission } from '../../utils/permissions';
+import { getQueryParam, resolveTripId } from '../../utils/request_utils';
+
+type CalendarResponse = string | { error: string };
+
+// --- CALENDAR FEED (itinerary:list) ---
+// Serves the itinerary as text/calendar for phone calendar subscriptions.
+// ?day=N limits the feed to one day; also served as /api/trips/[tripId]/itinerary.ics.
+async function handler(req: NextApiRequest, res: NextApiResponse<CalendarResponse>) {
+    try {
+        const tripId = await resolveTripId(req);
+        const trip = tripId ? await getTrip(tripId) : null;
+
+        if (!trip) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before subscribing to its calendar.' });
+        }
+
+        const dayQuery = getQueryParam(req, 'day');
+        let dayFilter: number | undefined = undefined;
+
+        if (dayQuery) {
+            const parsedDay = parseInt(dayQuery, 10);
+
+            if (isNaN(parsedDay) || parsedDay < 1) {
+                return res.status(400).json({ error: 'Invalid day parameter. Must be a positive integer.' });
+            }
+            dayFilter = parsedDay;
+        }
+
+        const places = await getTripPlaces(trip.id, dayFilter);
+        const calendarName = dayFilter ? `${trip.title} · Day ${dayFilter}` : trip.title;
+        const fileName = dayFilter ? `itinerary-day-${dayFilter}.ics` : 'itinerary.ics';
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+        // Calendar apps poll the feed themselves; keep intermediaries from serving stale plans
+        res.setHeader('Cache-Control', 'no-cache');
+        return res.status(200).send(buildItineraryCalendar(trip, places, calendarName));
+
+    } catch (error: any) {
+        console.error('Error in /api/itinerary.ics handler:', error);
+        return res.status(500).json({ error: 'Failed to build the calendar feed due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'itinerary:list' }, handler);
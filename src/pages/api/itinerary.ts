@@ -1,21 +1,27 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { TripPlace } from '../../../app/generated/prisma';
 import { 
+    getTrip,
     getTripPlaces, 
-    createTripPlace, 
-    CreateTripPlaceData 
+    createTripPlace 
 } from '../../services/prisma_service';
-import { 
-    isAdminOrTrustedAuthorized, 
-    isAuthorized // Keep for potential use
-} from '../../utils/auth_utils'; // Import the unified authorization functions
+import { AuthContext, getAuditActor, withPermission } from '../../utils/permissions';
+import { resolveTripId } from '../../utils/request_utils';
+import { checkTripDay, CreateTripPlaceData, validateTripPlaceInput, validationError } from '../../utils/schemas';
 
 type TripPlaceResponse = TripPlace[] | TripPlace | { error: string };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<TripPlaceResponse>) {
+// Also served as /api/trips/[tripId]/itinerary, where tripId arrives through req.query.
+async function handler(req: NextApiRequest, res: NextApiResponse<TripPlaceResponse>, auth: AuthContext) {
     try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before planning its itinerary.' });
+        }
+
         if (req.method === 'GET') {
-            // --- READ (Public) ---
+            // --- READ (itinerary:list) ---
             // Anyone can view the itinerary.
             const dayQuery = req.query.day;
             let dayFilter: number | undefined = undefined;
@@ -30,42 +36,46 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
                 dayFilter = parsedDay;
             }
             
-            const itinerary = await getTripPlaces(dayFilter);
+            const itinerary = await getTripPlaces(tripId, dayFilter);
             return res.status(200).json(itinerary);
 
         } else if (req.method === 'POST') {
-            // --- CREATE (Trusted Protected) ---
+            // --- CREATE (itinerary:create) ---
             // This action is privileged but shared between Admin and Trusted User.
-            if (!isAuthorized(req, 'admin')) {
-                return res.status(403).json({ error: 'Forbidden: Authentication required to create new itinerary places.' });
+            // Field types, ranges and lengths are checked by the shared TripPlace schema
+            const validation = validateTripPlaceInput(req.body);
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
             }
 
-            const { day, time, name, purpose, notes, latitude, longitude } = req.body;
-            
-            // Basic data validation
-            if (!day || typeof day !== 'number' || !time || !name || !purpose || 
-                latitude === undefined || typeof latitude !== 'number' || 
-                longitude === undefined || typeof longitude !== 'number') {
-                return res.status(400).json({ error: 'Missing or invalid required fields for TripPlace creation. Ensure day, time, name, purpose, latitude, and longitude are correctly provided.' });
+            // The schema only caps the day; it also has to fall inside this trip
+            const trip = await getTrip(tripId);
+            if (!trip) {
+                return res.status(404).json({ error: 'Trip not found for the requested itinerary.' });
             }
 
-            const placeData: CreateTripPlaceData = { 
-                day, 
-                time, 
-                name, 
-                purpose, 
-                notes: notes || null, 
-                latitude, 
-                longitude 
-            };
-            const newPlace = await createTripPlace(placeData);
+            const dayErrors = checkTripDay(validation.data.day, trip);
+            if (dayErrors) {
+                return res.status(400).json(validationError(dayErrors));
+            }
+
+            const placeData: CreateTripPlaceData = { tripId, ...validation.data };
+            const newPlace = await createTripPlace(placeData, getAuditActor(auth));
             
             return res.status(201).json(newPlace);
         } 
         
         return res.status(405).json({ error: 'Method Not Allowed' });
-    } catch (error) {
+    } catch (error: any) {
         console.error(`Error in /api/itinerary handler (${req.method}):`, error);
+
+        // Handle Prisma "Foreign key constraint failed" error (unknown tripId)
+        if (error.code === 'P2003') {
+            return res.status(404).json({ error: 'Trip not found for the requested itinerary.' });
+        }
+
         return res.status(500).json({ error: 'Failed to process itinerary request due to a server error.' });
     }
 }
+
+export default withPermission({ GET: 'itinerary:list', POST: 'itinerary:create' }, handler);
@@ -1,18 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { TripPlace } from '../../../../app/generated/prisma';
 import { 
+    getTrip,
+    getTripPlace,
     updateTripPlace, 
-    deleteTripPlace, 
-    UpdateTripPlaceData 
+    deleteTripPlace,
+    purgeTripPlace
 } from '../../../services/prisma_service';
-import { 
-    isAuthorized,
-    isAdminOrTrustedAuthorized
-} from '../../../utils/auth_utils';
+import { discardStoredFiles } from '../../../services/attachment_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../utils/permissions';
+import { formatVersionETag, getQueryParam, parseIfMatchVersion } from '../../../utils/request_utils';
+import { checkTripDay, validateTripPlaceUpdate, validationError } from '../../../utils/schemas';
 
-type SingleTripPlaceResponse = TripPlace | { error: string };
+type SingleTripPlaceResponse = TripPlace | { error: string, current?: TripPlace };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<SingleTripPlaceResponse>) {
+async function handler(req: NextApiRequest, res: NextApiResponse<SingleTripPlaceResponse>, auth: AuthContext) {
     
     const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
 
@@ -21,31 +23,76 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     }
 
     try {
-        if (req.method === 'PUT') {
-            // --- UPDATE (Trusted Protected) ---
+        if (req.method === 'GET') {
+            // --- READ ONE (itinerary:list) ---
+            // The ETag carries the version to send back in If-Match when saving changes.
+            const place = await getTripPlace(id);
+            if (!place || place.deletedAt) {
+                return res.status(404).json({ error: `TripPlace not found with ID: ${id}` });
+            }
+
+            res.setHeader('ETag', formatVersionETag(place.version));
+            return res.status(200).json(place);
+
+        } else if (req.method === 'PUT') {
+            // --- UPDATE (itinerary:update) ---
             // Allow both Admin and Trusted User to update itinerary details.
-            if (!isAdminOrTrustedAuthorized(req)) {
-                return res.status(403).json({ error: 'Forbidden: Authentication required to update itinerary places.' });
+            // A soft-deleted place has to be restored before it can be edited
+            const place = await getTripPlace(id);
+            if (!place || place.deletedAt) {
+                return res.status(404).json({ error: `TripPlace not found with ID: ${id}` });
             }
 
-            const updateData: UpdateTripPlaceData = req.body;
+            // Only schema fields are passed on, so ids and timestamps in the body are ignored.
+            // The stored place is merged in, so a patch cannot leave it without a time.
+            const validation = validateTripPlaceUpdate(req.body, place);
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
+            }
 
-            // Simple validation to ensure update data is not empty
-            if (Object.keys(updateData).length === 0) {
-                 return res.status(400).json({ error: 'Request body is empty. Please provide fields to update.' });
+            // A place moved to another day has to stay inside its trip
+            const trip = await getTrip(place.tripId);
+            const dayErrors = trip && checkTripDay(validation.data.day, trip);
+            if (dayErrors) {
+                return res.status(400).json(validationError(dayErrors));
             }
 
-            const updatedPlace = await updateTripPlace(id, updateData);
-            return res.status(200).json(updatedPlace);
+            // The write only applies to the version the editor started from, so a save without
+            // If-Match cannot silently overwrite someone else's changes ("*" opts out explicitly)
+            if (!req.headers['if-match']) {
+                return res.status(428).json({ error: 'If-Match is required. Send the ETag of the place you edited.' });
+            }
+            const expectedVersion = parseIfMatchVersion(req);
+            if (expectedVersion === null) {
+                return res.status(400).json({ error: 'If-Match must be an ETag returned by this API.' });
+            }
+
+            try {
+                const updatedPlace = await updateTripPlace(id, validation.data, getAuditActor(auth), expectedVersion);
+                res.setHeader('ETag', formatVersionETag(updatedPlace.version));
+                return res.status(200).json(updatedPlace);
+
+            } catch (updateError: any) {
+                // A version mismatch also surfaces as P2025; answer it with the current copy to merge against
+                const current = updateError.code === 'P2025' && expectedVersion !== undefined ? await getTripPlace(id) : null;
+                if (!current || current.deletedAt) throw updateError;
+
+                res.setHeader('ETag', formatVersionETag(current.version));
+                return res.status(409).json({ error: 'This place was changed by someone else while you were editing it.', current });
+            }
 
         } else if (req.method === 'DELETE') {
-            // --- DELETE (Admin-Only Protected) ---
+            // --- DELETE (itinerary:delete) ---
             // Restrict deletion to only the highest privilege role (Admin).
-            if (!isAuthorized(req, 'admin')) {
-                return res.status(403).json({ error: 'Forbidden: Only the Admin is authorized to delete itinerary places.' });
+            // Deletes are soft; POST /api/itinerary/[id]/restore brings the place back.
+            // ?permanent=true removes a place from Recently deleted for good, along with its attachment files.
+            if (getQueryParam(req, 'permanent') === 'true') {
+                const { place: purgedPlace, attachments } = await purgeTripPlace(id, getAuditActor(auth));
+                await discardStoredFiles(attachments);
+                return res.status(200).json(purgedPlace);
             }
-            
-            const deletedPlace = await deleteTripPlace(id);
+
+            const deletedPlace = await deleteTripPlace(id, getAuditActor(auth));
             return res.status(200).json(deletedPlace); 
         } 
         
@@ -62,3 +109,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
         return res.status(500).json({ error: 'Failed to process itinerary request due to a server error.' });
     }
 }
+
+export default withPermission({ GET: 'itinerary:list', PUT: 'itinerary:update', DELETE: 'itinerary:delete' }, handler);
@@ -0,0 +1,104 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Attachment } from '../../../../../app/generated/prisma';
+import { createAttachments, getAttachments, getTripPlace } from '../../../../services/prisma_service';
+import { discardStoredFiles, prepareUpload, PreparedUpload, storeUpload, StoredUpload } from '../../../../services/attachment_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../../utils/permissions';
+import { parseMultipartFiles, readRawBody } from '../../../../utils/request_utils';
+import { MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_UPLOAD, MAX_UPLOAD_BYTES, validationError } from '../../../../utils/schemas';
+
+// Uploads are multipart, which Next.js's JSON body parser cannot read
+export const config = {
+    api: { bodyParser: false },
+};
+
+// Room for the multipart boundaries and headers around the largest allowed batch
+const MAX_UPLOAD_BODY_BYTES = MAX_UPLOAD_BYTES + 64 * 1024;
+
+type AttachmentsResponse = Attachment[] | { error: string };
+
+async function handler(req: NextApiRequest, res: NextApiResponse<AttachmentsResponse>, auth: AuthContext) {
+
+    const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+
+    if (!id) {
+        return res.status(400).json({ error: 'TripPlace ID is required in the URL path.' });
+    }
+
+    try {
+        const place = await getTripPlace(id);
+        if (!place || place.deletedAt) {
+            return res.status(404).json({ error: `TripPlace not found with ID: ${id}` });
+        }
+
+        if (req.method === 'GET') {
+            // --- READ (attachment:list) ---
+            // Files are fetched separately from /api/itinerary/[id]/attachments/[attachmentId].
+            const attachments = await getAttachments(place.id);
+            return res.status(200).json(attachments);
+
+        } else if (req.method === 'POST') {
+            // --- UPLOAD (attachment:create) ---
+            // multipart/form-data with one or more "file" parts. Every file is checked before any
+            // is stored, so a rejected file fails the whole upload.
+            const body = await readRawBody(req, MAX_UPLOAD_BODY_BYTES);
+            if (!body) {
+                return res.status(413).json({ error: `Uploads are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB in total and ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB per file.` });
+            }
+
+            const files = await parseMultipartFiles(req, body, 'file');
+            if (!files || files.length === 0) {
+                return res.status(400).json(validationError({ file: 'Send the files as multipart/form-data parts named "file".' }));
+            }
+            if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+                return res.status(400).json(validationError({ file: `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at once.` }));
+            }
+
+            const uploads: PreparedUpload[] = [];
+            const errors: string[] = [];
+            for (const file of files) {
+                const result = await prepareUpload(file);
+                if (result.ok) {
+                    uploads.push(result.upload);
+                } else {
+                    errors.push(result.error);
+                }
+            }
+            if (errors.length > 0) {
+                return res.status(400).json(validationError({ file: errors.join(' ') }));
+            }
+
+            const stored: StoredUpload[] = [];
+            try {
+                for (const upload of uploads) {
+                    stored.push(await storeUpload(place.tripId, place.id, upload));
+                }
+
+                const actor = getAuditActor(auth);
+                const attachments = await createAttachments(
+                    stored.map(file => ({ ...file, tripId: place.tripId, placeId: place.id, uploadedBy: actor.role })),
+                    actor
+                );
+                return res.status(201).json(attachments);
+
+            } catch (uploadError) {
+                // Files without a record would never be shown or cleaned up
+                await discardStoredFiles(stored);
+                throw uploadError;
+            }
+        }
+
+        return res.status(405).json({ error: 'Method Not Allowed' });
+
+    } catch (error: any) {
+        console.error(`Error in /api/itinerary/[id]/attachments handler (${req.method}):`, error);
+
+        // Handle Prisma "Foreign key constraint failed" error (place removed meanwhile)
+        if (error.code === 'P2003') {
+            return res.status(404).json({ error: `TripPlace not found with ID: ${id}` });
+        }
+
+        return res.status(500).json({ error: 'Failed to process attachment request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'attachment:list', POST: 'attachment:create' }, handler);
@@ -0,0 +1,67 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Attachment } from '../../../../../../app/generated/prisma';
+import { deleteAttachment, getAttachment } from '../../../../../services/prisma_service';
+import { discardStoredFiles } from '../../../../../services/attachment_service';
+import { getStorageDriver } from '../../../../../services/storage_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../../../utils/permissions';
+import { getQueryParam } from '../../../../../utils/request_utils';
+
+type SingleAttachmentResponse = Buffer | Attachment | { error: string };
+
+async function handler(req: NextApiRequest, res: NextApiResponse<SingleAttachmentResponse>, auth: AuthContext) {
+
+    const placeId = getQueryParam(req, 'id');
+    const id = getQueryParam(req, 'attachmentId');
+
+    if (!placeId || !id) {
+        return res.status(400).json({ error: 'TripPlace ID and attachment ID are required in the URL path.' });
+    }
+
+    try {
+        // The attachment has to belong to the place in the URL
+        const attachment = await getAttachment(id);
+        if (!attachment || attachment.placeId !== placeId) {
+            return res.status(404).json({ error: `Attachment not found with ID: ${id}` });
+        }
+
+        if (req.method === 'GET') {
+            // --- DOWNLOAD (attachment:list) ---
+            // The original file, or its WebP thumbnail with ?size=thumbnail.
+            const wantsThumbnail = getQueryParam(req, 'size') === 'thumbnail';
+            const key = wantsThumbnail ? attachment.thumbnailKey : attachment.storageKey;
+            const data = key ? await getStorageDriver().get(key) : null;
+
+            if (!data) {
+                return res.status(404).json({ error: wantsThumbnail ? 'This attachment has no thumbnail.' : 'The attachment file is missing from storage.' });
+            }
+
+            // Stored files never change, so browsers may keep them; "private" keeps shared caches out
+            res.setHeader('Content-Type', wantsThumbnail ? 'image/webp' : attachment.mimeType);
+            res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+            res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+            res.setHeader('X-Content-Type-Options', 'nosniff');
+            return res.status(200).send(data);
+
+        } else if (req.method === 'DELETE') {
+            // --- DELETE (attachment:delete) ---
+            // The record goes first; the files are removed once nothing points to them any more.
+            const deletedAttachment = await deleteAttachment(attachment.id, getAuditActor(auth));
+            await discardStoredFiles([deletedAttachment]);
+            return res.status(200).json(deletedAttachment);
+        }
+
+        return res.status(405).json({ error: 'Method Not Allowed' });
+
+    } catch (error: any) {
+        console.error(`Error in /api/itinerary/[id]/attachments/[attachmentId] handler (${req.method}):`, error);
+
+        // Handle Prisma "Record not found" error (deleted meanwhile)
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: `Attachment not found with ID: ${id}` });
+        }
+
+        return res.status(500).json({ error: 'Failed to process attachment request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'attachment:list', DELETE: 'attachment:delete' }, handler);
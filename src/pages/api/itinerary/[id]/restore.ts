@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { TripPlace } from '../../../../../app/generated/prisma';
+import { restoreTripPlace } from '../../../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../../utils/permissions';
+
+type RestoreResponse = TripPlace | { error: string };
+
+// --- RESTORE (itinerary:restore) ---
+// Undoes a soft delete; like deleting, this is reserved for the Admin.
+async function handler(req: NextApiRequest, res: NextApiResponse<RestoreResponse>, auth: AuthContext) {
+
+    const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+
+    if (!id) {
+        return res.status(400).json({ error: 'TripPlace ID is required in the URL path.' });
+    }
+
+    try {
+        const restoredPlace = await restoreTripPlace(id, getAuditActor(auth));
+        return res.status(200).json(restoredPlace);
+
+    } catch (error: any) {
+        console.error('Error in /api/itinerary/[id]/restore handler:', error);
+
+        // Handle Prisma "Record not found" error (unknown or not deleted)
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: `No deleted TripPlace found with ID: ${id}` });
+        }
+
+        return res.status(500).json({ error: 'Failed to restore the place due to a server error.' });
+    }
+}
+
+export default withPermission({ POST: 'itinerary:restore' }, handler);
@@ -0,0 +1,28 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { TripPlace } from '../../../../app/generated/prisma';
+import { getDeletedTripPlaces } from '../../../services/prisma_service';
+import { withPermission } from '../../../utils/permissions';
+import { resolveTripId } from '../../../utils/request_utils';
+
+type DeletedPlacesResponse = TripPlace[] | { error: string };
+
+// --- READ RECENTLY DELETED (itinerary:restore) ---
+// Lists the soft-deleted places of a trip (?tripId=, otherwise the default trip) so they can be restored.
+async function handler(req: NextApiRequest, res: NextApiResponse<DeletedPlacesResponse>) {
+    try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found.' });
+        }
+
+        const places = await getDeletedTripPlaces(tripId);
+        return res.status(200).json(places);
+
+    } catch (error: any) {
+        console.error('Error in /api/itinerary/deleted handler:', error);
+        return res.status(500).json({ error: 'Failed to fetch deleted places due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'itinerary:restore' }, handler);
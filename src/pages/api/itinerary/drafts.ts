@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { GEO_FORMATS, GeoImportResult, parseGeoFile } from '../../../services/geo_import_service';
+import { withPermission } from '../../../utils/permissions';
+
+type DraftsResponse = GeoImportResult | { error: string };
+
+// Exports of scouted spots can be large
+export const config = {
+    api: { bodyParser: { sizeLimit: '5mb' } },
+};
+
+// --- PARSE MAP EXPORT (itinerary:import) ---
+// Body: { format: 'gpx' | 'kml' | 'geojson', content: string }.
+// Returns draft places only; nothing is saved until the Admin assigns day, time and
+// purpose and creates each place through the itinerary endpoint.
+async function handler(req: NextApiRequest, res: NextApiResponse<DraftsResponse>) {
+    const { format, content } = req.body;
+
+    if (!GEO_FORMATS.includes(format) || typeof content !== 'string') {
+        return res.status(400).json({ error: `Missing or invalid fields: format must be one of ${GEO_FORMATS.join(', ')} and content must be the file text.` });
+    }
+
+    try {
+        return res.status(200).json(parseGeoFile(content, format));
+    } catch (error: any) {
+        console.error('Error in /api/itinerary/drafts handler:', error);
+        return res.status(400).json({ error: error.message || 'Failed to read the map file.' });
+    }
+}
+
+export default withPermission({ POST: 'itinerary:import' }, handler);
@@ -0,0 +1,67 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getTrip, getTripPlaces } from '../../../services/prisma_service';
+import { getBookletFontProblem, renderItineraryPdf } from '../../../services/booklet_service';
+import { exportPlaces, TRANSFER_FORMATS, TransferFormat } from '../../../services/transfer_service';
+import { AuthContext, ensurePermission, withPermission } from '../../../utils/permissions';
+import { getQueryParam, resolveTripId } from '../../../utils/request_utils';
+
+type ExportResponse = Buffer | string | { error: string };
+
+const EXPORT_FORMATS = ['pdf', ...TRANSFER_FORMATS];
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+    json: 'application/json; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+};
+
+// --- EXPORT (itinerary:list, itinerary:export) ---
+// Downloads the whole itinerary of a trip (?tripId=, otherwise the default trip).
+// format=pdf renders the printable booklet on the server and is open to everyone;
+// format=json|csv is a re-importable backup and is limited to the Admin.
+async function handler(req: NextApiRequest, res: NextApiResponse<ExportResponse>, auth: AuthContext) {
+    const format = (getQueryParam(req, 'format') || '').toLowerCase();
+
+    if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Invalid format parameter. Must be one of: ${EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    if (format !== 'pdf' && !ensurePermission(res, auth, 'itinerary:export')) {
+        return;
+    }
+
+    try {
+        const tripId = await resolveTripId(req);
+        const trip = tripId ? await getTrip(tripId) : null;
+
+        if (!trip) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before exporting its itinerary.' });
+        }
+
+        const places = await getTripPlaces(trip.id);
+
+        if (format !== 'pdf') {
+            res.setHeader('Content-Type', CONTENT_TYPES[format as TransferFormat]);
+            res.setHeader('Content-Disposition', `attachment; filename="itinerary.${format}"`);
+            return res.status(200).send(exportPlaces(places, format as TransferFormat));
+        }
+
+        // Without a font for the trip's script the PDF would be unreadable, so say what to configure instead.
+        // This is the server's setup rather than a fault in the request, hence 503 and not 500.
+        const fontProblem = getBookletFontProblem(trip, places);
+        if (fontProblem) {
+            return res.status(503).json({ error: fontProblem });
+        }
+
+        const pdf = await renderItineraryPdf(trip, places);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', 'attachment; filename="itinerary.pdf"');
+        return res.status(200).send(pdf);
+
+    } catch (error: any) {
+        console.error(`Error in /api/itinerary/export handler (${format}):`, error);
+        return res.status(500).json({ error: 'Failed to export the itinerary due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'itinerary:list' }, handler);
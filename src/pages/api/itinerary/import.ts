@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createTripPlaces, getTrip, getTripPlaces } from '../../../services/prisma_service';
+import { ImportReport, parseImportRows, planImport, TRANSFER_FORMATS, TransferFormat } from '../../../services/transfer_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../utils/permissions';
+import { resolveTripId } from '../../../utils/request_utils';
+
+type ImportResponse = { dryRun: boolean, created: number, report: ImportReport } | { error: string, report?: ImportReport };
+
+const MAX_IMPORT_ROWS = 500;
+
+// Whole trips arrive in one request
+export const config = {
+    api: { bodyParser: { sizeLimit: '2mb' } },
+};
+
+// --- BULK IMPORT (itinerary:import) ---
+// Body: { format: 'json' | 'csv', content: string, dryRun?: boolean }, rows in the export format.
+// A dry run only reports per-row errors and duplicates. A real import is refused while any row
+// is invalid, skips duplicates, and creates the remaining places in one transaction.
+async function handler(req: NextApiRequest, res: NextApiResponse<ImportResponse>, auth: AuthContext) {
+    try {
+        const tripId = await resolveTripId(req);
+        const trip = tripId ? await getTrip(tripId) : null;
+
+        if (!trip) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before importing places.' });
+        }
+
+        const { format, content, dryRun } = req.body;
+
+        if (!TRANSFER_FORMATS.includes(format) || typeof content !== 'string') {
+            return res.status(400).json({ error: `Missing or invalid fields: format must be one of ${TRANSFER_FORMATS.join(', ')} and content must be the file text.` });
+        }
+
+        let rows: unknown[];
+        try {
+            rows = parseImportRows(content, format as TransferFormat);
+        } catch (parseError: any) {
+            return res.status(400).json({ error: parseError.message });
+        }
+
+        if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ error: `An import must contain between 1 and ${MAX_IMPORT_ROWS} places.` });
+        }
+
+        const existingPlaces = await getTripPlaces(trip.id);
+        const { report, places } = planImport(rows, trip, existingPlaces);
+
+        if (dryRun) {
+            return res.status(200).json({ dryRun: true, created: 0, report });
+        }
+
+        if (report.invalidCount > 0) {
+            return res.status(400).json({ error: `${report.invalidCount} row(s) are invalid. Fix them and import again; nothing was saved.`, report });
+        }
+
+        const created = await createTripPlaces(trip.id, places, getAuditActor(auth));
+        return res.status(201).json({ dryRun: false, created: created.length, report });
+
+    } catch (error: any) {
+        console.error('Error in /api/itinerary/import handler:', error);
+
+        // Handle Prisma "Foreign key constraint failed" error (unknown tripId)
+        if (error.code === 'P2003') {
+            return res.status(404).json({ error: 'Trip not found for the requested import.' });
+        }
+
+        return res.status(500).json({ error: 'Failed to import places due to a server error.' });
+    }
+}
+
+export default withPermission({ POST: 'itinerary:import' }, handler);
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { TripPlace } from '../../../../app/generated/prisma';
+import { getTrip, reorderTripPlaces } from '../../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../utils/permissions';
+import { resolveTripId } from '../../../utils/request_utils';
+import { checkTripDay, validateReorderInput, validationError } from '../../../utils/schemas';
+
+type ReorderResponse = TripPlace[] | { error: string };
+
+// --- REORDER (itinerary:update) ---
+// Body: { day, placeIds, movedPlaceId?, shiftStartTimes? }, where placeIds is the full new order
+// of the day, including the moved place when it was dragged in from another day. All places are
+// moved and re-timed in one transaction; responds with the day's places in their new order.
+// An order that does not list exactly the day's current places is refused with 409.
+async function handler(req: NextApiRequest, res: NextApiResponse<ReorderResponse>, auth: AuthContext) {
+    try {
+        const tripId = await resolveTripId(req);
+        const trip = tripId ? await getTrip(tripId) : null;
+
+        if (!trip) {
+            return res.status(404).json({ error: 'No trip found.' });
+        }
+
+        const validation = validateReorderInput(req.body);
+        if (!validation.ok) {
+            return res.status(400).json(validationError(validation.fields));
+        }
+
+        const dayErrors = checkTripDay(validation.data.day, trip);
+        if (dayErrors) {
+            return res.status(400).json(validationError(dayErrors));
+        }
+
+        const places = await reorderTripPlaces(trip.id, validation.data, getAuditActor(auth));
+
+        if (!places) {
+            return res.status(409).json({ error: "The day's places have changed since the itinerary was loaded. Refresh the itinerary and try again." });
+        }
+
+        return res.status(200).json(places);
+
+    } catch (error: any) {
+        console.error('Error in /api/itinerary/reorder handler:', error);
+
+        // Handle Prisma "Record not found" error (a place was deleted mid-reorder)
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: 'One or more places were not found in this trip.' });
+        }
+
+        return res.status(500).json({ error: 'Failed to reorder places due to a server error.' });
+    }
+}
+
+export default withPermission({ PATCH: 'itinerary:update' }, handler);
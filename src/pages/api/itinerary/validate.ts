@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getTripPlaces } from '../../../services/prisma_service';
+import { 
+    checkDaySchedule, 
+    ScheduleWarning, 
+    TravelMode, 
+    TRAVEL_MODES 
+} from '../../../services/schedule_service';
+import { withPermission } from '../../../utils/permissions';
+import { getQueryParam, resolveTripId } from '../../../utils/request_utils';
+
+type ValidateResponse = { day: number, mode: TravelMode, warnings: ScheduleWarning[] } | { error: string };
+
+// --- READ (itinerary:list) ---
+// Reports overlapping stops and impossible transfers for one day: GET /api/itinerary/validate?day=N[&mode=walk|transit|drive]
+async function handler(req: NextApiRequest, res: NextApiResponse<ValidateResponse>) {
+    try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before validating its itinerary.' });
+        }
+
+        const day = parseInt(getQueryParam(req, 'day') || '', 10);
+
+        if (isNaN(day) || day < 1) {
+            return res.status(400).json({ error: 'Invalid day parameter. Must be a positive integer.' });
+        }
+
+        const mode = (getQueryParam(req, 'mode') || 'transit') as TravelMode;
+
+        if (!TRAVEL_MODES.includes(mode)) {
+            return res.status(400).json({ error: `Invalid mode parameter. Must be one of: ${TRAVEL_MODES.join(', ')}.` });
+        }
+
+        const places = await getTripPlaces(tripId, day);
+        const warnings = checkDaySchedule(places, { mode });
+
+        return res.status(200).json({ day, mode, warnings });
+    } catch (error) {
+        console.error('Error in /api/itinerary/validate handler:', error);
+        return res.status(500).json({ error: 'Failed to validate the itinerary due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'itinerary:list' }, handler);
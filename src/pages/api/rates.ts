@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { RateSnapshot } from '../../../app/generated/prisma';
+import { 
+    getRateSnapshots, 
+    createRateSnapshot 
+} from '../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../utils/permissions';
+import { resolveTripId } from '../../utils/request_utils';
+import { validateRateTableInput, validationError } from '../../utils/schemas';
+
+type RatesResponse = RateSnapshot[] | RateSnapshot | { error: string };
+
+// Exchange rate tables of the trip given by ?tripId=, otherwise the default trip.
+// Rates are entered by hand; the planner never calls an exchange rate API.
+async function handler(req: NextApiRequest, res: NextApiResponse<RatesResponse>, auth: AuthContext) {
+    try {
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found. Create a trip before setting exchange rates.' });
+        }
+
+        if (req.method === 'GET') {
+            // --- READ (rates:list) ---
+            // Saved tables, newest first; the first one is used for conversions.
+            const snapshots = await getRateSnapshots(tripId);
+            return res.status(200).json(snapshots);
+
+        } else if (req.method === 'POST') {
+            // --- SAVE TABLE (rates:update) ---
+            // Only the Admin edits the rates. Every save adds a snapshot instead of
+            // overwriting the last one, so earlier converted totals stay traceable.
+            const validation = validateRateTableInput(req.body);
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
+            }
+
+            const snapshot = await createRateSnapshot(tripId, validation.data, getAuditActor(auth));
+            return res.status(201).json(snapshot);
+        } 
+        
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    } catch (error: any) {
+        console.error(`Error in /api/rates handler (${req.method}):`, error);
+
+        // Handle Prisma "Foreign key constraint failed" error (unknown tripId)
+        if (error.code === 'P2003') {
+            return res.status(404).json({ error: 'Trip not found for the requested exchange rates.' });
+        }
+
+        return res.status(500).json({ error: 'Failed to process exchange rate request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'rates:list', POST: 'rates:update' }, handler);
@@ -3,79 +3,87 @@ import { Suggestion, SuggestionStatus } from '../../../app/generated/prisma';
 import { 
     createSuggestion, 
     getSuggestions, 
-    CreateSuggestionData,
     updateSuggestionStatus
 } from '../../services/prisma_service';
-import { isAuthorized, isAdminOrTrustedAuthorized  } from '../../utils/auth_utils';
+import { AuthContext, getAuditActor, withPermission } from '../../utils/permissions';
+import { parseSuggestionStatus, resolveTripId } from '../../utils/request_utils';
+import { CreateSuggestionData, validateSuggestionInput, validateSuggestionReviewInput, validationError } from '../../utils/schemas';
 
 // Define the response type for clarity
 type SuggestionResponse = Suggestion[] | Suggestion | { error: string };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<SuggestionResponse>) {
+// Also served as /api/trips/[tripId]/suggestions, where tripId arrives through req.query.
+async function handler(req: NextApiRequest, res: NextApiResponse<SuggestionResponse>, auth: AuthContext) {
     try {
-        if (req.method === 'GET') {
-            // --- READ INBOX (Admin Protected) ---
-            // Only the Admin should view the full inbox, ensuring full visibility and control is centralized.
-            if (!isAuthorized(req, 'admin')) {
-                return res.status(403).json({ error: 'Forbidden: Admin access required to view the inbox.' });
-            }
+        const tripId = await resolveTripId(req);
+
+        if (!tripId) {
+            return res.status(404).json({ error: 'No trip found. Suggestions must belong to a trip.' });
+        }
 
+        if (req.method === 'GET') {
+            // --- READ INBOX (suggestion:list) ---
+            // Both travellers review suggestions (suggestion:review), so both can read the full inbox.
             const statusQuery = req.query.status as string;
             let statusFilter: SuggestionStatus | undefined = undefined;
 
             // Handle status filtering logic (e.g., /api/suggestions?status=pending)
             if (statusQuery) {
-                const statusUpper = statusQuery.toUpperCase() as SuggestionStatus;
-                if (Object.values(SuggestionStatus).includes(statusUpper)) {
-                    statusFilter = statusUpper;
+                const parsedStatus = parseSuggestionStatus(statusQuery);
+                if (parsedStatus) {
+                    statusFilter = parsedStatus;
                 } else {
                     return res.status(400).json({ error: 'Invalid status filter. Must be "pending", "approved", or "rejected".' });
                 }
             }
 
-            const suggestions = await getSuggestions(statusFilter);
+            const suggestions = await getSuggestions(tripId, statusFilter);
             return res.status(200).json(suggestions);
 
         } else if (req.method === 'POST') {
-            // --- CREATE (Public) ---
-            // User submissions are public, so no auth check is needed here.
-            const { userId, title, text } = req.body;
-
-            if (!userId || !title || !text) {
-                return res.status(400).json({ error: 'Missing required fields: userId, title, and text are mandatory.' });
+            // --- CREATE (suggestion:create) ---
+            // Any logged-in traveller can drop an idea into the inbox.
+            // The submitter is always the session's userId; a userId in the body is ignored.
+            const validation = validateSuggestionInput(req.body);
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
             }
 
-            const suggestionData: CreateSuggestionData = { userId, title, text };
-            const newSuggestion = await createSuggestion(suggestionData);
+            const suggestionData: CreateSuggestionData = { tripId, userId: auth.session!.userId, ...validation.data };
+            const newSuggestion = await createSuggestion(suggestionData, getAuditActor(auth));
 
             return res.status(201).json(newSuggestion);
 
         } else if (req.method === 'PATCH') {
-            // --- UPDATE STATUS (Trusted User Protected) ---
+            // --- UPDATE STATUS (suggestion:review) ---
             // Allow both Admin and Trusted User to approve/reject suggestions.
-            if (!isAdminOrTrustedAuthorized(req)) {
-                return res.status(403).json({ error: 'Forbidden: Trusted user access required to update suggestions.' });
+            // The ID comes from the body here; a rejection needs a review note for the submitter
+            const validation = validateSuggestionReviewInput(req.body, { idRequired: true });
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
             }
 
-            const { id, status } = req.body;
+            const { id, status, reviewNote } = validation.data;
+            const updatedSuggestion = await updateSuggestionStatus(id!, SuggestionStatus[status], getAuditActor(auth), reviewNote);
 
-            if (!id || !status) {
-                return res.status(400).json({ error: 'Missing required fields: id and status are mandatory for updating.' });
+            if (!updatedSuggestion) {
+                return res.status(409).json({ error: 'This suggestion is already on the itinerary. Delete its place before changing its status.' });
             }
-            
-            const statusUpper = status.toUpperCase() as SuggestionStatus;
 
-            if (!Object.values(SuggestionStatus).includes(statusUpper)) {
-                return res.status(400).json({ error: 'Invalid status provided. Must be "pending", "approved", or "rejected".' });
-            }
-
-            const updatedSuggestion = await updateSuggestionStatus(id, statusUpper);
             return res.status(200).json(updatedSuggestion);
         }
         
         return res.status(405).json({ error: 'Method Not Allowed' });
-    } catch (error) {
+    } catch (error: any) {
         console.error(`Error in /api/suggestions handler (${req.method}):`, error);
+
+        // Handle Prisma "Foreign key constraint failed" error (unknown tripId)
+        if (error.code === 'P2003') {
+            return res.status(404).json({ error: 'Trip not found for the submitted suggestion.' });
+        }
+
         return res.status(500).json({ error: 'Failed to process suggestion request due to a server error.' });
     }
 }
+
+export default withPermission({ GET: 'suggestion:list', POST: 'suggestion:create', PATCH: 'suggestion:review' }, handler);
@@ -1,24 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { Suggestion, SuggestionStatus } from '../../../../app/generated/prisma';
 import { updateSuggestionStatus } from '../../../services/prisma_service';
-import { 
-    isAdminOrTrustedAuthorized 
-} from '../../../utils/auth_utils'; // Using the collaborative authorization function
+import { AuthContext, getAuditActor, withPermission } from '../../../utils/permissions';
+import { validateSuggestionReviewInput, validationError } from '../../../utils/schemas';
 
 type SingleSuggestionResponse = Suggestion | { error: string };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<SingleSuggestionResponse>) {
-    
-    // --- AUTH CHECK (Trusted User Protected) ---
-    // Allow both Admin and Trusted User to approve/reject suggestions.
-    if (req.method === 'PATCH') {
-        if (!isAdminOrTrustedAuthorized(req)) {
-            return res.status(403).json({ error: 'Forbidden: Authentication required to update suggestion status.' });
-        }
-    } else {
-        // Only PATCH is supported for this route
-        return res.status(405).json({ error: 'Method Not Allowed. Only PATCH is supported for status updates.' });
-    }
+// --- UPDATE STATUS (suggestion:review) ---
+// Allow both Admin and Trusted User to approve/reject suggestions. Only PATCH is supported.
+async function handler(req: NextApiRequest, res: NextApiResponse<SingleSuggestionResponse>, auth: AuthContext) {
 
     const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
 
@@ -27,25 +17,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     }
 
     try {
-        // 1. Get new status from body
-        const { status } = req.body;
-
-        if (!status) {
-            return res.status(400).json({ error: 'Missing required field: status is mandatory for PATCH request body.' });
+        // 1. Validate the new status and review note
+        // Note: The status is matched case-insensitively, so "approved" and "APPROVED" both map to the Approved enum value.
+        // Rejections must explain themselves to the submitter.
+        const validation = validateSuggestionReviewInput(req.body);
+        if (!validation.ok) {
+            return res.status(400).json(validationError(validation.fields));
         }
 
-        // 2. Validate the status against the Enum
-        // Note: We force validation to be case-insensitive by converting to uppercase before checking the enum.
-        const statusUpper = status.toUpperCase() as SuggestionStatus;
-        
-        if (!Object.values(SuggestionStatus).includes(statusUpper)) {
-            return res.status(400).json({ error: 'Invalid status value. Must be "pending", "approved", or "rejected".' });
-        }
+        // 2. Call the service to update
+        const { status, reviewNote } = validation.data;
+        const updatedSuggestion = await updateSuggestionStatus(id, SuggestionStatus[status], getAuditActor(auth), reviewNote);
 
-        // 3. Call the service to update
-        const updatedSuggestion = await updateSuggestionStatus(id, statusUpper);
+        if (!updatedSuggestion) {
+            return res.status(409).json({ error: 'This suggestion is already on the itinerary. Delete its place before changing its status.' });
+        }
 
-        // 4. Return the updated suggestion
+        // 3. Return the updated suggestion
         return res.status(200).json(updatedSuggestion);
 
     } catch (error: any) {
@@ -59,3 +47,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
         return res.status(500).json({ error: 'Failed to update suggestion status due to a server error.' });
     }
 }
+
+export default withPermission({ PATCH: 'suggestion:review' }, handler);
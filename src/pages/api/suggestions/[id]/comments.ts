@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SuggestionComment } from '../../../../../app/generated/prisma';
+import { 
+    getSuggestion, 
+    getSuggestionComments, 
+    createSuggestionComment 
+} from '../../../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../../utils/permissions';
+import { validateSuggestionCommentInput, validationError } from '../../../../utils/schemas';
+
+type CommentResponse = SuggestionComment[] | SuggestionComment | { error: string };
+
+// --- COMMENT THREAD (suggestion:comment) ---
+// Both travellers review suggestions (suggestion:review), so both can read and reply on every thread.
+async function handler(req: NextApiRequest, res: NextApiResponse<CommentResponse>, auth: AuthContext) {
+
+    const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+
+    if (!id) {
+        return res.status(400).json({ error: 'Suggestion ID is required in the URL path.' });
+    }
+
+    try {
+        const suggestion = await getSuggestion(id);
+
+        if (!suggestion) {
+            return res.status(404).json({ error: `Suggestion not found with ID: ${id}` });
+        }
+
+        if (req.method === 'GET') {
+            const comments = await getSuggestionComments(id);
+            return res.status(200).json(comments);
+        }
+
+        // POST: add a reply to the thread
+        const validation = validateSuggestionCommentInput(req.body);
+        if (!validation.ok) {
+            return res.status(400).json(validationError(validation.fields));
+        }
+
+        const comment = await createSuggestionComment({
+            suggestionId: id,
+            authorRole: auth.session!.role,
+            body: validation.data.body,
+        }, getAuditActor(auth));
+
+        return res.status(201).json(comment);
+
+    } catch (error) {
+        console.error(`Error in /api/suggestions/[id]/comments handler (${req.method}):`, error);
+        return res.status(500).json({ error: 'Failed to process comment request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'suggestion:comment', POST: 'suggestion:comment' }, handler);
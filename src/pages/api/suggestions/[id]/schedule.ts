@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Suggestion, TripPlace } from '../../../../../app/generated/prisma';
+import { approveAndScheduleSuggestion, getSuggestion, getTrip } from '../../../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../../utils/permissions';
+import { checkTripDay, validateTripPlaceInput, validationError } from '../../../../utils/schemas';
+
+type ScheduleResponse = { suggestion: Suggestion, place: TripPlace } | { error: string };
+
+// --- APPROVE AND SCHEDULE (suggestion:schedule) ---
+// Approves the suggestion and turns it into an itinerary place in the same transaction.
+// The place name and notes default to the suggestion's title and text.
+// Only pending suggestions can be scheduled; approved or rejected ones answer 409.
+async function handler(req: NextApiRequest, res: NextApiResponse<ScheduleResponse>, auth: AuthContext) {
+
+    const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+
+    if (!id) {
+        return res.status(400).json({ error: 'Suggestion ID is required in the URL path.' });
+    }
+
+    try {
+        // The name may be left out: the service falls back to the suggestion's title
+        const validation = validateTripPlaceInput(req.body, { nameOptional: true });
+        if (!validation.ok) {
+            return res.status(400).json(validationError(validation.fields));
+        }
+
+        // The new place joins the suggestion's trip, so its day has to fall inside that trip
+        const suggestion = await getSuggestion(id);
+        if (!suggestion) {
+            return res.status(404).json({ error: `Suggestion not found with ID: ${id}` });
+        }
+
+        const trip = await getTrip(suggestion.tripId);
+        const dayErrors = trip && checkTripDay(validation.data.day, trip);
+        if (dayErrors) {
+            return res.status(400).json(validationError(dayErrors));
+        }
+
+        const result = await approveAndScheduleSuggestion(id, validation.data, getAuditActor(auth));
+
+        if (!result) {
+            return res.status(409).json({ error: 'Only pending suggestions can be scheduled. This one has already been reviewed.' });
+        }
+
+        return res.status(201).json(result);
+
+    } catch (error: any) {
+        console.error('Error in /api/suggestions/[id]/schedule handler:', error);
+
+        // Handle Prisma "Record not found" error
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: `Suggestion not found with ID: ${id}` });
+        }
+
+        // Handle Prisma "Unique constraint failed" error (sourceSuggestionId)
+        if (error.code === 'P2002') {
+            return res.status(409).json({ error: 'This suggestion has already been scheduled.' });
+        }
+
+        return res.status(500).json({ error: 'Failed to schedule suggestion due to a server error.' });
+    }
+}
+
+export default withPermission({ POST: 'suggestion:schedule' }, handler);
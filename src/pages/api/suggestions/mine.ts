@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Suggestion } from '../../../../app/generated/prisma';
+import { getSuggestionsByUser } from '../../../services/prisma_service';
+import { AuthContext, withPermission } from '../../../utils/permissions';
+import { getQueryParam } from '../../../utils/request_utils';
+
+type MySuggestionsResponse = Suggestion[] | { error: string };
+
+// --- READ OWN (suggestion:mine) ---
+// Lists the caller's own submissions with status and review notes; ?tripId= narrows it to one trip.
+// Unlike the inbox (suggestion:list), which shows reviewers every submission of one trip, this is
+// scoped to the caller's identity across trips, so submitters can follow what became of their ideas.
+async function handler(req: NextApiRequest, res: NextApiResponse<MySuggestionsResponse>, auth: AuthContext) {
+    try {
+        // withPermission only lets logged-in roles through, so the session is present
+        const suggestions = await getSuggestionsByUser(auth.session!.userId, getQueryParam(req, 'tripId'));
+        return res.status(200).json(suggestions);
+    } catch (error) {
+        console.error('Error in /api/suggestions/mine handler:', error);
+        return res.status(500).json({ error: 'Failed to fetch your suggestions due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'suggestion:mine' }, handler);
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Trip } from '../../../app/generated/prisma';
+import { 
+    getTrips, 
+    createTrip 
+} from '../../services/prisma_service';
+import { AuthContext, getAuditActor, withPermission } from '../../utils/permissions';
+import { validateTripInput, validationError } from '../../utils/schemas';
+
+type TripResponse = Trip[] | Trip | { error: string };
+
+async function handler(req: NextApiRequest, res: NextApiResponse<TripResponse>, auth: AuthContext) {
+    try {
+        if (req.method === 'GET') {
+            // --- READ (trip:list) ---
+            // The trip list is public so the login screen and the trip switcher can render it.
+            const trips = await getTrips();
+            return res.status(200).json(trips);
+
+        } else if (req.method === 'POST') {
+            // --- CREATE (trip:create) ---
+            // Title, "YYYY-MM-DD" dates and the time zone are checked by the shared Trip schema
+            const validation = validateTripInput(req.body);
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
+            }
+
+            const newTrip = await createTrip(validation.data, getAuditActor(auth));
+
+            return res.status(201).json(newTrip);
+        }
+
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    } catch (error) {
+        console.error(`Error in /api/trips handler (${req.method}):`, error);
+        return res.status(500).json({ error: 'Failed to process trip request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'trip:list', POST: 'trip:create' }, handler);
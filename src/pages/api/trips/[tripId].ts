@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Trip } from '../../../../app/generated/prisma';
+import { 
+    getTrip, 
+    updateTrip, 
+    deleteTrip 
+} from '../../../services/prisma_service';
+import { discardStoredFiles } from '../../../services/attachment_service';
+import { AuthContext, getAuditActor, withPermission } from '../../../utils/permissions';
+import { validateTripUpdate, validationError } from '../../../utils/schemas';
+
+type SingleTripResponse = Trip | { error: string };
+
+async function handler(req: NextApiRequest, res: NextApiResponse<SingleTripResponse>, auth: AuthContext) {
+
+    const tripId = Array.isArray(req.query.tripId) ? req.query.tripId[0] : req.query.tripId;
+
+    if (!tripId) {
+        return res.status(400).json({ error: 'Trip ID is required in the URL path.' });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            // --- READ (trip:list) ---
+            const trip = await getTrip(tripId);
+
+            if (!trip) {
+                return res.status(404).json({ error: `Trip not found with ID: ${tripId}` });
+            }
+            return res.status(200).json(trip);
+
+        } else if (req.method === 'PUT') {
+            // --- UPDATE (trip:update) ---
+            // Moving only one date is checked against the stored other one
+            const trip = await getTrip(tripId);
+            if (!trip) {
+                return res.status(404).json({ error: `Trip not found with ID: ${tripId}` });
+            }
+
+            const validation = validateTripUpdate(req.body, {
+                startDate: trip.startDate.toISOString().slice(0, 10),
+                endDate: trip.endDate.toISOString().slice(0, 10),
+            });
+            if (!validation.ok) {
+                return res.status(400).json(validationError(validation.fields));
+            }
+
+            const updatedTrip = await updateTrip(tripId, validation.data, getAuditActor(auth));
+            return res.status(200).json(updatedTrip);
+
+        } else if (req.method === 'DELETE') {
+            // --- DELETE (trip:delete) ---
+            // Deleting a trip also removes its places, suggestions and the files attached to them.
+            const { trip: deletedTrip, attachments } = await deleteTrip(tripId, getAuditActor(auth));
+            await discardStoredFiles(attachments);
+            return res.status(200).json(deletedTrip);
+        }
+
+        return res.status(405).json({ error: 'Method Not Allowed' });
+
+    } catch (error: any) {
+        console.error(`Error in /api/trips/[tripId] handler (${req.method}):`, error);
+
+        // Handle Prisma "Record not found" error
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: `Trip not found with ID: ${tripId}` });
+        }
+
+        return res.status(500).json({ error: 'Failed to process trip request due to a server error.' });
+    }
+}
+
+export default withPermission({ GET: 'trip:list', PUT: 'trip:update', DELETE: 'trip:delete' }, handler);
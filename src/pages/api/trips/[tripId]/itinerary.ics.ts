@@ -0,0 +1,3 @@
+// The trip-scoped calendar feed shares the /api/itinerary.ics handler; Next.js places
+// the [tripId] path segment in req.query, which the handler resolves.
+export { default } from '../../itinerary.ics';
@@ -0,0 +1,3 @@
+// The trip-scoped suggestions share the /api/suggestions handler; Next.js places
+// the [tripId] path segment in req.query, which the handler resolves.
+export { default } from '../../suggestions';
@@ -1,64 +1,285 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { MapPin, Rabbit, Loader2, ListOrdered, Inbox, PlusCircle, Trash2, Edit, LogIn, Heart } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type * as Leaflet from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapPin, Rabbit, Loader2, ListOrdered, Inbox, PlusCircle, Trash2, Edit, LogIn, Heart, Plane, AlertTriangle, Map as MapIcon, MessageCircle, CalendarPlus, Printer, ArrowDownUp, MapPinned, History, RotateCcw, GripVertical, WifiOff, X, Wallet, ListChecks, Ticket, FileText, ImagePlus } from 'lucide-react';
+import { compareByStartTime, formatPlaceTime, formatStartTime, getTripDayCount, parseTimeString } from '../utils/time_utils';
+import { ATTACHMENT_MIME_TYPES, BOOKING_SCHEMA, CHECKLIST_CATEGORIES, CHECKLIST_ITEM_SCHEMA, EXPENSE_CATEGORIES, EXPENSE_SCHEMA, FieldErrors, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_UPLOAD, MAX_RATE_CURRENCIES, MAX_UPLOAD_BYTES, SUGGESTION_SCHEMA, TRIP_PLACE_SCHEMA, validateBookingInput, validateBookingUpdate, validateChecklistItemInput, validateChecklistItemUpdate, validateExpenseInput, validateExpenseUpdate, validateRateTableInput, validateSuggestionInput, validateTripPlaceInput, validateTripPlaceUpdate } from '../utils/schemas';
+import { getQueuedSuggestions, queueSuggestion, removeQueuedSuggestion } from '../utils/offline_outbox';
+import { ConvertedTotal, convertAmount } from '../utils/currency_utils';
 
 // --- 1. Constants and Type Definitions ---
 
 const API_BASE_URL = '/api';
-const USER_ID = typeof window !== 'undefined' ? (localStorage.getItem('user_id') || crypto.randomUUID()) : 'server-user';
-if (typeof window !== 'undefined') {
-    localStorage.setItem('user_id', USER_ID);
-}
-
-// Mock Secrets for Client-side Role Determination (must match backend expectation)
-const ADMIN_SECRET = process.env.NEXT_PUBLIC_ADMIN_SECRET!;
-const TRUSTED_SECRET = process.env.NEXT_PUBLIC_TRUSTED_SECRET!; 
 
 type Role = 'admin' | 'trusted' | 'guest';
 
+// Map tiles: any {z}/{x}/{y} raster source works, including a self-hosted tile server
+const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const MAP_TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '&copy; OpenStreetMap contributors';
+
 // TypeScript models matching the backend structure
+interface Trip {
+    id: string;
+    title: string;
+    tagline: string | null;
+    startDate: string;
+    endDate: string;
+    timezone: string;
+    coverImage: string | null;
+}
+
 interface TripPlace {
     id: string;
+    tripId: string;
     day: number;
-    time: string;
+    startTime: number | null;       // Minutes since midnight
+    durationMinutes: number | null;
+    timeLabel: string | null;       // Fuzzy slot such as "Evening"
+    position: number;               // Drag-and-drop order; breaks start time ties
     name: string;
     purpose: string;
     notes: string | null;
     latitude: number;
     longitude: number;
+    estimatedCost: number | null;
+    currency: string | null;        // ISO 4217 code of the estimated cost
+    deletedAt?: string | null;      // Set on soft-deleted places, see "Recently deleted"
+    version: number;                // Sent back in If-Match so concurrent edits are detected
 }
 
+// The editable part of a TripPlace, as held by ItineraryForm
+type PlaceFormData = Omit<TripPlace, 'id' | 'tripId' | 'position' | 'version'>;
+
+// Values match the Prisma enum; the API accepts them case-insensitively
 enum SuggestionStatus {
-    PENDING = 'PENDING',
-    APPROVED = 'APPROVED',
-    REJECTED = 'REJECTED',
+    PENDING = 'Pending',
+    APPROVED = 'Approved',
+    REJECTED = 'Rejected',
 }
 
 interface Suggestion {
     id: string;
+    tripId: string;
     userId: string;
     title: string;
     text: string;
     status: SuggestionStatus;
+    reviewNote: string | null;      // Reviewer's reason, always set on rejection
+    createdAt: string;
+    // The itinerary place created by "Approve & Schedule", if any
+    scheduledPlace: Pick<TripPlace, 'id' | 'name' | 'day' | 'startTime' | 'timeLabel'> | null;
+    _count?: { comments: number };
+}
+
+interface SuggestionComment {
+    id: string;
+    suggestionId: string;
+    authorRole: 'admin' | 'trusted';
+    body: string;
+    createdAt: string;
+}
+
+// Per-row outcome of /api/itinerary/import
+interface ImportReport {
+    rows: { row: number, status: 'valid' | 'invalid' | 'duplicate', name?: string, errors?: Record<string, string>, duplicateOf?: 'existing' | number }[];
+    validCount: number;
+    invalidCount: number;
+    duplicateCount: number;
+}
+
+// A point parsed from a GPX/KML/GeoJSON file by /api/itinerary/drafts
+interface DraftPlace {
+    name: string;
+    latitude: number;
+    longitude: number;
+    notes: string | null;
+}
+
+// A payment recorded by either traveller; shared ones are split 50/50 in the settlement
+interface Expense {
+    id: string;
+    tripId: string;
+    placeId: string | null;
+    day: number | null;
+    payer: 'admin' | 'trusted';
+    amount: number;
+    currency: string;
+    category: typeof EXPENSE_CATEGORIES[number];
+    description: string | null;
+    shared: boolean;
+    createdAt: string;
+}
+
+// Amounts keyed by currency code, as returned by /api/expenses/summary
+type CurrencyTotals = Record<string, number>;
+
+type Settlement = { from: Expense['payer'], to: Expense['payer'], amount: number, currency: string };
+
+interface BudgetSummary {
+    days: { day: number, estimated: CurrencyTotals, actual: CurrencyTotals }[];
+    estimated: CurrencyTotals;
+    actual: CurrencyTotals;
+    unassigned: CurrencyTotals;
+    paid: Record<Expense['payer'], CurrencyTotals>;
+    settlements: Settlement[];
+    // The same totals in the home currency, each naming the rate snapshot used; null without rates
+    converted: {
+        rateSnapshotId: string;
+        ratesAsOf: string;
+        currency: string;
+        rates: Record<string, number>;
+        days: { day: number, estimated: ConvertedTotal, actual: ConvertedTotal }[];
+        estimated: ConvertedTotal;
+        actual: ConvertedTotal;
+        unassigned: ConvertedTotal;
+        settlements: Settlement[];
+    } | null;
+}
+
+// A booking to make, document to bring or thing to pack, shared by both travellers
+interface ChecklistItem {
+    id: string;
+    tripId: string;
+    placeId: string | null;
+    title: string;
+    notes: string | null;
+    category: typeof CHECKLIST_CATEGORIES[number];
+    assignee: 'admin' | 'trusted' | null;  // Null when either can do it
+    dueDate: string | null;                // ISO timestamp at midnight UTC
+    done: boolean;
+    createdAt: string;
+}
+
+// A reservation for a place. Times are trip-local wall clock times sent as UTC ISO strings,
+// so they are read with timeZone 'UTC' and never shifted into the viewer's zone.
+interface Booking {
+    id: string;
+    tripId: string;
+    placeId: string;
+    provider: string;
+    confirmationCode: string | null;
+    startsAt: string | null;               // Check-in or reservation time
+    endsAt: string | null;                 // Check-out, for stays
+    partySize: number | null;
+    contactPhone: string | null;
+    cancellationDeadline: string | null;
+    notes: string | null;
+    createdAt: string;
+}
+
+// A file attached to a place; the file itself is served by /api/itinerary/[id]/attachments/[attachmentId]
+interface Attachment {
+    id: string;
+    placeId: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    thumbnailKey: string | null;           // Set when a thumbnail exists (images)
+    width: number | null;
+    height: number | null;
+    uploadedBy: string;
+    createdAt: string;
+}
+
+// One saved version of the exchange rate table from /api/rates
+interface RateSnapshot {
+    id: string;
+    tripId: string;
+    homeCurrency: string;
+    rates: Record<string, number>;  // Units of homeCurrency per unit of each currency
+    createdAt: string;
+}
+
+// One entry of the change history from /api/audit
+interface AuditEvent {
+    id: string;
+    tripId: string | null;
+    actorRole: string;
+    actorId: string | null;
+    entityType: 'Trip' | 'TripPlace' | 'Suggestion' | 'SuggestionComment' | 'Expense' | 'RateSnapshot' | 'ChecklistItem' | 'Booking' | 'Attachment';
+    entityId: string;
+    action: 'create' | 'update' | 'delete' | 'restore' | 'status';
+    changes: Record<string, { before: unknown, after: unknown }>;
     createdAt: string;
 }
 
+// A change pushed by the /api/events stream; it only names what changed
+interface LiveEvent {
+    entityType: 'TripPlace' | 'Suggestion' | 'SuggestionComment' | 'Expense' | 'RateSnapshot' | 'ChecklistItem' | 'Booking' | 'Attachment';
+    action: AuditEvent['action'];
+    tripId: string;
+    entityIds: string[];
+    at: string;
+}
+
+// Overlap or impossible transfer reported by /api/itinerary/validate
+interface ScheduleWarning {
+    type: 'overlap' | 'infeasible_transfer';
+    placeIds: [string, string];
+    message: string;
+}
+
+// Fallback copy used until the first trip record is created
+const DEFAULT_TRIP_TITLE = '我们的旅行 💜';
+const DEFAULT_TRIP_TAGLINE = '与你共度每一瞬间💞';
+
+// Currency suggested for the first expense of a trip
+const DEFAULT_CURRENCY = 'CNY';
+
+// How the two travellers appear in the budget, matching the header badge
+const TRAVELLER_LABELS: Record<Expense['payer'], string> = {
+    admin: 'BF',
+    trusted: 'BAE 💗',
+};
+
 // Initial state for the form
-const initialTripPlaceFormData: Omit<TripPlace, 'id'> = {
+const initialTripPlaceFormData: PlaceFormData = {
     day: 1, 
-    time: '12:00', 
+    startTime: 12 * 60, 
+    durationMinutes: null,
+    timeLabel: '',
     name: '', 
     purpose: '', 
     notes: '', 
     latitude: 0, 
-    longitude: 0
+    longitude: 0,
+    estimatedCost: null,
+    currency: '',
 };
 
 // --- 2. Custom Hooks and Utilities ---
 
-// Custom hook to handle API calls, including the unified authorization header
-const useApiFetcher = (authSecret: string | null) => {
+// Error raised for 4xx responses; retrying will not change the outcome.
+// Validation failures carry the per-field messages from the shared schemas.
+class ClientRequestError extends Error {
+    fields?: FieldErrors;
+    status?: number;
+    body?: unknown;         // The parsed error response, e.g. the current copy sent with a 409
+
+    constructor(message: string, fields?: FieldErrors, status?: number, body?: unknown) {
+        super(message);
+        this.fields = fields;
+        this.status = status;
+        this.body = body;
+    }
+}
+
+// The copy of a place that PUT /itinerary/[id] sends with a 409 when someone else saved it first
+const getConflictingPlace = (error: unknown): TripPlace | null => {
+    if (!(error instanceof ClientRequestError) || error.status !== 409) return null;
+    const { body } = error;
+    return typeof body === 'object' && body !== null && 'current' in body ? (body as { current: TripPlace }).current : null;
+};
+
+// Thrown instead of retrying when the device has no connection; reads the service worker
+// has cached still succeed offline, so this only reaches callers for uncached requests
+class OfflineError extends Error {}
+
+// Custom hook to handle API calls. Authorization travels in the HttpOnly session cookie,
+// which the browser attaches to same-origin requests automatically.
+const useApiFetcher = () => {
     const maxRetries = 3;
 
     const safeFetch = useCallback(async (
@@ -66,24 +287,24 @@ const useApiFetcher = (authSecret: string | null) => {
         options: RequestInit = {}, 
         requiresAuth: boolean = false 
     ) => {
-        const headers = {
+        // Multipart uploads let the browser set the Content-Type with its boundary
+        const headers = options.body instanceof FormData ? { ...options.headers } : {
             ...options.headers,
             'Content-Type': 'application/json',
-            // Send unified auth secret if required and available
-            ...(requiresAuth && authSecret ? { 'x-auth-secret': authSecret } : {}),
         };
 
         for (let i = 0; i < maxRetries; i++) {
             try {
-                const response = await fetch(`${API_BASE_URL}${endpoint}`, { ...options, headers });
+                const response = await fetch(`${API_BASE_URL}${endpoint}`, { ...options, headers, credentials: 'same-origin' });
                 
-                if (response.status === 403 && requiresAuth) {
-                    throw new Error('Authorization Failed (403): Invalid secret or insufficient privileges.');
+                if ((response.status === 401 || response.status === 403) && requiresAuth) {
+                    throw new ClientRequestError(`Authorization Failed (${response.status}): Session expired or insufficient privileges.`);
                 }
                 
                 if (!response.ok) {
                     const errorBody = await response.json().catch(() => ({ error: 'Unknown server error' }));
-                    throw new Error(errorBody.error || `HTTP error! Status: ${response.status}`);
+                    const message = errorBody.error || `HTTP error! Status: ${response.status}`;
+                    throw response.status < 500 ? new ClientRequestError(message, errorBody.fields, response.status, errorBody) : new Error(message);
                 }
                 
                 // Handle 204 No Content response for DELETE/PATCH
@@ -94,18 +315,382 @@ const useApiFetcher = (authSecret: string | null) => {
                 return response.json();
 
             } catch (error: any) {
-                if (i === maxRetries - 1) {
+                if (i === maxRetries - 1 || error instanceof ClientRequestError) {
                     throw error; 
                 }
+                if (!navigator.onLine) {
+                    throw new OfflineError('You are offline. This will work again once you reconnect.');
+                }
                 const delay = Math.pow(2, i) * 1000;
                 await new Promise(resolve => setTimeout(resolve, delay));
             }
         }
-    }, [authSecret]);
+    }, []);
     
     return safeFetch;
 };
 
+// Fetches schedule warnings for the given days; re-runs whenever the itinerary changes
+const useScheduleWarnings = (tripId: string | null, days: number[], itinerary: TripPlace[]) => {
+    const safeFetch = useApiFetcher();
+    const [warningsByDay, setWarningsByDay] = useState<Record<number, ScheduleWarning[]>>({});
+    const daysKey = days.join(',');
+
+    useEffect(() => {
+        if (!tripId || days.length === 0) {
+            setWarningsByDay({});
+            return;
+        }
+
+        let cancelled = false;
+        Promise.all(days.map(day =>
+            safeFetch(`/itinerary/validate?tripId=${tripId}&day=${day}`, { method: 'GET' })
+                .then((data: { warnings: ScheduleWarning[] }) => [day, data.warnings] as const)
+                .catch(() => [day, []] as const)
+        )).then(results => {
+            if (!cancelled) setWarningsByDay(Object.fromEntries(results));
+        });
+
+        return () => { cancelled = true; };
+        // daysKey stands in for the days array so a new array with the same days does not refetch
+    }, [safeFetch, tripId, daysKey, itinerary]);
+
+    return warningsByDay;
+};
+
+// Drag-and-drop reordering of places. Dropping a place before another one (or onto a day)
+// sends that day's new order to PATCH /api/itinerary/reorder, which also re-times the moved place.
+const usePlaceReorder = (tripId: string | null, itinerary: TripPlace[], onReordered: () => void) => {
+    const safeFetch = useApiFetcher();
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null); // A place ID or `day-N`
+    const [shiftStartTimes, setShiftStartTimes] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const endDrag = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    const dropOn = async (day: number, beforePlaceId: string | null) => {
+        const movedPlaceId = draggedId;
+        endDrag();
+        if (!tripId || !movedPlaceId || movedPlaceId === beforePlaceId) return;
+
+        const placeIds = itinerary
+            .filter(place => place.day === day && place.id !== movedPlaceId)
+            .sort(compareByStartTime)
+            .map(place => place.id);
+        const index = beforePlaceId ? placeIds.indexOf(beforePlaceId) : -1;
+        placeIds.splice(index === -1 ? placeIds.length : index, 0, movedPlaceId);
+
+        try {
+            setError(null);
+            await safeFetch(`/itinerary/reorder?tripId=${tripId}`, {
+                method: 'PATCH',
+                body: JSON.stringify({ day, placeIds, movedPlaceId, shiftStartTimes }),
+            }, true);
+            onReordered();
+        } catch (err: any) {
+            setError(`Failed to move the place: ${err.message}`);
+        }
+    };
+
+    // Spread onto a place card: it can be dragged, and other places can be dropped before it
+    const placeProps = (place: TripPlace) => ({
+        draggable: true,
+        onDragStart: (event: React.DragEvent) => {
+            event.dataTransfer.effectAllowed = 'move';
+            event.dataTransfer.setData('text/plain', place.id);
+            setDraggedId(place.id);
+        },
+        onDragEnd: endDrag,
+        onDragOver: (event: React.DragEvent) => {
+            if (!draggedId) return;
+            event.preventDefault();
+            event.stopPropagation();
+            setDropTarget(place.id);
+        },
+        onDrop: (event: React.DragEvent) => {
+            event.preventDefault();
+            event.stopPropagation();
+            dropOn(place.day, place.id);
+        },
+    });
+
+    // Spread onto a day's container: dropping there moves the place to the end of the day
+    const dayProps = (day: number) => ({
+        onDragOver: (event: React.DragEvent) => {
+            if (!draggedId) return;
+            event.preventDefault();
+            setDropTarget(`day-${day}`);
+        },
+        onDrop: (event: React.DragEvent) => {
+            event.preventDefault();
+            dropOn(day, null);
+        },
+    });
+
+    return { draggedId, dropTarget, shiftStartTimes, setShiftStartTimes, error, placeProps, dayProps };
+};
+
+type PlaceReorder = ReturnType<typeof usePlaceReorder>;
+
+// Whether the server turned a queued suggestion down for good. Sign-in failures carry
+// no status, and request timeouts or rate limits clear up by themselves.
+const isRejection = (error: unknown): error is ClientRequestError =>
+    error instanceof ClientRequestError && error.status !== undefined && error.status !== 408 && error.status !== 429;
+
+// Tracks the connection and replays suggestions queued offline (see offline_outbox.ts)
+// when the page loads, after signing in and whenever the device comes back online.
+const useSuggestionOutbox = (role: Role) => {
+    const safeFetch = useApiFetcher();
+    const [online, setOnline] = useState(true);
+    const [queuedCount, setQueuedCount] = useState(0);
+    const [rejected, setRejected] = useState<string[]>([]);     // Why dropped suggestions were not sent
+    const replaying = useRef(false);
+
+    const refreshQueue = useCallback(() => {
+        getQueuedSuggestions()
+            .then(entries => setQueuedCount(entries.length))
+            .catch((error: any) => console.error(`Failed to read the suggestion outbox: ${error.message}`));
+    }, []);
+
+    const replay = useCallback(async () => {
+        if (replaying.current || !navigator.onLine) return;
+        replaying.current = true;
+
+        try {
+            for (const entry of await getQueuedSuggestions()) {
+                try {
+                    await safeFetch(`/trips/${entry.tripId}/suggestions`, {
+                        method: 'POST',
+                        body: JSON.stringify(entry.suggestion),
+                    }, true);
+                } catch (error: any) {
+                    // A 4xx such as a validation error or a deleted trip will never pass, so the entry
+                    // is dropped and the user told why. Anything else (offline again, signed out,
+                    // rate limited, server error) waits for the next attempt.
+                    if (!isRejection(error)) break;
+                    console.error(`Dropped a queued suggestion the server rejected: ${error.message}`);
+                    setRejected(prev => [...prev, `"${entry.suggestion.title}" was not sent: ${error.message}`]);
+                }
+                await removeQueuedSuggestion(entry.id);
+            }
+        } catch (error: any) {
+            console.error(`Failed to replay the suggestion outbox: ${error.message}`);
+        } finally {
+            replaying.current = false;
+            refreshQueue();
+        }
+    }, [safeFetch, refreshQueue]);
+
+    useEffect(() => {
+        const updateStatus = () => {
+            setOnline(navigator.onLine);
+            if (navigator.onLine) replay();
+        };
+
+        updateStatus();
+        window.addEventListener('online', updateStatus);
+        window.addEventListener('offline', updateStatus);
+        return () => {
+            window.removeEventListener('online', updateStatus);
+            window.removeEventListener('offline', updateStatus);
+        };
+    }, [replay]);
+
+    // Sending needs a session, so a queue left from a signed-out visit goes out after signing in
+    useEffect(() => {
+        if (role !== 'guest') replay();
+    }, [role, replay]);
+
+    const dismissRejected = useCallback(() => setRejected([]), []);
+
+    return { online, queuedCount, refreshQueue, rejected, dismissRejected };
+};
+
+// Subscribes to the server-sent change stream of a trip. EventSource reconnects by itself;
+// the role is a dependency because the server decides per connection which events to send.
+const useLiveUpdates = (tripId: string | null, role: Role, onEvent: (event: LiveEvent) => void) => {
+    // Keep the latest callback without reconnecting on every render
+    const onEventRef = useRef(onEvent);
+    useEffect(() => {
+        onEventRef.current = onEvent;
+    }, [onEvent]);
+
+    useEffect(() => {
+        if (!tripId || typeof EventSource === 'undefined') return;
+
+        const source = new EventSource(`${API_BASE_URL}/events?tripId=${tripId}`);
+        source.onmessage = (message) => {
+            try {
+                onEventRef.current(JSON.parse(message.data));
+            } catch (error) {
+                console.error('Ignoring malformed live event:', error);
+            }
+        };
+
+        return () => source.close();
+    }, [tripId, role]);
+};
+
+// Expenses and budget totals of a trip. Re-fetches when the itinerary changes (estimated costs)
+// and when liveVersion is bumped by a live expense event; reload() covers the user's own changes.
+const useBudget = (tripId: string | null, itinerary: TripPlace[], liveVersion: number) => {
+    const safeFetch = useApiFetcher();
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [summary, setSummary] = useState<BudgetSummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        if (!tripId) {
+            setExpenses([]);
+            setSummary(null);
+            return;
+        }
+
+        let cancelled = false;
+        Promise.all([
+            safeFetch(`/expenses?tripId=${tripId}`, { method: 'GET' }, true),
+            safeFetch(`/expenses/summary?tripId=${tripId}`, { method: 'GET' }, true),
+        ]).then(([expenseData, summaryData]: [Expense[], BudgetSummary]) => {
+            if (cancelled) return;
+            setExpenses(expenseData);
+            setSummary(summaryData);
+            setError(null);
+        }).catch((err: any) => {
+            if (!cancelled) setError(`Failed to load the budget: ${err.message}`);
+        });
+
+        return () => { cancelled = true; };
+    }, [safeFetch, tripId, itinerary, liveVersion, reloadKey]);
+
+    const reload = useCallback(() => setReloadKey(prev => prev + 1), []);
+
+    return { expenses, summary, error, reload };
+};
+
+type Budget = ReturnType<typeof useBudget>;
+
+// The checklist of a trip; liveVersion is bumped by live checklist events, reload() covers own changes
+const useChecklist = (tripId: string | null, liveVersion: number) => {
+    const safeFetch = useApiFetcher();
+    const [items, setItems] = useState<ChecklistItem[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        if (!tripId) {
+            setItems([]);
+            return;
+        }
+
+        let cancelled = false;
+        safeFetch(`/checklist?tripId=${tripId}`, { method: 'GET' }, true)
+            .then((data: ChecklistItem[]) => {
+                if (cancelled) return;
+                setItems(data);
+                setError(null);
+            })
+            .catch((err: any) => {
+                if (!cancelled) setError(`Failed to load the checklist: ${err.message}`);
+            });
+
+        return () => { cancelled = true; };
+    }, [safeFetch, tripId, liveVersion, reloadKey]);
+
+    const reload = useCallback(() => setReloadKey(prev => prev + 1), []);
+
+    return { items, error, reload, setItems };
+};
+
+type Checklist = ReturnType<typeof useChecklist>;
+
+// Due dates are stored at midnight UTC, so they are shown and compared as plain dates
+const formatDueDate = (dueDate: string): string =>
+    new Date(dueDate).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+
+const isOverdue = (item: ChecklistItem): boolean =>
+    !item.done && !!item.dueDate && item.dueDate.slice(0, 10) < new Date().toISOString().slice(0, 10);
+
+// Loads the bookings of a trip along with the ones whose cancellation deadline is still ahead.
+// Pass a null tripId to skip fetching, e.g. for guests.
+const useBookings = (tripId: string | null, liveVersion: number) => {
+    const safeFetch = useApiFetcher();
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [deadlines, setDeadlines] = useState<Booking[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        if (!tripId) {
+            setBookings([]);
+            setDeadlines([]);
+            return;
+        }
+
+        let cancelled = false;
+        Promise.all([
+            safeFetch(`/bookings?tripId=${tripId}`, { method: 'GET' }, true),
+            safeFetch(`/bookings/deadlines?tripId=${tripId}`, { method: 'GET' }, true),
+        ])
+            .then(([bookingData, deadlineData]: [Booking[], Booking[]]) => {
+                if (cancelled) return;
+                setBookings(bookingData);
+                setDeadlines(deadlineData);
+                setError(null);
+            })
+            .catch((err: any) => {
+                if (!cancelled) setError(`Failed to load bookings: ${err.message}`);
+            });
+
+        return () => { cancelled = true; };
+    }, [safeFetch, tripId, liveVersion, reloadKey]);
+
+    const reload = useCallback(() => setReloadKey(prev => prev + 1), []);
+
+    return { bookings, deadlines, error, reload };
+};
+
+type Bookings = ReturnType<typeof useBookings>;
+
+// Booking times are trip-local, so they are formatted as stored rather than in the viewer's zone
+const formatBookingTime = (time: string): string =>
+    new Date(time).toLocaleString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// "2025-11-01T15:00:00.000Z" → "2025-11-01T15:00", the <input type="datetime-local"> format
+const toDateTimeInput = (time: string | null): string => time ? time.slice(0, 16) : '';
+
+// Formats an amount in its own currency; unknown codes fall back to "12.50 XYZ"
+const formatMoney = (amount: number, currency: string): string => {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
+
+// Totals in several currencies are listed side by side rather than converted
+const formatTotals = (totals: CurrencyTotals): string => {
+    const parts = Object.entries(totals).map(([currency, amount]) => formatMoney(amount, currency));
+    return parts.length > 0 ? parts.join(' + ') : '—';
+};
+
+// A home currency total, flagging currencies it had to leave out for lack of a rate
+const formatConverted = (total: ConvertedTotal): string =>
+    `≈ ${formatMoney(total.amount, total.currency)}${total.missing.length > 0 ? ` (no rate for ${total.missing.join(', ')})` : ''}`;
+
+// Converts one amount with the rates of a budget summary; null without rates or a matching rate
+const formatConvertedAmount = (summary: BudgetSummary | null, amount: number, currency: string): string | null => {
+    const converted = summary?.converted;
+    if (!converted || currency === converted.currency) return null;
+
+    const value = convertAmount(amount, currency, { homeCurrency: converted.currency, rates: converted.rates });
+    return value === null ? null : `≈ ${formatMoney(value, converted.currency)}`;
+};
+
 const openMap = (lat: number, lon: number) => {
     if (typeof window !== 'undefined') {
         const mapUrl = `https://www.google.com/maps/search/?api=1&query=${lat},${lon}`;
@@ -113,6 +698,32 @@ const openMap = (lat: number, lon: number) => {
     }
 };
 
+// Mirrors the server default: the next trip that has not ended yet, otherwise the most recent one
+const pickDefaultTrip = (trips: Trip[]): Trip | null => {
+    const now = Date.now();
+    const upcoming = trips
+        .filter(trip => new Date(trip.endDate).getTime() >= now)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+    if (upcoming.length > 0) return upcoming[0];
+
+    const past = [...trips].sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
+    return past[0] || null;
+};
+
+// Calendar feed of a trip, optionally a single day. Subscriptions use webcal:// so phones
+// open their calendar app instead of downloading the file once.
+const getCalendarFeedUrl = (tripId: string, options: { day?: number, subscribe?: boolean } = {}): string => {
+    const path = `${API_BASE_URL}/trips/${tripId}/itinerary.ics${options.day ? `?day=${options.day}` : ''}`;
+    if (!options.subscribe || typeof window === 'undefined') return path;
+    return `webcal://${window.location.host}${path}`;
+};
+
+const getStatusBadgeClass = (status: SuggestionStatus): string => {
+    if (status === SuggestionStatus.PENDING) return 'bg-yellow-100 text-yellow-800';
+    if (status === SuggestionStatus.APPROVED) return 'bg-green-100 text-green-800';
+    return 'bg-red-100 text-red-800';
+};
+
 const getPurposeColor = (purpose: string): string => {
     const p = purpose.toLowerCase();
     if (p.includes('food') || p.includes('dinner') || p.includes('cafe')) return 'border-[#e3a1e9] text-[#e3a1e9]'; // Kuromi Pink
@@ -129,6 +740,54 @@ interface MessageDialogProps {
     onCancel: () => void;
 }
 
+// Inline message under a form input, fed by schema validation
+const FieldError: React.FC<{ message?: string }> = ({ message }) => (
+    message ? <p className="text-xs font-semibold text-red-600 mt-1">{message}</p> : null
+);
+
+interface UndoToastProps {
+    message: string;
+    onUndo: () => void;
+    onDismiss: () => void;
+    durationMs?: number;
+}
+
+// Bottom toast offering to reverse the last action; dismisses itself after a few seconds
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+    useEffect(() => {
+        const timer = setTimeout(onDismiss, durationMs);
+        return () => clearTimeout(timer);
+    }, [message, onDismiss, durationMs]);
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 px-4 py-3 rounded-xl shadow-2xl bg-[#2a2a2a] text-white text-sm">
+            <span>{message}</span>
+            <button onClick={onUndo} className="flex items-center font-bold text-[#e3a1e9] hover:text-white transition">
+                <RotateCcw className="w-4 h-4 mr-1" /> Undo
+            </button>
+        </div>
+    );
+};
+
+// Hint, "shift later stops" toggle and last error for a drag-and-drop list
+const ReorderControls: React.FC<{ reorder: PlaceReorder }> = ({ reorder }) => (
+    <div className="text-xs text-gray-500 space-y-1">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="flex items-center"><GripVertical className="w-4 h-4 mr-1" /> Drag places to reorder them or move them to another day.</span>
+            <label className="flex items-center font-semibold text-gray-600">
+                <input
+                    type="checkbox"
+                    checked={reorder.shiftStartTimes}
+                    onChange={(e) => reorder.setShiftStartTimes(e.target.checked)}
+                    className="mr-1 accent-[#6a329f]"
+                />
+                Shift later stops by the moved stop's duration
+            </label>
+        </div>
+        {reorder.error && <p className="text-red-600 font-medium">{reorder.error}</p>}
+    </div>
+);
+
 // Custom Modal/Dialog replacement for alert/confirm
 const MessageDialog: React.FC<MessageDialogProps> = ({ message, onConfirm, onCancel }) => (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -153,69 +812,391 @@ const MessageDialog: React.FC<MessageDialogProps> = ({ message, onConfirm, onCan
     </div>
 );
 
+// Inline list of schedule problems for a day
+const ScheduleWarningList: React.FC<{ warnings: ScheduleWarning[], title?: string }> = ({ warnings, title }) => {
+    if (warnings.length === 0) return null;
 
-interface ItineraryListProps {
-    places: TripPlace[];
-    loading: boolean;
-    error: string | null;
-    currentDay: number;
-    // For admin/trusted view, allow edit/delete actions if role is admin
-    role: Role; 
-    setEditingPlace?: (place: TripPlace | null) => void;
-    onDelete?: (id: string) => void;
+    return (
+        <div className="mb-4 p-3 rounded-xl bg-yellow-50 border border-yellow-300 space-y-1">
+            <p className="text-sm font-bold text-yellow-800 flex items-center">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                {title || 'Schedule check'}
+            </p>
+            {warnings.map((warning, i) => (
+                <p key={i} className="text-xs text-yellow-800">
+                    {warning.type === 'overlap' ? 'Overlap: ' : 'Tight transfer: '}{warning.message}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+interface DayRouteMapProps {
+    places: TripPlace[];              // Already filtered to one day and sorted chronologically
+    highlightedPlaceId: string | null;
 }
 
-const ItineraryList: React.FC<ItineraryListProps> = ({ places, loading, error, currentDay, role, setEditingPlace, onDelete }) => {
-    const isAdmin = role === 'admin';
-    
-    if (loading) {
-        return (
-            <div className="text-center py-10">
-                <Loader2 className="w-8 h-8 mx-auto animate-spin text-[#6a329f]" />
-                <p className="text-gray-500 mt-2">Fetching the itinerary...</p>
-            </div>
-        );
-    }
+const MARKER_STYLE = { radius: 8, color: '#6a329f', weight: 2, fillColor: '#e3a1e9', fillOpacity: 0.9 };
+const HIGHLIGHTED_MARKER_STYLE = { radius: 12, color: '#2a2a2a', weight: 3, fillColor: '#6a329f', fillOpacity: 1 };
 
-    if (error) {
-        return (
-            <div className="text-center text-red-500 py-10 font-medium">
-                <p>{error}</p>
-            </div>
-        );
-    }
+// Embedded map plotting the day's stops in time order, joined by a polyline
+const DayRouteMap: React.FC<DayRouteMapProps> = ({ places, highlightedPlaceId }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<Leaflet.Map | null>(null);
+    const routeLayerRef = useRef<Leaflet.LayerGroup | null>(null);
+    const markersRef = useRef<Map<string, Leaflet.CircleMarker>>(new Map());
+    const [leaflet, setLeaflet] = useState<typeof Leaflet | null>(null);
 
-    const filteredPlaces = places
-        .filter(place => place.day === currentDay)
-        .sort((a, b) => a.time.localeCompare(b.time));
+    // Leaflet touches `window` when imported, so load it on the client only
+    useEffect(() => {
+        import('leaflet').then(module => setLeaflet(module.default || module));
+    }, []);
 
-    if (filteredPlaces.length === 0) {
-        return (
-            <div className="text-center py-8 text-gray-500">
-                <MapPin className="w-8 h-8 mx-auto text-[#e3a1e9]" />
-                <p className="mt-2">No plans made yet for Day {currentDay}.</p>
-            </div>
-        );
-    }
+    useEffect(() => {
+        if (!leaflet || !containerRef.current) return;
 
-    return (
-        <div className="space-y-3">
-            {filteredPlaces.map(place => (
-                <div 
-                    key={place.id} 
-                    className="bg-white p-4 border-l-4 rounded-xl shadow-md transition hover:shadow-lg"
-                    style={{ borderLeftColor: getPurposeColor(place.purpose).split(' ')[0].replace('border-', '') }}
-                >
-                    <div className="flex justify-between items-start">
-                        <h3 className="font-bold text-lg text-[#2a2a2a]">{place.name}</h3>
-                        <span className="text-sm font-semibold text-gray-600 bg-gray-100 px-2 py-1 rounded-full">{place.time}</span>
-                    </div>
-                    <p className="text-sm text-gray-500 mt-1">{place.purpose}</p>
-                    {place.notes && (
-                        <p className="text-xs text-gray-700 mt-2 italic bg-gray-50 p-2 rounded-lg">
-                            {place.notes}
-                        </p>
-                    )}
+        const map = leaflet.map(containerRef.current, { scrollWheelZoom: false });
+        leaflet.tileLayer(MAP_TILE_URL, { attribution: MAP_TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+        routeLayerRef.current = leaflet.layerGroup().addTo(map);
+        mapRef.current = map;
+
+        return () => {
+            map.remove();
+            mapRef.current = null;
+            routeLayerRef.current = null;
+        };
+    }, [leaflet]);
+
+    // Redraw pins and the route whenever the day's places change
+    useEffect(() => {
+        const map = mapRef.current;
+        const routeLayer = routeLayerRef.current;
+        if (!leaflet || !map || !routeLayer) return;
+
+        routeLayer.clearLayers();
+        markersRef.current.clear();
+
+        const points = places.map(place => leaflet.latLng(place.latitude, place.longitude));
+
+        if (points.length > 1) {
+            leaflet.polyline(points, { color: '#6a329f', weight: 3, dashArray: '6 6' }).addTo(routeLayer);
+        }
+
+        places.forEach((place, index) => {
+            const marker = leaflet.circleMarker(points[index], MARKER_STYLE)
+                .bindTooltip(`${index + 1}. ${place.name} (${formatPlaceTime(place)})`)
+                .addTo(routeLayer);
+            markersRef.current.set(place.id, marker);
+        });
+
+        if (points.length === 1) {
+            map.setView(points[0], 14);
+        } else if (points.length > 1) {
+            map.fitBounds(leaflet.latLngBounds(points), { padding: [24, 24] });
+        } else {
+            map.setView([0, 0], 1);
+        }
+    }, [leaflet, places]);
+
+    useEffect(() => {
+        markersRef.current.forEach((marker, id) => {
+            if (id === highlightedPlaceId) {
+                marker.setStyle(HIGHLIGHTED_MARKER_STYLE).bringToFront().openTooltip();
+            } else {
+                marker.setStyle(MARKER_STYLE).closeTooltip();
+            }
+        });
+    }, [highlightedPlaceId, places, leaflet]);
+
+    return (
+        <div className="mb-6 rounded-2xl overflow-hidden shadow-md border border-[#e3a1e9]/50">
+            <div className="flex items-center px-4 py-2 bg-[#f7e6f8] text-sm font-bold text-[#6a329f]">
+                <MapIcon className="w-4 h-4 mr-2" /> Route of the day
+            </div>
+            <div ref={containerRef} className="h-72 w-full z-0" />
+        </div>
+    );
+};
+
+interface TripSwitcherProps {
+    trips: Trip[];
+    currentTripId: string | null;
+    onSelectTrip: (tripId: string) => void;
+}
+
+// Dropdown to move between planned trips
+const TripSwitcher: React.FC<TripSwitcherProps> = ({ trips, currentTripId, onSelectTrip }) => {
+    if (trips.length <= 1) return null;
+
+    return (
+        <div className="flex items-center justify-center mb-4">
+            <Plane className="w-4 h-4 mr-2 text-[#6a329f]" />
+            <select
+                value={currentTripId || ''}
+                onChange={(e) => onSelectTrip(e.target.value)}
+                className="p-2 text-sm font-semibold border border-[#e3a1e9] rounded-lg text-[#6a329f] focus:ring-2 focus:ring-[#6a329f]"
+            >
+                {trips.map(trip => (
+                    <option key={trip.id} value={trip.id}>
+                        {trip.title} ({new Date(trip.startDate).toLocaleDateString()})
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+interface AttachmentGalleryProps {
+    placeId: string;
+    liveVersion: number;        // Bumped on live attachment changes
+}
+
+// Photos, ticket screenshots and PDFs of one place. Thumbnails are rendered on the server;
+// tapping one opens the original in a new tab.
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ placeId, liveVersion }) => {
+    const safeFetch = useApiFetcher();
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<Attachment | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const baseUrl = `/itinerary/${placeId}/attachments`;
+
+    useEffect(() => {
+        let cancelled = false;
+        safeFetch(baseUrl, { method: 'GET' }, true)
+            .then((data: Attachment[]) => {
+                if (!cancelled) setAttachments(data);
+            })
+            .catch((err: any) => {
+                if (!cancelled) setError(`Failed to load attachments: ${err.message}`);
+            });
+
+        return () => { cancelled = true; };
+    }, [safeFetch, baseUrl, liveVersion, reloadKey]);
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        // The server checks the same limits; this only saves uploading a file that would be refused
+        const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+        const problem = files.length > MAX_ATTACHMENTS_PER_UPLOAD
+            ? `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at once.`
+            : totalBytes > MAX_UPLOAD_BYTES
+            ? `Upload at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB at once; pick fewer files.`
+            : files.map(file =>
+                file.size > MAX_ATTACHMENT_BYTES ? `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`
+                : !(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type) ? `${file.name} is not a photo or PDF.`
+                : null
+            ).find(Boolean);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+
+        const body = new FormData();
+        files.forEach(file => body.append('file', file));
+
+        setUploading(true);
+        setError(null);
+        try {
+            await safeFetch(baseUrl, { method: 'POST', body }, true);
+            setReloadKey(prev => prev + 1);
+        } catch (err: any) {
+            setError(err.fields?.file || `Upload failed: ${err.message}`);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const confirmDelete = async () => {
+        const attachment = deleteTarget!;
+        setDeleteTarget(null);
+        setError(null);
+
+        try {
+            await safeFetch(`${baseUrl}/${attachment.id}`, { method: 'DELETE' }, true);
+            setAttachments(prev => prev.filter(entry => entry.id !== attachment.id));
+        } catch (err: any) {
+            setError(`Failed to delete ${attachment.fileName}: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="flex flex-wrap items-center gap-2">
+                {attachments.map(attachment => (
+                    <div key={attachment.id} className="relative group">
+                        <a
+                            href={`${API_BASE_URL}${baseUrl}/${attachment.id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title={attachment.fileName}
+                            className="block w-16 h-16 rounded-lg overflow-hidden border border-[#e3a1e9]/50 bg-gray-50"
+                        >
+                            {attachment.thumbnailKey ? (
+                                <img
+                                    src={`${API_BASE_URL}${baseUrl}/${attachment.id}?size=thumbnail`}
+                                    alt={attachment.fileName}
+                                    loading="lazy"
+                                    className="w-full h-full object-cover"
+                                />
+                            ) : (
+                                <span className="w-full h-full flex flex-col items-center justify-center text-[10px] text-gray-500 p-1">
+                                    <FileText className="w-6 h-6 text-[#6a329f]" />
+                                    <span className="w-full truncate text-center">{attachment.fileName}</span>
+                                </span>
+                            )}
+                        </a>
+                        <button
+                            onClick={() => setDeleteTarget(attachment)}
+                            title="Delete attachment"
+                            className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center w-5 h-5 rounded-full bg-white shadow text-red-500 hover:bg-red-50"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                    className="flex items-center text-xs font-semibold px-2 py-1 rounded-md transition text-[#6a329f] hover:bg-[#f7e6f8]"
+                >
+                    {uploading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <ImagePlus className="w-4 h-4 mr-1" />}
+                    {uploading ? 'Uploading...' : 'Add photos'}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_MIME_TYPES.join(',')}
+                    onChange={handleFiles}
+                    className="hidden"
+                />
+            </div>
+            {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+
+            {deleteTarget && (
+                <MessageDialog
+                    message={`Delete ${deleteTarget.fileName}? This cannot be undone.`}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setDeleteTarget(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// "Booked" pill on a place card; the details are in the tooltip so the card stays compact
+const BookingBadge: React.FC<{ bookings: Booking[] }> = ({ bookings }) => {
+    if (bookings.length === 0) return null;
+
+    const details = bookings.map(booking => [
+        booking.provider,
+        booking.confirmationCode && `#${booking.confirmationCode}`,
+        booking.startsAt && formatBookingTime(booking.startsAt),
+    ].filter(Boolean).join(' · ')).join('\n');
+
+    return (
+        <span title={details} className="ml-2 inline-flex items-center text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-700">
+            <Ticket className="w-3 h-3 mr-1" /> Booked{bookings.length > 1 ? ` ×${bookings.length}` : ''}
+        </span>
+    );
+};
+
+interface ItineraryListProps {
+    places: TripPlace[];
+    loading: boolean;
+    error: string | null;
+    currentDay: number;
+    // For admin/trusted view, allow edit/delete actions if role is admin
+    role: Role; 
+    setEditingPlace?: (place: TripPlace | null) => void;
+    onDelete?: (id: string) => void;
+    warnings?: ScheduleWarning[];
+    // Lets the map highlight the pin of the card under the pointer
+    onHoverPlace?: (id: string | null) => void;
+    // Admin only: makes the cards draggable to reorder the day
+    reorder?: PlaceReorder;
+    // Travellers only: reservations shown as a badge on their place's card
+    bookings?: Booking[];
+    // Travellers only: photo and file gallery on each card, refreshed on live attachment changes
+    showAttachments?: boolean;
+    attachmentsVersion?: number;
+}
+
+const ItineraryList: React.FC<ItineraryListProps> = ({ places, loading, error, currentDay, role, setEditingPlace, onDelete, warnings = [], onHoverPlace, reorder, bookings = [], showAttachments = false, attachmentsVersion = 0 }) => {
+    const isAdmin = role === 'admin';
+    const canReorder = isAdmin && !!reorder;
+    const flaggedIds = new Set(warnings.flatMap(warning => warning.placeIds));
+    
+    if (loading) {
+        return (
+            <div className="text-center py-10">
+                <Loader2 className="w-8 h-8 mx-auto animate-spin text-[#6a329f]" />
+                <p className="text-gray-500 mt-2">Fetching the itinerary...</p>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="text-center text-red-500 py-10 font-medium">
+                <p>{error}</p>
+            </div>
+        );
+    }
+
+    const filteredPlaces = places
+        .filter(place => place.day === currentDay)
+        .sort(compareByStartTime);
+
+    if (filteredPlaces.length === 0) {
+        return (
+            <div className="text-center py-8 text-gray-500">
+                <MapPin className="w-8 h-8 mx-auto text-[#e3a1e9]" />
+                <p className="mt-2">No plans made yet for Day {currentDay}.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3" {...(canReorder ? reorder.dayProps(currentDay) : {})}>
+            <ScheduleWarningList warnings={warnings} title={`Day ${currentDay} schedule check`} />
+            {canReorder && <ReorderControls reorder={reorder} />}
+            {filteredPlaces.map(place => (
+                <div 
+                    key={place.id} 
+                    {...(canReorder ? reorder.placeProps(place) : {})}
+                    className={`bg-white p-4 border-l-4 rounded-xl shadow-md transition hover:shadow-lg ${canReorder ? 'cursor-move' : ''} ${canReorder && reorder.draggedId === place.id ? 'opacity-50' : ''} ${canReorder && reorder.dropTarget === place.id ? 'ring-2 ring-[#6a329f]' : ''}`}
+                    style={{ borderLeftColor: getPurposeColor(place.purpose).split(' ')[0].replace('border-', '') }}
+                    onMouseEnter={() => onHoverPlace?.(place.id)}
+                    onMouseLeave={() => onHoverPlace?.(null)}
+                >
+                    <div className="flex justify-between items-start">
+                        <h3 className="font-bold text-lg text-[#2a2a2a] flex items-center">
+                            {place.name}
+                            {flaggedIds.has(place.id) && <AlertTriangle className="w-4 h-4 ml-2 text-yellow-600" />}
+                            <BookingBadge bookings={bookings.filter(booking => booking.placeId === place.id)} />
+                        </h3>
+                        <span className="text-sm font-semibold text-gray-600 bg-gray-100 px-2 py-1 rounded-full">{formatPlaceTime(place)}</span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {place.purpose}
+                        {typeof place.estimatedCost === 'number' && place.currency && (
+                            <span className="ml-2 text-xs font-semibold text-[#6a329f]">≈ {formatMoney(place.estimatedCost, place.currency)}</span>
+                        )}
+                    </p>
+                    {place.notes && (
+                        <p className="text-xs text-gray-700 mt-2 italic bg-gray-50 p-2 rounded-lg">
+                            {place.notes}
+                        </p>
+                    )}
+                    {showAttachments && <AttachmentGallery placeId={place.id} liveVersion={attachmentsVersion} />}
                     <div className={`mt-2 flex items-center ${isAdmin ? 'justify-between' : 'justify-end'}`}>
                         <button className="text-xs font-semibold px-2 py-1 rounded-md transition text-[#6a329f] hover:bg-[#f7e6f8]" 
                             onClick={() => openMap(place.latitude, place.longitude)}>
@@ -247,456 +1228,2745 @@ const ItineraryList: React.FC<ItineraryListProps> = ({ places, loading, error, c
     );
 };
 
-// --- 4. Login Screen Component ---
+interface RateTableFormProps {
+    trip: Trip;
+    currencies: string[];       // Currencies used by costs and expenses, offered as rows
+    onSaved: () => void;
+}
 
-const LoginScreen: React.FC<{ setRole: (role: Role, secret: string) => void }> = ({ setRole }) => {
-    const [secret, setSecret] = useState('');
-    const [message, setMessage] = useState<{ text: string, color: string } | null>(null);
+// Admin only: the hand-maintained exchange rate table. Each save stores a new snapshot;
+// the budget always converts with the latest one.
+const RateTableForm: React.FC<RateTableFormProps> = ({ trip, currencies, onSaved }) => {
+    const safeFetch = useApiFetcher();
+    const [current, setCurrent] = useState<RateSnapshot | null>(null);
+    const [homeCurrency, setHomeCurrency] = useState('');
+    const [rows, setRows] = useState<{ code: string, rate: string }[]>([]);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
     const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    useEffect(() => {
+        safeFetch(`/rates?tripId=${trip.id}`, { method: 'GET' }, true)
+            .then((data: RateSnapshot[]) => {
+                const latest = data[0] || null;
+                setCurrent(latest);
+                setHomeCurrency(latest ? latest.homeCurrency : '');
+                setRows(latest ? Object.entries(latest.rates).map(([code, rate]) => ({ code, rate: String(rate) })) : []);
+            })
+            .catch((err: any) => setMessage(`Failed to load exchange rates: ${err.message}`));
+    }, [safeFetch, trip.id]);
+
+    // Currencies in use without a row yet, so a missing rate is one click away
+    const missingCodes = currencies.filter(code => code !== homeCurrency && !rows.some(row => row.code === code));
+
+    const updateRow = (index: number, change: Partial<{ code: string, rate: string }>) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...change } : row));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+
+        const rates = Object.fromEntries(rows
+            .filter(row => row.code.trim())
+            .map(row => [row.code.trim().toUpperCase(), row.rate.trim() ? Number(row.rate) : null]));
+        const validation = validateRateTableInput({ homeCurrency, rates });
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
         setLoading(true);
         setMessage(null);
-        
-        // Client-side simulation of secret check
-        setTimeout(() => {
-            if (secret === ADMIN_SECRET) {
-                setRole('admin', secret);
-                setMessage({ text: 'Welcome，Kuromi Boss 😎😎', color: 'text-green-600' });
-            } else if (secret === TRUSTED_SECRET) {
-                setRole('trusted', secret);
-                setMessage({ text: 'babyyyy～想死你啦 ❤️❤️', color: 'text-[#e3a1e9]' });
-            } else {
-                setMessage({ text: '暗号输入错误，请用爱重新登录～🥺🥺💔', color: 'text-red-500' });
-            }
+
+        try {
+            const snapshot: RateSnapshot = await safeFetch(`/rates?tripId=${trip.id}`, {
+                method: 'POST',
+                body: JSON.stringify(validation.data),
+            }, true);
+
+            setCurrent(snapshot);
+            setMessage('Exchange rates saved.');
+            onSaved();
+        } catch (error: any) {
+            setFieldErrors(error.fields || {});
+            setMessage(`Failed to save exchange rates: ${error.message}`);
+        } finally {
             setLoading(false);
-        }, 500);
+        }
     };
 
     return (
-        <div className="min-h-screen flex items-center justify-center bg-[#f7e6f8] p-4">
-            <div className="p-8 bg-white rounded-3xl shadow-2xl w-full max-w-sm mx-auto text-center border-4 border-[#e3a1e9]">
-                <div className="mb-6">
-                    <img 
-                        src="/kuromi-avatar-login-2.png" 
-                        alt="Kuromi Avatar" 
-                        className="w-40 h-auto mx-auto drop-shadow-lg" 
-                    />
-                    <p className="text-xl font-extrabold text-[#6a329f] mt-2">四天三夜 与你共度每一瞬间💞</p>
+        <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50 text-sm">
+            <h4 className="font-bold text-[#6a329f]">Exchange Rates</h4>
+            <p className="text-xs text-gray-500">
+                {current ? `Last saved ${new Date(current.createdAt).toLocaleString()}.` : 'No rates saved yet.'} Enter how much one unit of each currency is worth in your home currency.
+            </p>
+
+            <label className="flex items-center gap-2">
+                <span className="font-semibold text-gray-700">Home currency</span>
+                <input type="text" value={homeCurrency} onChange={(e) => setHomeCurrency(e.target.value.toUpperCase())} placeholder="AUD" required maxLength={3}
+                        className="w-20 p-2 border rounded-lg uppercase focus:ring-2 focus:ring-[#e3a1e9]" />
+            </label>
+            <FieldError message={fieldErrors.homeCurrency} />
+
+            {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <span className="text-gray-500">1</span>
+                    <input type="text" value={row.code} onChange={(e) => updateRow(index, { code: e.target.value.toUpperCase() })} placeholder="CNY" maxLength={3}
+                            className="w-20 p-2 border rounded-lg uppercase focus:ring-2 focus:ring-[#e3a1e9]" />
+                    <span className="text-gray-500">=</span>
+                    <input type="number" value={row.rate} onChange={(e) => updateRow(index, { rate: e.target.value })} placeholder="0.21" step="any" min="0"
+                            className="flex-grow p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                    <span className="text-gray-500 w-10">{homeCurrency}</span>
+                    <button type="button" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} className="p-1 rounded-full text-red-500 hover:bg-red-50 transition">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
                 </div>
+            ))}
+            <FieldError message={fieldErrors.rates} />
 
-                <form onSubmit={handleSubmit} className="space-y-4">
-                    <input
-                        type="password"
-                        value={secret}
-                        onChange={(e) => setSecret(e.target.value)}
-                        placeholder="输入我们之间的暗号"
-                        required
-                        className="w-full p-3 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition text-center font-mono"
-                        disabled={loading}
-                    />
-                    <button
-                        type="submit"
-                        className={`w-full font-bold py-3 rounded-lg shadow-md transition transform ${loading ? 'bg-gray-400' : 'bg-[#6a329f] text-white hover:bg-[#8e45b5] hover:scale-[1.01]'}`}
-                        disabled={loading}
-                    >
-                        {loading ? '检查中 🔍 ' : ' 登入 💌 '}
+            <div className="flex flex-wrap gap-2">
+                {missingCodes.map(code => (
+                    <button key={code} type="button" onClick={() => setRows(prev => [...prev, { code, rate: '' }])}
+                            className="text-xs font-semibold px-2 py-1 rounded-md bg-yellow-100 text-yellow-800 hover:bg-yellow-200 transition">
+                        + {code} (used, no rate)
+                    </button>
+                ))}
+                {rows.length < MAX_RATE_CURRENCIES && (
+                    <button type="button" onClick={() => setRows(prev => [...prev, { code: '', rate: '' }])}
+                            className="text-xs font-semibold px-2 py-1 rounded-md text-[#6a329f] hover:bg-[#f7e6f8] transition">
+                        + Add currency
+                    </button>
+                )}
+            </div>
+
+            <button
+                type="submit"
+                className={`w-full font-bold py-2 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#6a329f] text-white hover:bg-[#8e45b5]'}`}
+                disabled={loading}
+            >
+                {loading ? 'Saving...' : 'Save Rates'}
+            </button>
+
+            {message && <p className={`text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </form>
+    );
+};
+
+// The editable part of an Expense; '' stands for "no place" in the place picker
+type ExpenseFormData = Omit<Expense, 'id' | 'tripId' | 'placeId' | 'amount' | 'createdAt'> & { placeId: string, amount: number | null };
+
+interface ExpenseFormProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    role: Role;
+    defaultCurrency: string;
+    editingExpense: Expense | null;
+    onSaved: () => void;
+    onCancelEdit: () => void;
+}
+
+// Adds or edits an expense. Linking a place books the expense on that place's day.
+const ExpenseForm: React.FC<ExpenseFormProps> = ({ trip, itinerary, role, defaultCurrency, editingExpense, onSaved, onCancelEdit }) => {
+    const safeFetch = useApiFetcher();
+    const emptyForm = (): ExpenseFormData => ({
+        placeId: '',
+        day: null,
+        payer: role === 'trusted' ? 'trusted' : 'admin',
+        amount: null,
+        currency: defaultCurrency,
+        category: 'Other',
+        description: '',
+        shared: true,
+    });
+
+    const [formData, setFormData] = useState<ExpenseFormData>(emptyForm);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const isEditing = !!editingExpense;
+    const dayOptions = Array.from({ length: getTripDayCount(trip) }, (_, i) => i + 1);
+    const placeOptions = useMemo(() => [...itinerary].sort((a, b) => a.day - b.day || compareByStartTime(a, b)), [itinerary]);
+    const linkedPlace = itinerary.find(place => place.id === formData.placeId);
+
+    useEffect(() => {
+        if (editingExpense) {
+            const { id, tripId, createdAt, ...rest } = editingExpense;
+            setFormData({ ...rest, placeId: rest.placeId || '', description: rest.description || '' });
+        } else {
+            setFormData(emptyForm());
+        }
+        setFieldErrors({});
+        // Only switching between adding and editing resets the form, not new default values
+    }, [editingExpense]);
+
+    // Follow the trip's usual currency once the expenses have loaded, unless something was typed
+    useEffect(() => {
+        setFormData(prev => (!isEditing && prev.amount === null ? { ...prev, currency: defaultCurrency } : prev));
+    }, [defaultCurrency, isEditing]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+
+        if (name === 'shared') {
+            setFormData(prev => ({ ...prev, shared: (e.target as HTMLInputElement).checked }));
+        } else if (name === 'amount') {
+            setFormData(prev => ({ ...prev, amount: value ? parseFloat(value) : null }));
+        } else if (name === 'day') {
+            setFormData(prev => ({ ...prev, day: value ? parseInt(value, 10) : null }));
+        } else {
+            setFormData(prev => ({ ...prev, [name]: name === 'currency' ? value.toUpperCase() : value }));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // A linked place decides the day, so the day picker's value is not sent
+        const payload = { ...formData, day: formData.placeId ? null : formData.day };
+        const validation = isEditing ? validateExpenseUpdate(payload) : validateExpenseInput(payload);
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            await safeFetch(isEditing ? `/expenses/${editingExpense!.id}` : `/expenses?tripId=${trip.id}`, {
+                method: isEditing ? 'PUT' : 'POST',
+                body: JSON.stringify(validation.data),
+            }, true);
+
+            setMessage(`Expense ${isEditing ? 'updated' : 'added'}.`);
+            if (isEditing) {
+                onCancelEdit();
+            } else {
+                // Keep payer and currency for the next entry; they rarely change in a row
+                setFormData(prev => ({ ...emptyForm(), payer: prev.payer, currency: prev.currency }));
+            }
+            onSaved();
+        } catch (error: any) {
+            setFieldErrors(error.fields || {});
+            setMessage(`Failed to ${isEditing ? 'update' : 'add'} expense: ${error.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50">
+            <h4 className="font-bold text-[#6a329f] flex items-center">
+                {isEditing ? <Edit className="w-4 h-4 mr-2" /> : <PlusCircle className="w-4 h-4 mr-2" />}
+                {isEditing ? 'Edit Expense' : 'Add Expense'}
+            </h4>
+
+            <div className="grid grid-cols-3 gap-2">
+                <input type="number" name="amount" value={formData.amount ?? ''} onChange={handleChange} placeholder="Amount" required step="0.01" min={EXPENSE_SCHEMA.amount.min} max={EXPENSE_SCHEMA.amount.max}
+                        className="col-span-2 p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="text" name="currency" value={formData.currency} onChange={handleChange} placeholder="CNY" required maxLength={3}
+                        className="p-2 border rounded-lg uppercase focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.amount || fieldErrors.currency} />
+
+            <div className="grid grid-cols-2 gap-2">
+                <select name="payer" value={formData.payer} onChange={handleChange} className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    {(Object.keys(TRAVELLER_LABELS) as Expense['payer'][]).map(payer => (
+                        <option key={payer} value={payer}>Paid by {TRAVELLER_LABELS[payer]}</option>
+                    ))}
+                </select>
+                <select name="category" value={formData.category} onChange={handleChange} className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    {EXPENSE_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                </select>
+            </div>
+            <FieldError message={fieldErrors.payer || fieldErrors.category} />
+
+            <div className="grid grid-cols-2 gap-2">
+                <select name="placeId" value={formData.placeId} onChange={handleChange} className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    <option value="">No place</option>
+                    {placeOptions.map(place => <option key={place.id} value={place.id}>Day {place.day} · {place.name}</option>)}
+                </select>
+                <select name="day" value={linkedPlace ? linkedPlace.day : formData.day ?? ''} onChange={handleChange} disabled={!!formData.placeId}
+                        className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9] disabled:bg-gray-100">
+                    <option value="">No day</option>
+                    {dayOptions.map(d => <option key={d} value={d}>Day {d}</option>)}
+                </select>
+            </div>
+            <FieldError message={fieldErrors.placeId || fieldErrors.day} />
+
+            <input type="text" name="description" value={formData.description || ''} onChange={handleChange} placeholder="Description (optional)" maxLength={EXPENSE_SCHEMA.description.maxLength}
+                    className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.description} />
+
+            <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" name="shared" checked={formData.shared} onChange={handleChange} className="mr-2 accent-[#6a329f]" />
+                Split 50/50 between us
+            </label>
+
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    className={`flex-grow font-bold py-2 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
+                    disabled={loading}
+                >
+                    {loading ? 'Saving...' : (isEditing ? 'Save Expense' : 'Add Expense')}
+                </button>
+                {isEditing && (
+                    <button
+                        type="button"
+                        onClick={onCancelEdit}
+                        className="font-bold py-2 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        disabled={loading}
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            {message && <p className={`text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </form>
+    );
+};
+
+interface BudgetPanelProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    role: Role;
+    budget: Budget;
+}
+
+// Trip totals, per-day totals, who owes whom and the list of expenses with an add/edit form
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ trip, itinerary, role, budget }) => {
+    const safeFetch = useApiFetcher();
+    const { expenses, summary, error, reload } = budget;
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<Expense | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const converted = summary?.converted || null;
+    const placeNames = useMemo(() => new Map(itinerary.map(place => [place.id, place.name])), [itinerary]);
+    const defaultCurrency = expenses.length > 0 ? expenses[expenses.length - 1].currency : DEFAULT_CURRENCY;
+
+    const confirmDelete = async () => {
+        const expense = deleteTarget!;
+        setDeleteTarget(null);
+        setActionError(null);
+
+        try {
+            await safeFetch(`/expenses/${expense.id}`, { method: 'DELETE' }, true);
+            if (editingExpense?.id === expense.id) setEditingExpense(null);
+            reload();
+        } catch (err: any) {
+            setActionError(`Failed to delete expense: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-xl font-bold text-[#6a329f] flex items-center">
+                <Wallet className="w-5 h-5 mr-2" /> Budget
+            </h3>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {actionError && <p className="text-sm text-red-500">{actionError}</p>}
+
+            {summary && (
+                <div className="p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50 space-y-3 text-sm">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <p className="text-xs font-semibold text-gray-500">Estimated</p>
+                            <p className="font-bold text-[#2a2a2a]">{formatTotals(summary.estimated)}</p>
+                            {converted && <p className="text-xs text-gray-500">{formatConverted(converted.estimated)}</p>}
+                        </div>
+                        <div>
+                            <p className="text-xs font-semibold text-gray-500">Spent</p>
+                            <p className="font-bold text-[#2a2a2a]">{formatTotals(summary.actual)}</p>
+                            {converted && <p className="text-xs text-gray-500">{formatConverted(converted.actual)}</p>}
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        {converted
+                            ? `Converted to ${converted.currency} with the rates saved ${new Date(converted.ratesAsOf).toLocaleString()}.`
+                            : 'Save an exchange rate table to see totals in your home currency.'}
+                    </p>
+
+                    {(summary.days.length > 0 || Object.keys(summary.unassigned).length > 0) && (
+                        <table className="w-full text-left text-xs">
+                            <thead>
+                                <tr className="text-gray-500">
+                                    <th className="py-1 font-semibold">Day</th>
+                                    <th className="py-1 font-semibold">Estimated</th>
+                                    <th className="py-1 font-semibold">Spent</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {summary.days.map(day => {
+                                    const convertedDay = converted?.days.find(entry => entry.day === day.day);
+                                    return (
+                                        <tr key={day.day} className="border-t border-gray-100 align-top">
+                                            <td className="py-1 font-semibold">Day {day.day}</td>
+                                            <td className="py-1">
+                                                {formatTotals(day.estimated)}
+                                                {convertedDay && <span className="block text-gray-500">{formatConverted(convertedDay.estimated)}</span>}
+                                            </td>
+                                            <td className="py-1">
+                                                {formatTotals(day.actual)}
+                                                {convertedDay && <span className="block text-gray-500">{formatConverted(convertedDay.actual)}</span>}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {Object.keys(summary.unassigned).length > 0 && (
+                                    <tr className="border-t border-gray-100 align-top">
+                                        <td className="py-1 font-semibold">No day</td>
+                                        <td className="py-1">—</td>
+                                        <td className="py-1">
+                                            {formatTotals(summary.unassigned)}
+                                            {converted && <span className="block text-gray-500">{formatConverted(converted.unassigned)}</span>}
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <div className="pt-2 border-t border-gray-100">
+                        <p className="text-xs font-semibold text-gray-500 mb-1">Settle up</p>
+                        {summary.settlements.length === 0 ? (
+                            <p className="text-gray-700">{expenses.length > 0 ? 'All square 💞' : 'No expenses yet.'}</p>
+                        ) : summary.settlements.map(settlement => (
+                            <p key={settlement.currency} className="font-semibold text-[#6a329f]">
+                                {TRAVELLER_LABELS[settlement.from]} owes {TRAVELLER_LABELS[settlement.to]} {formatMoney(settlement.amount, settlement.currency)}
+                            </p>
+                        ))}
+                        {/* With several currencies, one payment in the home currency is simpler */}
+                        {converted && summary.settlements.length > 1 && converted.settlements.map(settlement => (
+                            <p key={settlement.currency} className="text-xs text-gray-600">
+                                Or all at once: {TRAVELLER_LABELS[settlement.from]} owes {TRAVELLER_LABELS[settlement.to]} {formatMoney(settlement.amount, settlement.currency)}
+                            </p>
+                        ))}
+                    </div>
+
+                    <div className="pt-2 border-t border-gray-100 flex items-center gap-3 text-xs">
+                        <span className="font-semibold text-gray-500">Export budget:</span>
+                        <a href={`${API_BASE_URL}/expenses/export?format=csv&tripId=${trip.id}`} className="font-semibold text-[#6a329f] hover:underline">CSV</a>
+                        <a href={`${API_BASE_URL}/expenses/export?format=json&tripId=${trip.id}`} className="font-semibold text-[#6a329f] hover:underline">JSON</a>
+                    </div>
+                </div>
+            )}
+
+            {role === 'admin' && (
+                <RateTableForm
+                    trip={trip}
+                    currencies={summary ? Object.keys({ ...summary.estimated, ...summary.actual }) : []}
+                    onSaved={reload}
+                />
+            )}
+
+            {expenses.length > 0 && (
+                <div className="space-y-2">
+                    {expenses.map(expense => (
+                        <div key={expense.id} className="flex items-center justify-between p-3 bg-white rounded-xl shadow-sm border border-[#e3a1e9]/50 text-sm">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-[#2a2a2a] truncate">
+                                    {expense.description || (expense.placeId && placeNames.get(expense.placeId)) || expense.category}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {expense.day ? `Day ${expense.day}` : 'No day'} · {expense.category} · {TRAVELLER_LABELS[expense.payer]} paid{expense.shared ? ', shared' : ''}
+                                </p>
+                            </div>
+                            <div className="flex items-center space-x-2 ml-2">
+                                <span className="text-right whitespace-nowrap">
+                                    <span className="block font-bold text-[#6a329f]">{formatMoney(expense.amount, expense.currency)}</span>
+                                    {formatConvertedAmount(summary, expense.amount, expense.currency) && (
+                                        <span className="block text-xs text-gray-500">{formatConvertedAmount(summary, expense.amount, expense.currency)}</span>
+                                    )}
+                                </span>
+                                <button onClick={() => setEditingExpense(expense)} className="p-1 rounded-full text-[#e3a1e9] hover:bg-[#f7e6f8] transition">
+                                    <Edit className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => setDeleteTarget(expense)} className="p-1 rounded-full text-red-500 hover:bg-red-50 transition">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <ExpenseForm
+                trip={trip}
+                itinerary={itinerary}
+                role={role}
+                defaultCurrency={defaultCurrency}
+                editingExpense={editingExpense}
+                onSaved={reload}
+                onCancelEdit={() => setEditingExpense(null)}
+            />
+
+            {deleteTarget && (
+                <MessageDialog
+                    message={`Delete the expense of ${formatMoney(deleteTarget.amount, deleteTarget.currency)}? This cannot be undone.`}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setDeleteTarget(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+interface ChecklistProgressProps {
+    items: ChecklistItem[];
+    itinerary: TripPlace[];
+    currentDay: number;
+    onOpen: () => void;
+}
+
+// Compact progress chip shown next to the day tabs; counts the whole trip and, when some
+// items belong to the selected day's places, that day as well
+const ChecklistProgress: React.FC<ChecklistProgressProps> = ({ items, itinerary, currentDay, onOpen }) => {
+    const dayPlaceIds = new Set(itinerary.filter(place => place.day === currentDay).map(place => place.id));
+    const dayItems = items.filter(item => item.placeId && dayPlaceIds.has(item.placeId));
+    const doneCount = items.filter(item => item.done).length;
+    const percent = items.length > 0 ? Math.round((doneCount / items.length) * 100) : 0;
+
+    return (
+        <button
+            onClick={onOpen}
+            title="Open the checklist"
+            className="flex items-center px-3 py-2 text-xs font-semibold rounded-full shadow-md bg-white border border-[#e3a1e9] text-[#6a329f] hover:bg-[#f7e6f8] transition"
+        >
+            <ListChecks className="w-4 h-4 mr-1" />
+            {items.length > 0 ? `${doneCount}/${items.length}` : 'Checklist'}
+            {items.length > 0 && (
+                <span className="ml-2 w-12 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                    <span className="block h-full bg-[#6a329f]" style={{ width: `${percent}%` }} />
+                </span>
+            )}
+            {dayItems.length > 0 && (
+                <span className="ml-2 text-gray-500">Day {currentDay}: {dayItems.filter(item => item.done).length}/{dayItems.length}</span>
+            )}
+        </button>
+    );
+};
+
+// The editable part of a ChecklistItem; '' stands for "none" in the pickers
+type ChecklistFormData = { title: string, notes: string, category: ChecklistItem['category'], assignee: '' | 'admin' | 'trusted', dueDate: string, placeId: string };
+
+const initialChecklistFormData: ChecklistFormData = { title: '', notes: '', category: 'Booking', assignee: '', dueDate: '', placeId: '' };
+
+interface ChecklistItemFormProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    editingItem: ChecklistItem | null;
+    onSaved: () => void;
+    onCancelEdit: () => void;
+}
+
+const ChecklistItemForm: React.FC<ChecklistItemFormProps> = ({ trip, itinerary, editingItem, onSaved, onCancelEdit }) => {
+    const safeFetch = useApiFetcher();
+    const [formData, setFormData] = useState<ChecklistFormData>(initialChecklistFormData);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const isEditing = !!editingItem;
+    const placeOptions = useMemo(() => [...itinerary].sort((a, b) => a.day - b.day || compareByStartTime(a, b)), [itinerary]);
+
+    useEffect(() => {
+        setFormData(editingItem ? {
+            title: editingItem.title,
+            notes: editingItem.notes || '',
+            category: editingItem.category,
+            assignee: editingItem.assignee || '',
+            dueDate: editingItem.dueDate ? editingItem.dueDate.slice(0, 10) : '',
+            placeId: editingItem.placeId || '',
+        } : initialChecklistFormData);
+        setFieldErrors({});
+    }, [editingItem]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const validation = isEditing ? validateChecklistItemUpdate(formData) : validateChecklistItemInput(formData);
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            await safeFetch(isEditing ? `/checklist/${editingItem!.id}` : `/checklist?tripId=${trip.id}`, {
+                method: isEditing ? 'PUT' : 'POST',
+                body: JSON.stringify(validation.data),
+            }, true);
+
+            setMessage(`Item ${isEditing ? 'updated' : 'added'}.`);
+            if (isEditing) {
+                onCancelEdit();
+            } else {
+                // Keep the category for the next entry, e.g. when filling in the packing list
+                setFormData(prev => ({ ...initialChecklistFormData, category: prev.category }));
+            }
+            onSaved();
+        } catch (error: any) {
+            setFieldErrors(error.fields || {});
+            setMessage(`Failed to ${isEditing ? 'update' : 'add'} item: ${error.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50">
+            <h4 className="font-bold text-[#6a329f] flex items-center">
+                {isEditing ? <Edit className="w-4 h-4 mr-2" /> : <PlusCircle className="w-4 h-4 mr-2" />}
+                {isEditing ? 'Edit Checklist Item' : 'Add Checklist Item'}
+            </h4>
+
+            <input type="text" name="title" value={formData.title} onChange={handleChange} placeholder="e.g., Book museum tickets" required maxLength={CHECKLIST_ITEM_SCHEMA.title.maxLength}
+                    className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.title} />
+
+            <div className="grid grid-cols-3 gap-2">
+                <select name="category" value={formData.category} onChange={handleChange} className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    {CHECKLIST_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                </select>
+                <select name="assignee" value={formData.assignee} onChange={handleChange} className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    <option value="">Either of us</option>
+                    {(Object.keys(TRAVELLER_LABELS) as Expense['payer'][]).map(role => (
+                        <option key={role} value={role}>{TRAVELLER_LABELS[role]}</option>
+                    ))}
+                </select>
+                <input type="date" name="dueDate" value={formData.dueDate} onChange={handleChange}
+                        className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.category || fieldErrors.assignee || fieldErrors.dueDate} />
+
+            <select name="placeId" value={formData.placeId} onChange={handleChange} className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                <option value="">Not tied to a place</option>
+                {placeOptions.map(place => <option key={place.id} value={place.id}>Day {place.day} · {place.name}</option>)}
+            </select>
+            <FieldError message={fieldErrors.placeId} />
+
+            <input type="text" name="notes" value={formData.notes} onChange={handleChange} placeholder="Notes (optional)" maxLength={CHECKLIST_ITEM_SCHEMA.notes.maxLength}
+                    className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.notes} />
+
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    className={`flex-grow font-bold py-2 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
+                    disabled={loading}
+                >
+                    {loading ? 'Saving...' : (isEditing ? 'Save Item' : 'Add Item')}
+                </button>
+                {isEditing && (
+                    <button
+                        type="button"
+                        onClick={onCancelEdit}
+                        className="font-bold py-2 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        disabled={loading}
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            {message && <p className={`text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </form>
+    );
+};
+
+interface ChecklistPanelProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    role: Role;
+    checklist: Checklist;
+}
+
+// Bookings, documents and packing, grouped by category. Ticking an item off updates the list
+// right away and rolls back if the save fails.
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ trip, itinerary, role, checklist }) => {
+    const safeFetch = useApiFetcher();
+    const { items, error, reload, setItems } = checklist;
+    const [filter, setFilter] = useState<'all' | 'open' | 'mine'>('all');
+    const [editingItem, setEditingItem] = useState<ChecklistItem | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<ChecklistItem | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const placesById = useMemo(() => new Map(itinerary.map(place => [place.id, place])), [itinerary]);
+    const doneCount = items.filter(item => item.done).length;
+
+    const visibleItems = items.filter(item =>
+        filter === 'open' ? !item.done
+        : filter === 'mine' ? item.assignee === role || item.assignee === null
+        : true
+    );
+
+    const toggleDone = async (item: ChecklistItem) => {
+        setActionError(null);
+        setItems(prev => prev.map(entry => entry.id === item.id ? { ...entry, done: !item.done } : entry));
+
+        try {
+            await safeFetch(`/checklist/${item.id}`, { method: 'PUT', body: JSON.stringify({ done: !item.done }) }, true);
+        } catch (err: any) {
+            setItems(prev => prev.map(entry => entry.id === item.id ? { ...entry, done: item.done } : entry));
+            setActionError(`Failed to update "${item.title}": ${err.message}`);
+        }
+    };
+
+    const confirmDelete = async () => {
+        const item = deleteTarget!;
+        setDeleteTarget(null);
+        setActionError(null);
+
+        try {
+            await safeFetch(`/checklist/${item.id}`, { method: 'DELETE' }, true);
+            if (editingItem?.id === item.id) setEditingItem(null);
+            reload();
+        } catch (err: any) {
+            setActionError(`Failed to delete item: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-[#6a329f] flex items-center">
+                    <ListChecks className="w-5 h-5 mr-2" /> Checklist
+                    <span className="ml-2 text-sm font-semibold text-gray-500">{doneCount}/{items.length} done</span>
+                </h3>
+                <select value={filter} onChange={(e) => setFilter(e.target.value as typeof filter)} className="p-2 text-sm border rounded-lg">
+                    <option value="all">All items</option>
+                    <option value="open">Still to do</option>
+                    <option value="mine">Mine ({TRAVELLER_LABELS[role === 'trusted' ? 'trusted' : 'admin']} or either)</option>
+                </select>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {actionError && <p className="text-sm text-red-500">{actionError}</p>}
+            {!error && visibleItems.length === 0 && (
+                <p className="text-center text-sm text-gray-500 py-4">{items.length === 0 ? 'Nothing on the checklist yet.' : 'No items match this filter.'}</p>
+            )}
+
+            {CHECKLIST_CATEGORIES.map(category => {
+                const categoryItems = visibleItems.filter(item => item.category === category);
+                if (categoryItems.length === 0) return null;
+
+                return (
+                    <div key={category} className="space-y-2">
+                        <p className="text-xs font-bold uppercase tracking-wide text-gray-500">{category}</p>
+                        {categoryItems.map(item => {
+                            const place = item.placeId ? placesById.get(item.placeId) : undefined;
+                            return (
+                                <div key={item.id} className="flex items-start justify-between p-3 bg-white rounded-xl shadow-sm border border-[#e3a1e9]/50 text-sm">
+                                    <label className="flex items-start min-w-0 cursor-pointer">
+                                        <input type="checkbox" checked={item.done} onChange={() => toggleDone(item)} className="mt-1 mr-3 accent-[#6a329f]" />
+                                        <span className="min-w-0">
+                                            <span className={`block font-semibold ${item.done ? 'line-through text-gray-400' : 'text-[#2a2a2a]'}`}>{item.title}</span>
+                                            <span className="block text-xs text-gray-500">
+                                                {item.assignee ? TRAVELLER_LABELS[item.assignee] : 'Either of us'}
+                                                {item.dueDate && (
+                                                    <span className={isOverdue(item) ? 'text-red-600 font-semibold' : ''}> · due {formatDueDate(item.dueDate)}</span>
+                                                )}
+                                                {place && ` · Day ${place.day}, ${place.name}`}
+                                            </span>
+                                            {item.notes && <span className="block text-xs text-gray-600 italic mt-1">{item.notes}</span>}
+                                        </span>
+                                    </label>
+                                    <div className="flex items-center space-x-1 ml-2">
+                                        <button onClick={() => setEditingItem(item)} className="p-1 rounded-full text-[#e3a1e9] hover:bg-[#f7e6f8] transition">
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => setDeleteTarget(item)} className="p-1 rounded-full text-red-500 hover:bg-red-50 transition">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+
+            <ChecklistItemForm
+                trip={trip}
+                itinerary={itinerary}
+                editingItem={editingItem}
+                onSaved={reload}
+                onCancelEdit={() => setEditingItem(null)}
+            />
+
+            {deleteTarget && (
+                <MessageDialog
+                    message={`Delete "${deleteTarget.title}" from the checklist? This cannot be undone.`}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setDeleteTarget(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// The editable part of a Booking, as the form holds it; times are datetime-local strings
+type BookingFormData = { placeId: string, provider: string, confirmationCode: string, startsAt: string, endsAt: string, partySize: string, contactPhone: string, cancellationDeadline: string, notes: string };
+
+const initialBookingFormData: BookingFormData = { placeId: '', provider: '', confirmationCode: '', startsAt: '', endsAt: '', partySize: '', contactPhone: '', cancellationDeadline: '', notes: '' };
+
+interface BookingFormProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    editingBooking: Booking | null;
+    onSaved: () => void;
+    onCancelEdit: () => void;
+}
+
+const BookingForm: React.FC<BookingFormProps> = ({ trip, itinerary, editingBooking, onSaved, onCancelEdit }) => {
+    const safeFetch = useApiFetcher();
+    const [formData, setFormData] = useState<BookingFormData>(initialBookingFormData);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const isEditing = !!editingBooking;
+    const placeOptions = useMemo(() => [...itinerary].sort((a, b) => a.day - b.day || compareByStartTime(a, b)), [itinerary]);
+
+    useEffect(() => {
+        setFormData(editingBooking ? {
+            placeId: editingBooking.placeId,
+            provider: editingBooking.provider,
+            confirmationCode: editingBooking.confirmationCode || '',
+            startsAt: toDateTimeInput(editingBooking.startsAt),
+            endsAt: toDateTimeInput(editingBooking.endsAt),
+            partySize: editingBooking.partySize === null ? '' : String(editingBooking.partySize),
+            contactPhone: editingBooking.contactPhone || '',
+            cancellationDeadline: toDateTimeInput(editingBooking.cancellationDeadline),
+            notes: editingBooking.notes || '',
+        } : initialBookingFormData);
+        setFieldErrors({});
+    }, [editingBooking]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const payload = { ...formData, partySize: formData.partySize ? parseInt(formData.partySize, 10) : null };
+        const validation = isEditing ? validateBookingUpdate(payload) : validateBookingInput(payload);
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            await safeFetch(isEditing ? `/bookings/${editingBooking!.id}` : `/bookings?tripId=${trip.id}`, {
+                method: isEditing ? 'PUT' : 'POST',
+                body: JSON.stringify(validation.data),
+            }, true);
+
+            setMessage(`Booking ${isEditing ? 'updated' : 'added'}.`);
+            if (isEditing) {
+                onCancelEdit();
+            } else {
+                setFormData(initialBookingFormData);
+            }
+            onSaved();
+        } catch (error: any) {
+            setFieldErrors(error.fields || {});
+            setMessage(`Failed to ${isEditing ? 'update' : 'add'} booking: ${error.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50">
+            <h4 className="font-bold text-[#6a329f] flex items-center">
+                {isEditing ? <Edit className="w-4 h-4 mr-2" /> : <PlusCircle className="w-4 h-4 mr-2" />}
+                {isEditing ? 'Edit Booking' : 'Add Booking'}
+            </h4>
+
+            <select name="placeId" value={formData.placeId} onChange={handleChange} required className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                <option value="">Which place is it for?</option>
+                {placeOptions.map(place => <option key={place.id} value={place.id}>Day {place.day} · {place.name}</option>)}
+            </select>
+            <FieldError message={fieldErrors.placeId} />
+
+            <div className="grid grid-cols-2 gap-2">
+                <input type="text" name="provider" value={formData.provider} onChange={handleChange} placeholder="Provider (e.g., Booking.com)" required maxLength={BOOKING_SCHEMA.provider.maxLength}
+                        className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="text" name="confirmationCode" value={formData.confirmationCode} onChange={handleChange} placeholder="Confirmation code" maxLength={BOOKING_SCHEMA.confirmationCode.maxLength}
+                        className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.provider || fieldErrors.confirmationCode} />
+
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+                <label className="space-y-1">
+                    <span>Check-in / reservation ({trip.timezone})</span>
+                    <input type="datetime-local" name="startsAt" value={formData.startsAt} onChange={handleChange}
+                            className="w-full p-2 text-sm text-[#2a2a2a] border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                </label>
+                <label className="space-y-1">
+                    <span>Check-out (stays only)</span>
+                    <input type="datetime-local" name="endsAt" value={formData.endsAt} onChange={handleChange}
+                            className="w-full p-2 text-sm text-[#2a2a2a] border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                </label>
+            </div>
+            <FieldError message={fieldErrors.startsAt || fieldErrors.endsAt} />
+
+            <div className="grid grid-cols-3 gap-2">
+                <input type="number" name="partySize" value={formData.partySize} onChange={handleChange} placeholder="Party size" min={BOOKING_SCHEMA.partySize.min} max={BOOKING_SCHEMA.partySize.max}
+                        className="p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="tel" name="contactPhone" value={formData.contactPhone} onChange={handleChange} placeholder="Contact phone" maxLength={BOOKING_SCHEMA.contactPhone.maxLength}
+                        className="col-span-2 p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.partySize || fieldErrors.contactPhone} />
+
+            <label className="block space-y-1 text-xs text-gray-500">
+                <span>Free cancellation until ({trip.timezone})</span>
+                <input type="datetime-local" name="cancellationDeadline" value={formData.cancellationDeadline} onChange={handleChange}
+                        className="w-full p-2 text-sm text-[#2a2a2a] border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </label>
+            <FieldError message={fieldErrors.cancellationDeadline} />
+
+            <input type="text" name="notes" value={formData.notes} onChange={handleChange} placeholder="Notes (optional)" maxLength={BOOKING_SCHEMA.notes.maxLength}
+                    className="w-full p-2 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.notes} />
+
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    className={`flex-grow font-bold py-2 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
+                    disabled={loading}
+                >
+                    {loading ? 'Saving...' : (isEditing ? 'Save Booking' : 'Add Booking')}
+                </button>
+                {isEditing && (
+                    <button
+                        type="button"
+                        onClick={onCancelEdit}
+                        className="font-bold py-2 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        disabled={loading}
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            {message && <p className={`text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </form>
+    );
+};
+
+interface BookingPanelProps {
+    trip: Trip;
+    itinerary: TripPlace[];
+    bookings: Bookings;
+}
+
+// All reservations of the trip, or just the ones that can still be cancelled, soonest cutoff first
+const BookingPanel: React.FC<BookingPanelProps> = ({ trip, itinerary, bookings: bookingState }) => {
+    const safeFetch = useApiFetcher();
+    const { bookings, deadlines, error, reload } = bookingState;
+    const [view, setView] = useState<'all' | 'deadlines'>('all');
+    const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<Booking | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const placesById = useMemo(() => new Map(itinerary.map(place => [place.id, place])), [itinerary]);
+
+    const confirmDelete = async () => {
+        const booking = deleteTarget!;
+        setDeleteTarget(null);
+        setActionError(null);
+
+        try {
+            await safeFetch(`/bookings/${booking.id}`, { method: 'DELETE' }, true);
+            if (editingBooking?.id === booking.id) setEditingBooking(null);
+            reload();
+        } catch (err: any) {
+            setActionError(`Failed to delete booking: ${err.message}`);
+        }
+    };
+
+    const renderBooking = (booking: Booking, highlightDeadline: boolean) => {
+        const place = placesById.get(booking.placeId);
+        return (
+            <div key={booking.id} className="flex items-start justify-between p-3 bg-white rounded-xl shadow-sm border border-[#e3a1e9]/50 text-sm">
+                <div className="min-w-0">
+                    <p className="font-semibold text-[#2a2a2a]">
+                        {place?.name}
+                        <span className="ml-2 font-normal text-gray-500">{booking.provider}</span>
+                    </p>
+                    {highlightDeadline && booking.cancellationDeadline && (
+                        <p className="text-xs font-semibold text-red-600">Cancel by {formatBookingTime(booking.cancellationDeadline)}</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                        {[
+                            place && `Day ${place.day}`,
+                            booking.confirmationCode && `#${booking.confirmationCode}`,
+                            booking.startsAt && (booking.endsAt
+                                ? `${formatBookingTime(booking.startsAt)} – ${formatBookingTime(booking.endsAt)}`
+                                : formatBookingTime(booking.startsAt)),
+                            booking.partySize && `${booking.partySize} ${booking.partySize === 1 ? 'person' : 'people'}`,
+                        ].filter(Boolean).join(' · ')}
+                    </p>
+                    {booking.contactPhone && (
+                        <a href={`tel:${booking.contactPhone.replace(/[^\d+]/g, '')}`} className="text-xs font-semibold text-[#6a329f] hover:underline">{booking.contactPhone}</a>
+                    )}
+                    {!highlightDeadline && booking.cancellationDeadline && (
+                        <p className="text-xs text-gray-500">Free cancellation until {formatBookingTime(booking.cancellationDeadline)}</p>
+                    )}
+                    {booking.notes && <p className="text-xs text-gray-600 italic mt-1">{booking.notes}</p>}
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                    <button onClick={() => setEditingBooking(booking)} className="p-1 rounded-full text-[#e3a1e9] hover:bg-[#f7e6f8] transition">
+                        <Edit className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setDeleteTarget(booking)} className="p-1 rounded-full text-red-500 hover:bg-red-50 transition">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    // A place deleted since the last fetch takes its bookings with it, as on the server
+    const visibleBookings = (view === 'deadlines' ? deadlines : bookings).filter(booking => placesById.has(booking.placeId));
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-[#6a329f] flex items-center">
+                    <Ticket className="w-5 h-5 mr-2" /> Bookings
+                </h3>
+                <div className="flex text-sm font-semibold border-b border-[#e3a1e9]/50">
+                    <button
+                        onClick={() => setView('all')}
+                        className={`px-3 py-1 transition ${view === 'all' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                    >
+                        All ({bookings.length})
+                    </button>
+                    <button
+                        onClick={() => setView('deadlines')}
+                        className={`px-3 py-1 transition ${view === 'deadlines' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                    >
+                        Deadlines ({deadlines.length})
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {actionError && <p className="text-sm text-red-500">{actionError}</p>}
+            {!error && visibleBookings.length === 0 && (
+                <p className="text-center text-sm text-gray-500 py-4">
+                    {view === 'deadlines' ? 'No upcoming cancellation deadlines.' : 'No bookings yet.'}
+                </p>
+            )}
+            {view === 'deadlines' && deadlines.length > 0 && (
+                <p className="text-xs text-gray-500">Bookings that can still be cancelled for free, soonest first. Times are in {trip.timezone}.</p>
+            )}
+
+            <div className="space-y-2">
+                {visibleBookings.map(booking => renderBooking(booking, view === 'deadlines'))}
+            </div>
+
+            <BookingForm
+                trip={trip}
+                itinerary={itinerary}
+                editingBooking={editingBooking}
+                onSaved={reload}
+                onCancelEdit={() => setEditingBooking(null)}
+            />
+
+            {deleteTarget && (
+                <MessageDialog
+                    message={`Delete the ${deleteTarget.provider} booking? This cannot be undone.`}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setDeleteTarget(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// --- 4. Login Screen Component ---
+
+const LoginScreen: React.FC<{ setRole: (role: Role) => void, trip: Trip | null }> = ({ setRole, trip }) => {
+    const safeFetch = useApiFetcher();
+    const [secret, setSecret] = useState('');
+    const [message, setMessage] = useState<{ text: string, color: string } | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setMessage(null);
+        
+        try {
+            // The server checks the secret and answers with an HttpOnly session cookie
+            const { role }: { role: Role } = await safeFetch('/auth/login', {
+                method: 'POST',
+                body: JSON.stringify({ secret })
+            });
+
+            if (role === 'admin') {
+                setMessage({ text: 'Welcome，Kuromi Boss 😎😎', color: 'text-green-600' });
+            } else {
+                setMessage({ text: 'babyyyy～想死你啦 ❤️❤️', color: 'text-[#e3a1e9]' });
+            }
+            setSecret('');
+            setRole(role);
+        } catch (error: any) {
+            setMessage({ text: '暗号输入错误，请用爱重新登录～🥺🥺💔', color: 'text-red-500' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-[#f7e6f8] p-4">
+            <div className="p-8 bg-white rounded-3xl shadow-2xl w-full max-w-sm mx-auto text-center border-4 border-[#e3a1e9]">
+                <div className="mb-6">
+                    <img 
+                        src="/kuromi-avatar-login-2.png" 
+                        alt="Kuromi Avatar" 
+                        className="w-40 h-auto mx-auto drop-shadow-lg" 
+                    />
+                    <p className="text-xl font-extrabold text-[#6a329f] mt-2">{trip?.tagline || DEFAULT_TRIP_TAGLINE}</p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input
+                        type="password"
+                        value={secret}
+                        onChange={(e) => setSecret(e.target.value)}
+                        placeholder="输入我们之间的暗号"
+                        required
+                        className="w-full p-3 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition text-center font-mono"
+                        disabled={loading}
+                    />
+                    <button
+                        type="submit"
+                        className={`w-full font-bold py-3 rounded-lg shadow-md transition transform ${loading ? 'bg-gray-400' : 'bg-[#6a329f] text-white hover:bg-[#8e45b5] hover:scale-[1.01]'}`}
+                        disabled={loading}
+                    >
+                        {loading ? '检查中 🔍 ' : ' 登入 💌 '}
+                    </button>
+                </form>
+                {message && (
+                    <div className={`mt-4 text-sm font-semibold ${message.color}`}>
+                        {message.text}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- 5. Trusted User Dashboard Components (Suggestion Form) ---
+
+const SuggestionForm: React.FC<{ refreshSuggestions: () => void, tripId: string, onQueued: () => void }> = ({ refreshSuggestions, tripId, onQueued }) => {
+    const safeFetch = useApiFetcher();
+    const [title, setTitle] = useState('');
+    const [text, setText] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<{ text: string, color: string } | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // Same checks the API runs, so mistakes show up before the round trip
+        const validation = validateSuggestionInput({ title, text });
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
+        setLoading(true);
+        setMessage(null);
+
+        // Without a connection the suggestion waits in the outbox and is sent on reconnect
+        const saveForLater = async () => {
+            await queueSuggestion(tripId, validation.data);
+            setMessage({ text: '现在没有网络，建议已保存，联网后会自动发送 📮', color: 'text-yellow-600' });
+            setTitle('');
+            setText('');
+            onQueued();
+        };
+
+        try {
+            if (!navigator.onLine) {
+                await saveForLater();
+                return;
+            }
+
+            // The server records the session's user as the submitter
+            const payload: Pick<Suggestion, 'title' | 'text'> = validation.data;
+
+            await safeFetch(`/trips/${tripId}/suggestions`, {
+                method: 'POST',
+                body: JSON.stringify(payload)
+            }, true); // Requires a session but doesn't check role
+
+            setMessage({ text: '建议已成功发送！嘻嘻 ❤️', color: 'text-green-600' });
+            setTitle('');
+            setText('');
+            refreshSuggestions(); 
+
+        } catch (error: any) {
+            if (error instanceof OfflineError) {
+                await saveForLater().catch((queueError: any) => setMessage({ text: queueError.message, color: 'text-red-600' }));
+                return;
+            }
+
+            console.error("Submission failed:", error);
+            setFieldErrors(error.fields || {});
+            setMessage({ text: error.message || '提交失败。请再试一次。😭😭', color: 'text-red-600' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="p-4 border-t border-gray-100 bg-[#f7e6f8] rounded-b-xl">
+            <h2 className="text-lg font-bold text-[#6a329f] mb-3 flex items-center">
+                <Heart className="w-5 h-5 mr-2 text-[#e3a1e9]" />
+                提交你最疯狂的建议 😳😳
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <input 
+                    type="text" 
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="建议标题（例如：猫咖啡馆）" 
+                    required 
+                    maxLength={SUGGESTION_SCHEMA.title.maxLength}
+                    className="w-full p-2 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition"
+                    disabled={loading}
+                />
+                <FieldError message={fieldErrors.title} />
+                <textarea 
+                    rows={2} 
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="我一定要去这里的理由！" 
+                    required 
+                    maxLength={SUGGESTION_SCHEMA.text.maxLength}
+                    className="w-full p-2 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition"
+                    disabled={loading}
+                />
+                <FieldError message={fieldErrors.text} />
+                <button 
+                    type="submit" 
+                    className={`w-full font-bold py-2 rounded-lg shadow-md transition transform ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff] hover:scale-[1.01]'}`}
+                    disabled={loading}
+                >
+                    {loading ? '发送中...' : '发送到信箱 💌'}
+                </button>
+            </form>
+            {message && (
+                <div className={`mt-3 text-sm text-center font-semibold ${message.color}`}>
+                    {message.text}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Submitter's own suggestions with their review outcome and conversation
+const MySuggestions: React.FC<{ tripId: string, refreshTrigger: number }> = ({ tripId, refreshTrigger }) => {
+    const safeFetch = useApiFetcher();
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        setError(null);
+
+        safeFetch(`/suggestions/mine?tripId=${tripId}`, { method: 'GET' }, true)
+            .then((data: Suggestion[]) => setSuggestions(data))
+            .catch((err: any) => setError(err.message || '加载失败 😭'))
+            .finally(() => setLoading(false));
+    }, [safeFetch, tripId, refreshTrigger]);
+
+    if (loading) return <div className="text-center py-4"><Loader2 className="w-6 h-6 mx-auto animate-spin text-[#6a329f]" /></div>;
+    if (error) return <p className="text-center text-sm text-red-500 py-4">{error}</p>;
+    if (suggestions.length === 0) return <p className="text-center text-sm text-gray-500 py-4">还没有提交过建议哦～</p>;
+
+    return (
+        <div className="p-4 space-y-3">
+            <h3 className="text-md font-bold text-[#6a329f] flex items-center">
+                <Inbox className="w-4 h-4 mr-2" /> 我的建议
+            </h3>
+            {suggestions.map(s => (
+                <div key={s.id} className="p-3 bg-white rounded-xl shadow-sm border border-[#e3a1e9]/50">
+                    <div className="flex justify-between items-center">
+                        <h4 className="font-bold">{s.title}</h4>
+                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getStatusBadgeClass(s.status)}`}>
+                            {s.status}
+                        </span>
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">{s.text}</p>
+                    {s.reviewNote && (
+                        <p className="text-xs text-gray-600 mt-2 italic bg-gray-50 p-2 rounded-lg">Review note: {s.reviewNote}</p>
+                    )}
+                    {s.scheduledPlace && (
+                        <p className="text-xs font-semibold text-[#6a329f] mt-2 flex items-center">
+                            <MapPin className="w-3 h-3 mr-1" />
+                            已加入行程：Day {s.scheduledPlace.day} · {formatPlaceTime({ ...s.scheduledPlace, durationMinutes: null })}
+                        </p>
+                    )}
+                    <SuggestionThread suggestionId={s.id} commentCount={s._count?.comments || 0} />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// --- 6. Admin Panel Components (CRUD & Inbox) ---
+
+interface ScheduleSuggestionFormProps {
+    suggestion: Suggestion;
+    trip: Trip;
+    onScheduled: () => void;
+    onCancel: () => void;
+}
+
+// Inline form under an inbox card: approves the suggestion and creates its itinerary place in one step
+const ScheduleSuggestionForm: React.FC<ScheduleSuggestionFormProps> = ({ suggestion, trip, onScheduled, onCancel }) => {
+    const safeFetch = useApiFetcher();
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [formData, setFormData] = useState({
+        ...initialTripPlaceFormData,
+        name: suggestion.title,
+        purpose: 'Suggestion',
+        notes: suggestion.text,
+    });
+
+    const dayOptions = Array.from({ length: getTripDayCount(trip) }, (_, i) => i + 1);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+
+        if (name === 'startTime') {
+            setFormData(prev => ({ ...prev, startTime: value ? parseTimeString(value).startTime : null }));
+        } else if (name === 'day' || name === 'durationMinutes') {
+            setFormData(prev => ({ ...prev, [name]: value ? parseInt(value, 10) : null }));
+        } else if (name === 'latitude' || name === 'longitude') {
+            setFormData(prev => ({ ...prev, [name]: parseFloat(value) }));
+        } else {
+            setFormData(prev => ({ ...prev, [name]: value }));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const validation = validateTripPlaceInput(formData, { nameOptional: true });
+        if (!validation.ok) {
+            setMessage(Object.values(validation.fields).join(' '));
+            return;
+        }
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            await safeFetch(`/suggestions/${suggestion.id}/schedule`, {
+                method: 'POST',
+                body: JSON.stringify(validation.data)
+            }, true);
+            onScheduled();
+        } catch (error: any) {
+            setMessage(`Failed to schedule: ${error.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mt-3 p-3 space-y-2 bg-[#f7e6f8] rounded-lg">
+            <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Location Name" required 
+                    className="w-full p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <div className="grid grid-cols-3 gap-2">
+                <select name="day" value={formData.day} onChange={handleChange} required 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    {dayOptions.map(d => <option key={d} value={d}>Day {d}</option>)}
+                </select>
+                <input type="time" name="startTime" value={formData.startTime !== null ? formatStartTime(formData.startTime) : ''} onChange={handleChange} required 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="number" name="durationMinutes" value={formData.durationMinutes ?? ''} onChange={handleChange} placeholder="Minutes" min="1" step="5" 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                <input type="text" name="purpose" value={formData.purpose} onChange={handleChange} placeholder="Purpose" required 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="number" name="latitude" value={formData.latitude} onChange={handleChange} placeholder="Latitude" step="0.00001" required 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="number" name="longitude" value={formData.longitude} onChange={handleChange} placeholder="Longitude" step="0.00001" required 
+                        className="p-2 text-sm border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <div className="flex justify-end space-x-2">
+                <button type="button" onClick={onCancel} disabled={loading}
+                        className="text-xs font-semibold px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition">
+                    Cancel
+                </button>
+                <button type="submit" disabled={loading}
+                        className="text-xs font-semibold px-3 py-1 rounded-md text-white bg-[#6a329f] hover:bg-[#8e45b5] transition">
+                    {loading ? 'Scheduling...' : 'Approve & Add to Itinerary'}
+                </button>
+            </div>
+            {message && <p className="text-xs text-center font-semibold text-red-600">{message}</p>}
+        </form>
+    );
+};
+
+// Conversation under a suggestion; shared by the inbox and the submitter's own view
+const SuggestionThread: React.FC<{ suggestionId: string, commentCount: number }> = ({ suggestionId, commentCount }) => {
+    const safeFetch = useApiFetcher();
+    const [comments, setComments] = useState<SuggestionComment[]>([]);
+    const [expanded, setExpanded] = useState(commentCount > 0);
+    const [body, setBody] = useState('');
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!expanded) return;
+
+        safeFetch(`/suggestions/${suggestionId}/comments`, { method: 'GET' }, true)
+            .then((data: SuggestionComment[]) => setComments(data))
+            .catch((err: any) => setError(err.message || 'Failed to load the conversation.'));
+    }, [safeFetch, suggestionId, expanded, commentCount]); // A refreshed list brings a new count, so replies from the other side show up
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+
+        setSending(true);
+        setError(null);
+
+        try {
+            const comment: SuggestionComment = await safeFetch(`/suggestions/${suggestionId}/comments`, {
+                method: 'POST',
+                body: JSON.stringify({ body })
+            }, true);
+            setComments(prev => [...prev, comment]);
+            setBody('');
+        } catch (err: any) {
+            setError(err.message || 'Failed to send comment.');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    if (!expanded) {
+        return (
+            <button
+                onClick={() => setExpanded(true)}
+                className="mt-2 text-xs font-semibold text-[#6a329f] flex items-center hover:underline"
+            >
+                <MessageCircle className="w-3 h-3 mr-1" /> Add a comment
+            </button>
+        );
+    }
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+            {comments.map(comment => (
+                <div
+                    key={comment.id}
+                    className={`text-xs p-2 rounded-lg max-w-[85%] ${comment.authorRole === 'admin' ? 'bg-[#6a329f]/10 ml-auto text-right' : 'bg-[#f7e6f8]'}`}
+                >
+                    <p className="font-semibold text-[#6a329f]">
+                        {comment.authorRole === 'admin' ? 'BF' : 'BAE 💗'} · {new Date(comment.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+                </div>
+            ))}
+            <form onSubmit={handleSubmit} className="flex space-x-2">
+                <input
+                    type="text"
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    placeholder="Reply..."
+                    maxLength={2000}
+                    className="flex-grow p-2 text-xs border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f]"
+                    disabled={sending}
+                />
+                <button
+                    type="submit"
+                    disabled={sending || !body.trim()}
+                    className="text-xs font-semibold px-3 py-1 rounded-md text-white bg-[#6a329f] hover:bg-[#8e45b5] transition disabled:bg-gray-400"
+                >
+                    Send
+                </button>
+            </form>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+interface SuggestionInboxProps {
+    trip: Trip;
+    refreshTrigger: number;
+    liveVersion: number;     // Bumped by App whenever another client changes a suggestion
+    onScheduled: () => void; // Refreshes the itinerary after a suggestion became a place
+}
+
+const SuggestionInbox: React.FC<SuggestionInboxProps> = ({ trip, refreshTrigger, liveVersion, onScheduled }) => {
+    const tripId = trip.id;
+    const safeFetch = useApiFetcher();
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [filter, setFilter] = useState<SuggestionStatus | 'ALL'>('ALL');
+    const [schedulingId, setSchedulingId] = useState<string | null>(null);
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
+    const [reviewNote, setReviewNote] = useState('');
+
+    const fetchSuggestions = useCallback(async (silent = false) => {
+        // Live refreshes keep the list on screen instead of showing the spinner
+        if (!silent) setLoading(true);
+        setError(null);
+        
+        try {
+            // This endpoint requires the suggestion:list permission (both travellers) on the backend
+            const basePath = `/trips/${tripId}/suggestions`;
+            const endpoint = filter === 'ALL' ? basePath : `${basePath}?status=${filter.toLowerCase()}`;
+            const data: Suggestion[] = await safeFetch(endpoint, { method: 'GET' }, true); 
+            setSuggestions(data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+        } catch (err: any) {
+            setError(err.message || 'Failed to fetch inbox. (Hint: Log in to view this list)');
+            setSuggestions([]); // Clear on error
+        } finally {
+            setLoading(false);
+        }
+    }, [safeFetch, tripId, filter, refreshTrigger]);
+
+    useEffect(() => {
+        fetchSuggestions();
+    }, [fetchSuggestions]);
+
+    const fetchSuggestionsRef = useRef(fetchSuggestions);
+    useEffect(() => {
+        fetchSuggestionsRef.current = fetchSuggestions;
+    }, [fetchSuggestions]);
+
+    useEffect(() => {
+        if (liveVersion > 0) fetchSuggestionsRef.current(true);
+    }, [liveVersion]);
+
+
+    const updateStatus = async (id: string, newStatus: SuggestionStatus, note?: string) => {
+        try {
+            await safeFetch(`/suggestions/${id}`, {
+                method: 'PATCH',
+                body: JSON.stringify({ status: newStatus.toLowerCase(), reviewNote: note })
+            }, true);
+            
+            // Optimistically update UI
+            setSuggestions(prev => prev.map(s => 
+                s.id === id ? { ...s, status: newStatus, reviewNote: note || null } : s
+            ).filter(s => filter === 'ALL' || s.status === filter));
+            setRejectingId(null);
+            setReviewNote('');
+
+        } catch (error: any) {
+            // Replace alert with message state if needed, or rely on fetcher error
+            console.error(`Failed to update status: ${error.message}`);
+        }
+    };
+
+    if (loading) return <div className="text-center py-10"><Loader2 className="w-8 h-8 mx-auto animate-spin text-[#6a329f]" /></div>;
+    if (error) return <div className="text-center text-red-500 py-10 font-medium"><p>{error}</p><button onClick={() => fetchSuggestions()} className="text-xs text-blue-500 mt-2 hover:underline">Retry</button></div>;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-around bg-gray-100 p-2 rounded-lg">
+                {(['ALL', SuggestionStatus.PENDING, SuggestionStatus.APPROVED, SuggestionStatus.REJECTED] as const).map(s => (
+                    <button
+                        key={s}
+                        onClick={() => setFilter(s)}
+                        className={`text-sm font-semibold px-3 py-1 rounded-full transition ${filter === s ? 'bg-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        {s} ({suggestions.filter(sug => s === 'ALL' || sug.status === s).length})
+                    </button>
+                ))}
+            </div>
+            
+            {suggestions.length === 0 && <p className="text-center text-gray-500 py-4">No suggestions found for this filter.</p>}
+
+            <div className="space-y-4">
+                {suggestions.map(s => (
+                    <div key={s.id} className={`p-4 rounded-xl shadow-md border-l-4 ${s.status === SuggestionStatus.PENDING ? 'border-yellow-500' : s.status === SuggestionStatus.APPROVED ? 'border-green-500' : 'border-red-500'} bg-white`}>
+                        <div className="flex justify-between items-center">
+                            <h4 className="font-bold text-lg">{s.title}</h4>
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getStatusBadgeClass(s.status)}`}>
+                                {s.status}
+                            </span>
+                        </div>
+                        <p className="text-sm text-gray-700 mt-2">{s.text}</p>
+                        <p className="text-xs text-gray-400 mt-1">By User ID: {s.userId.substring(0, 8)}...</p>
+                        {s.scheduledPlace && (
+                            <p className="text-xs font-semibold text-[#6a329f] mt-2 flex items-center">
+                                <MapPin className="w-3 h-3 mr-1" />
+                                Scheduled as "{s.scheduledPlace.name}" · Day {s.scheduledPlace.day} · {formatPlaceTime({ ...s.scheduledPlace, durationMinutes: null })}
+                            </p>
+                        )}
+                        {s.reviewNote && (
+                            <p className="text-xs text-gray-600 mt-2 italic bg-gray-50 p-2 rounded-lg">Review note: {s.reviewNote}</p>
+                        )}
+                        
+                        <div className="mt-3 space-x-2 text-right">
+                            {/* Only pending suggestions can become places; the API answers 409 for the others */}
+                            {s.status === SuggestionStatus.PENDING && !s.scheduledPlace && schedulingId !== s.id && (
+                                <button 
+                                    onClick={() => setSchedulingId(s.id)} 
+                                    className="text-xs font-semibold px-3 py-1 rounded-md text-[#6a329f] bg-[#f7e6f8] hover:bg-[#e3a1e9] transition">
+                                    Approve & Schedule
+                                </button>
+                            )}
+                            {s.status !== SuggestionStatus.APPROVED && (
+                                <button 
+                                    onClick={() => updateStatus(s.id, SuggestionStatus.APPROVED)} 
+                                    className="text-xs font-semibold px-3 py-1 rounded-md text-green-700 bg-green-100 hover:bg-green-200 transition">
+                                    Approve
+                                </button>
+                            )}
+                            {/* A scheduled suggestion keeps its status while its place exists */}
+                            {s.status !== SuggestionStatus.REJECTED && !s.scheduledPlace && rejectingId !== s.id && (
+                                <button 
+                                    onClick={() => setRejectingId(s.id)} 
+                                    className="text-xs font-semibold px-3 py-1 rounded-md text-red-700 bg-red-100 hover:bg-red-200 transition">
+                                    Reject
+                                </button>
+                            )}
+                        </div>
+                        {rejectingId === s.id && (
+                            <form
+                                onSubmit={(e) => { e.preventDefault(); updateStatus(s.id, SuggestionStatus.REJECTED, reviewNote); }}
+                                className="mt-3 p-3 space-y-2 bg-red-50 rounded-lg"
+                            >
+                                <textarea
+                                    rows={2}
+                                    value={reviewNote}
+                                    onChange={(e) => setReviewNote(e.target.value)}
+                                    placeholder="Why not this time? (shown to the submitter)"
+                                    required
+                                    className="w-full p-2 text-sm border border-red-200 rounded-lg focus:ring-2 focus:ring-red-300"
+                                />
+                                <div className="flex justify-end space-x-2">
+                                    <button type="button" onClick={() => { setRejectingId(null); setReviewNote(''); }}
+                                            className="text-xs font-semibold px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition">
+                                        Cancel
+                                    </button>
+                                    <button type="submit" disabled={!reviewNote.trim()}
+                                            className="text-xs font-semibold px-3 py-1 rounded-md text-white bg-red-500 hover:bg-red-600 transition disabled:bg-gray-400">
+                                        Confirm Reject
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                        {schedulingId === s.id && (
+                            <ScheduleSuggestionForm
+                                suggestion={s}
+                                trip={trip}
+                                onCancel={() => setSchedulingId(null)}
+                                onScheduled={() => {
+                                    setSchedulingId(null);
+                                    onScheduled();
+                                }}
+                            />
+                        )}
+                        <SuggestionThread suggestionId={s.id} commentCount={s._count?.comments || 0} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Fields compared when an edit collides with a newer copy on the server
+type MergeField = keyof typeof TRIP_PLACE_SCHEMA;
+const MERGE_FIELDS = Object.keys(TRIP_PLACE_SCHEMA) as MergeField[];
+
+// The form keeps cleared text fields as '', the API as null
+const isSameValue = (a: unknown, b: unknown) => (a === '' ? null : a ?? null) === (b === '' ? null : b ?? null);
+
+const formatMergeValue = (field: MergeField, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'startTime') return formatStartTime(value as number);
+    if (field === 'durationMinutes') return `${value} min`;
+    if (field === 'estimatedCost') return (value as number).toFixed(2);
+    return String(value);
+};
+
+interface MergeDialogProps {
+    base: TripPlace;        // The copy the edit started from
+    mine: PlaceFormData;
+    server: TripPlace;
+    onSaveMerged: (merged: PlaceFormData) => void;
+    onUseServer: () => void;
+    onCancel: () => void;
+}
+
+// Shown when a save is refused with 409: lists every field where the two versions differ and
+// lets either value be kept. Fields only the other person changed default to their value.
+const MergeDialog: React.FC<MergeDialogProps> = ({ base, mine, server, onSaveMerged, onUseServer, onCancel }) => {
+    const differences = MERGE_FIELDS.filter(field => !isSameValue(mine[field], server[field]));
+    const [choices, setChoices] = useState<Partial<Record<MergeField, 'mine' | 'server'>>>(() => Object.fromEntries(
+        differences.map(field => [field, isSameValue(mine[field], base[field]) ? 'server' : 'mine'])
+    ));
+
+    const handleSave = () => {
+        const merged: PlaceFormData = { ...mine };
+        for (const field of differences) {
+            if (choices[field] === 'server') {
+                (merged as Record<MergeField, unknown>)[field] = server[field];
+            }
+        }
+        onSaveMerged(merged);
+    };
+
+    const optionClass = (selected: boolean) =>
+        `w-full text-left p-2 rounded-lg border-2 transition break-words ${selected ? 'border-[#6a329f] bg-[#f7e6f8]' : 'border-transparent hover:bg-gray-50'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-xl shadow-2xl max-w-2xl w-full space-y-4 max-h-[90vh] overflow-y-auto">
+                <h4 className="text-lg font-bold text-[#6a329f]">Someone else changed this place</h4>
+                <p className="text-sm text-gray-700">
+                    {differences.length > 0
+                        ? 'Pick which value to keep for each field that differs, then save the merged version.'
+                        : 'Their changes match yours, so saving again keeps your values.'}
+                </p>
+
+                {differences.length > 0 && (
+                    <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-start text-sm">
+                        <span />
+                        <span className="font-semibold text-gray-500 px-2">Your edit</span>
+                        <span className="font-semibold text-gray-500 px-2">Current version</span>
+                        {differences.map(field => (
+                            <React.Fragment key={field}>
+                                <span className="font-semibold text-gray-700 py-2">
+                                    {TRIP_PLACE_SCHEMA[field].label}
+                                    {!isSameValue(server[field], base[field]) && <span className="block text-xs font-normal text-yellow-700">changed by them</span>}
+                                </span>
+                                <button type="button" onClick={() => setChoices(prev => ({ ...prev, [field]: 'mine' }))} className={optionClass(choices[field] === 'mine')}>
+                                    {formatMergeValue(field, mine[field])}
+                                </button>
+                                <button type="button" onClick={() => setChoices(prev => ({ ...prev, [field]: 'server' }))} className={optionClass(choices[field] === 'server')}>
+                                    {formatMergeValue(field, server[field])}
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap justify-end gap-3">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition"
+                    >
+                        Keep Editing
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onUseServer}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-[#f7e6f8] text-[#6a329f] hover:bg-[#e3a1e9] transition"
+                    >
+                        Discard Mine
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-[#6a329f] text-white hover:bg-[#8e45b5] transition"
+                    >
+                        Save Merged
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface ItineraryFormProps {
+    trip: Trip;
+    refreshItinerary: () => void;
+    editingPlace: TripPlace | null; 
+    setEditingPlace: (place: TripPlace | null) => void;
+}
+
+const ItineraryForm: React.FC<ItineraryFormProps> = ({ trip, refreshItinerary, editingPlace, setEditingPlace }) => {
+    const safeFetch = useApiFetcher();
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [formData, setFormData] = useState<PlaceFormData>(initialTripPlaceFormData);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [conflict, setConflict] = useState<TripPlace | null>(null); // Newer server copy after a 409
+
+    const isEditing = !!editingPlace;
+    const dayOptions = Array.from({ length: getTripDayCount(trip) }, (_, i) => i + 1);
+
+    useEffect(() => {
+        if (editingPlace) {
+            const { id, tripId, ...rest } = editingPlace;
+            setFormData(rest);
+        } else {
+            setFormData(initialTripPlaceFormData);
+        }
+        setFieldErrors({});
+        setConflict(null);
+    }, [editingPlace]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
+
+        // Timing fields are optional, so an empty input clears them
+        if (name === 'startTime') {
+            setFormData(prev => ({ ...prev, startTime: value ? parseTimeString(value).startTime : null }));
+            return;
+        }
+        if (name === 'durationMinutes') {
+            setFormData(prev => ({ ...prev, durationMinutes: value ? parseInt(value, 10) : null }));
+            return;
+        }
+        if (name === 'estimatedCost') {
+            setFormData(prev => ({ ...prev, estimatedCost: value ? parseFloat(value) : null }));
+            return;
+        }
+        if (name === 'currency') {
+            setFormData(prev => ({ ...prev, currency: value.toUpperCase() }));
+            return;
+        }
+
+        setFormData(prev => ({
+            ...prev,
+            [name]: (type === 'number' && name !== 'day') ? parseFloat(value) : (name === 'day' ? parseInt(value) : value),
+        }));
+    };
+
+    // Saves the form, or a merged copy after a conflict. Edits send the version they are based on,
+    // so the API refuses them (409) if someone else saved the place in the meantime.
+    const savePlace = async (data: PlaceFormData, version?: number) => {
+        // Same schema the API enforces; it also drops fields such as createdAt from the payload
+        const validation = isEditing ? validateTripPlaceUpdate(data, editingPlace!) : validateTripPlaceInput(data);
+        setFieldErrors(validation.ok ? {} : validation.fields);
+        if (!validation.ok) return;
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            const method = isEditing ? 'PUT' : 'POST';
+            const endpoint = isEditing ? `/itinerary/${editingPlace!.id}` : `/trips/${trip.id}/itinerary`;
+
+            // POST and PUT require the itinerary:create / itinerary:update permissions on the backend
+            await safeFetch(endpoint, {
+                method: method,
+                body: JSON.stringify(validation.data),
+                headers: version !== undefined ? { 'If-Match': `"${version}"` } : undefined,
+            }, true);
+
+            setMessage(`Place ${isEditing ? 'updated' : 'added'} successfully!`);
+            refreshItinerary();
+
+            if (!isEditing) {
+                setFormData(initialTripPlaceFormData);
+            } else {
+                setEditingPlace(null);
+            }
+
+        } catch (error: unknown) {
+            const current = getConflictingPlace(error);
+            if (current) {
+                setConflict(current);
+                return;
+            }
+
+            setFieldErrors(error instanceof ClientRequestError ? error.fields || {} : {});
+            setMessage(`Failed to ${isEditing ? 'update' : 'add'} place: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        savePlace(formData, editingPlace?.version);
+    };
+
+    const handleSaveMerged = (merged: PlaceFormData) => {
+        const serverVersion = conflict!.version;
+        setConflict(null);
+        setFormData(merged);
+        savePlace(merged, serverVersion);
+    };
+
+    // Dropping the edit reloads the form with the current copy
+    const handleUseServer = () => {
+        const current = conflict!;
+        setConflict(null);
+        setEditingPlace(current);
+        setMessage('Loaded the latest version of this place.');
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50">
+            <h3 className="text-xl font-bold text-[#6a329f] mb-4 flex items-center">
+                {isEditing ? <Edit className="w-5 h-5 mr-2" /> : <PlusCircle className="w-5 h-5 mr-2" />}
+                {isEditing ? 'Edit Itinerary Place' : 'Add New Itinerary Place (CRUD)'}
+            </h3>
+            
+            <div className="grid grid-cols-2 gap-4">
+                <select name="day" value={formData.day} onChange={handleChange} required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
+                    {dayOptions.map(d => <option key={d} value={d}>Day {d}</option>)}
+                </select>
+                <input type="time" name="startTime" value={formData.startTime !== null ? formatStartTime(formData.startTime) : ''} onChange={handleChange} 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.day || fieldErrors.startTime} />
+
+            <div className="grid grid-cols-2 gap-4">
+                <input type="number" name="durationMinutes" value={formData.durationMinutes ?? ''} onChange={handleChange} placeholder="Duration (minutes, optional)" min="1" step="5" 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="text" name="timeLabel" value={formData.timeLabel || ''} onChange={handleChange} placeholder="Fuzzy slot (e.g., Evening)" required={formData.startTime === null} maxLength={TRIP_PLACE_SCHEMA.timeLabel.maxLength} 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.durationMinutes || fieldErrors.timeLabel} />
+
+            <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Location Name" required maxLength={TRIP_PLACE_SCHEMA.name.maxLength} 
+                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.name} />
+            <input type="text" name="purpose" value={formData.purpose} onChange={handleChange} placeholder="Purpose (e.g., Dinner, Shopping)" required maxLength={TRIP_PLACE_SCHEMA.purpose.maxLength} 
+                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.purpose} />
+            
+            <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notes (Optional directions or details)" rows={2} maxLength={TRIP_PLACE_SCHEMA.notes.maxLength}
+                      className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <FieldError message={fieldErrors.notes} />
+
+            <div className="grid grid-cols-3 gap-4">
+                <input type="number" name="estimatedCost" value={formData.estimatedCost ?? ''} onChange={handleChange} placeholder="Estimated cost (optional)" step="0.01" min={TRIP_PLACE_SCHEMA.estimatedCost.min} max={TRIP_PLACE_SCHEMA.estimatedCost.max} 
+                        className="col-span-2 p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="text" name="currency" value={formData.currency || ''} onChange={handleChange} placeholder="Currency (CNY)" required={formData.estimatedCost !== null} maxLength={3} 
+                        className="p-3 border rounded-lg uppercase focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.estimatedCost || fieldErrors.currency} />
+
+            <div className="grid grid-cols-2 gap-4">
+                <input type="number" name="latitude" value={formData.latitude} onChange={handleChange} placeholder="Latitude (0.0)" step="0.00001" min={TRIP_PLACE_SCHEMA.latitude.min} max={TRIP_PLACE_SCHEMA.latitude.max} required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="number" name="longitude" value={formData.longitude} onChange={handleChange} placeholder="Longitude (0.0)" step="0.00001" min={TRIP_PLACE_SCHEMA.longitude.min} max={TRIP_PLACE_SCHEMA.longitude.max} required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+            <FieldError message={fieldErrors.latitude || fieldErrors.longitude} />
+            
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    className={`flex-grow font-bold py-3 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
+                    disabled={loading}
+                >
+                    {loading ? 'Saving...' : (isEditing ? 'Save Changes' : 'Create New Place')}
+                </button>
+                {isEditing && (
+                    <button
+                        type="button"
+                        onClick={() => setEditingPlace(null)}
+                        className="font-bold py-3 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        disabled={loading}
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+            
+            {message && <p className={`mt-3 text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+
+            {conflict && editingPlace && (
+                <MergeDialog
+                    base={editingPlace}
+                    mine={formData}
+                    server={conflict}
+                    onSaveMerged={handleSaveMerged}
+                    onUseServer={handleUseServer}
+                    onCancel={() => setConflict(null)}
+                />
+            )}
+        </form>
+    );
+};
+
+interface TripFormProps {
+    currentTrip: Trip | null;
+    refreshTrips: (selectTripId?: string) => void;
+}
+
+// Converts an ISO timestamp into the yyyy-mm-dd value expected by <input type="date">
+const toDateInputValue = (iso: string): string => iso.slice(0, 10);
+
+const initialTripFormData = {
+    title: '',
+    tagline: '',
+    startDate: '',
+    endDate: '',
+    timezone: typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : 'UTC',
+    coverImage: '',
+};
+
+// TripForm lets the Admin create a new trip or edit the currently selected one
+const TripForm: React.FC<TripFormProps> = ({ currentTrip, refreshTrips }) => {
+    const safeFetch = useApiFetcher();
+    const [isEditing, setIsEditing] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [formData, setFormData] = useState(initialTripFormData);
+
+    useEffect(() => {
+        if (isEditing && currentTrip) {
+            setFormData({
+                title: currentTrip.title,
+                tagline: currentTrip.tagline || '',
+                startDate: toDateInputValue(currentTrip.startDate),
+                endDate: toDateInputValue(currentTrip.endDate),
+                timezone: currentTrip.timezone,
+                coverImage: currentTrip.coverImage || '',
+            });
+        } else {
+            setFormData(initialTripFormData);
+        }
+    }, [isEditing, currentTrip]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            const method = isEditing ? 'PUT' : 'POST';
+            const endpoint = isEditing ? `/trips/${currentTrip!.id}` : '/trips';
+
+            // Trip creation and edits require Admin role on the backend
+            const savedTrip: Trip = await safeFetch(endpoint, {
+                method: method,
+                body: JSON.stringify(formData)
+            }, true);
+
+            setMessage(`Trip ${isEditing ? 'updated' : 'created'} successfully!`);
+            refreshTrips(savedTrip.id);
+
+            if (!isEditing) {
+                setFormData(initialTripFormData);
+            } else {
+                setIsEditing(false);
+            }
+
+        } catch (error: any) {
+            setMessage(`Failed to ${isEditing ? 'update' : 'create'} trip: ${error.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-[#6a329f] flex items-center">
+                    {isEditing ? <Edit className="w-5 h-5 mr-2" /> : <Plane className="w-5 h-5 mr-2" />}
+                    {isEditing ? 'Edit Current Trip' : 'Plan a New Trip'}
+                </h3>
+                {currentTrip && !isEditing && (
+                    <button
+                        type="button"
+                        onClick={() => setIsEditing(true)}
+                        className="text-xs font-semibold px-3 py-1 rounded-md text-[#6a329f] hover:bg-[#f7e6f8] transition"
+                    >
+                        Edit "{currentTrip.title}"
+                    </button>
+                )}
+            </div>
+
+            <input type="text" name="title" value={formData.title} onChange={handleChange} placeholder="Trip Title (e.g., 我们的四天之旅 💜)" required 
+                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            <input type="text" name="tagline" value={formData.tagline} onChange={handleChange} placeholder="Login Tagline (Optional)" 
+                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+
+            <div className="grid grid-cols-2 gap-4">
+                <input type="date" name="startDate" value={formData.startDate} onChange={handleChange} required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="date" name="endDate" value={formData.endDate} onChange={handleChange} required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <input type="text" name="timezone" value={formData.timezone} onChange={handleChange} placeholder="Timezone (e.g., Asia/Tokyo)" required 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+                <input type="text" name="coverImage" value={formData.coverImage} onChange={handleChange} placeholder="Cover Image URL (Optional)" 
+                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            </div>
+
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    className={`flex-grow font-bold py-3 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
+                    disabled={loading}
+                >
+                    {loading ? 'Saving...' : (isEditing ? 'Save Changes' : 'Create Trip')}
+                </button>
+                {isEditing && (
+                    <button
+                        type="button"
+                        onClick={() => setIsEditing(false)}
+                        className="font-bold py-3 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        disabled={loading}
+                    >
+                        Cancel
                     </button>
-                </form>
-                {message && (
-                    <div className={`mt-4 text-sm font-semibold ${message.color}`}>
-                        {message.text}
-                    </div>
                 )}
             </div>
-        </div>
+
+            {message && <p className={`mt-3 text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </form>
     );
 };
 
-// --- 5. Trusted User Dashboard Components (Suggestion Form) ---
+// ItineraryManager is now mostly a data manager for Admin's CRUD actions
+const ItineraryManager: React.FC<{ tripId: string, itinerary: TripPlace[], refreshItinerary: () => void, setEditingPlace: (place: TripPlace | null) => void }> = ({ tripId, itinerary, refreshItinerary, setEditingPlace }) => {
+    const safeFetch = useApiFetcher();
+    const [placeToDelete, setPlaceToDelete] = useState<string | null>(null);
+    const [placeToPurge, setPlaceToPurge] = useState<TripPlace | null>(null);
+    const [deletedPlaces, setDeletedPlaces] = useState<TripPlace[]>([]);
+    const [showDeleted, setShowDeleted] = useState(false);
+    const [undoPlace, setUndoPlace] = useState<TripPlace | null>(null);
 
-const SuggestionForm: React.FC<{ refreshSuggestions: () => void, authSecret: string }> = ({ refreshSuggestions, authSecret }) => {
-    const safeFetch = useApiFetcher(authSecret);
-    const [title, setTitle] = useState('');
-    const [text, setText] = useState('');
-    const [loading, setLoading] = useState(false);
-    const [message, setMessage] = useState<{ text: string, color: string } | null>(null);
+    const days = useMemo(() => Array.from(new Set(itinerary.map(place => place.day))).sort((a, b) => a - b), [itinerary]);
+    const warningsByDay = useScheduleWarnings(tripId, days, itinerary);
+    const flaggedIds = new Set(Object.values(warningsByDay).flat().flatMap(warning => warning.placeIds));
+    const reorder = usePlaceReorder(tripId, itinerary, refreshItinerary);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!title || !text) return;
+    // One extra empty day at the end, so places can be dragged onto a day that has none yet
+    const dropDays = [...days, (days[days.length - 1] || 0) + 1];
 
-        setLoading(true);
-        setMessage(null);
+    // Soft-deleted places of this trip; reloaded whenever the itinerary changes
+    useEffect(() => {
+        safeFetch(`/itinerary/deleted?tripId=${tripId}`, { method: 'GET' }, true)
+            .then((data: TripPlace[]) => setDeletedPlaces(data))
+            .catch((error: any) => console.error(`Failed to load deleted places: ${error.message}`));
+    }, [safeFetch, tripId, itinerary]);
+
+    const handleDelete = async (id: string) => {
+        setPlaceToDelete(id);
+    };
+
+    const confirmDelete = async () => {
+        if (!placeToDelete) return;
 
         try {
-            const payload: Omit<Suggestion, 'id' | 'status' | 'createdAt'> = {
-                userId: USER_ID,
-                title,
-                text,
-            };
+            // DELETE requires Admin role on the backend; the place is only soft-deleted
+            const deletedPlace: TripPlace = await safeFetch(`/itinerary/${placeToDelete}`, { method: 'DELETE' }, true);
+            setUndoPlace(deletedPlace);
+            refreshItinerary();
+        } catch (error: any) {
+            console.error(`Failed to delete place: ${error.message}`);
+            // Show failure message (optional)
+        } finally {
+            setPlaceToDelete(null);
+        }
+    };
 
-            await safeFetch('/suggestions', {
-                method: 'POST',
-                body: JSON.stringify(payload)
-            }, true); // Requires authSecret but doesn't check role
+    const restorePlace = async (id: string) => {
+        try {
+            await safeFetch(`/itinerary/${id}/restore`, { method: 'POST' }, true);
+            setUndoPlace(prev => (prev && prev.id === id ? null : prev));
+            refreshItinerary();
+        } catch (error: any) {
+            console.error(`Failed to restore place: ${error.message}`);
+        }
+    };
 
-            setMessage({ text: '建议已成功发送！嘻嘻 ❤️', color: 'text-green-600' });
-            setTitle('');
-            setText('');
-            refreshSuggestions(); 
+    const confirmPurge = async () => {
+        if (!placeToPurge) return;
 
+        try {
+            // Removes the place, its bookings and its attachment files for good
+            await safeFetch(`/itinerary/${placeToPurge.id}?permanent=true`, { method: 'DELETE' }, true);
+            setDeletedPlaces(prev => prev.filter(place => place.id !== placeToPurge.id));
         } catch (error: any) {
-            console.error("Submission failed:", error);
-            setMessage({ text: error.message || '提交失败。请再试一次。😭😭', color: 'text-red-600' });
+            console.error(`Failed to delete place permanently: ${error.message}`);
         } finally {
-            setLoading(false);
+            setPlaceToPurge(null);
         }
     };
 
+    const dismissUndo = useCallback(() => setUndoPlace(null), []);
+    
     return (
-        <div className="p-4 border-t border-gray-100 bg-[#f7e6f8] rounded-b-xl">
-            <h2 className="text-lg font-bold text-[#6a329f] mb-3 flex items-center">
-                <Heart className="w-5 h-5 mr-2 text-[#e3a1e9]" />
-                提交你最疯狂的建议 😳😳
-            </h2>
-            <form onSubmit={handleSubmit} className="space-y-3">
-                <input 
-                    type="text" 
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    placeholder="建议标题（例如：猫咖啡馆）" 
-                    required 
-                    className="w-full p-2 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition"
-                    disabled={loading}
+        <>
+            <div className="space-y-4">
+                <h3 className="text-xl font-bold text-[#6a329f] mb-4 flex items-center">
+                    <ListOrdered className="w-5 h-5 mr-2" /> All Itinerary Items
+                </h3>
+
+                {days.map(day => (
+                    <ScheduleWarningList key={day} warnings={warningsByDay[day] || []} title={`Day ${day} schedule check`} />
+                ))}
+                
+                {itinerary.length > 0 && <ReorderControls reorder={reorder} />}
+
+                <div className="max-h-[300px] overflow-y-auto space-y-3 p-2 bg-gray-50 rounded-lg">
+                    {itinerary.length === 0 && <p className="text-center text-gray-500 py-4">No places in the itinerary yet.</p>}
+                    
+                    {itinerary.length > 0 && dropDays.map(day => (
+                        <div
+                            key={day}
+                            {...reorder.dayProps(day)}
+                            className={`space-y-2 p-1 rounded-lg transition ${reorder.dropTarget === `day-${day}` ? 'bg-[#f7e6f8]' : ''}`}
+                        >
+                            <p className="text-xs font-bold uppercase tracking-wide text-gray-500">
+                                Day {day}
+                                {!days.includes(day) && <span className="font-normal normal-case ml-1">(drop a place here to start this day)</span>}
+                            </p>
+                            {itinerary.filter(place => place.day === day).map(place => (
+                                <div
+                                    key={place.id}
+                                    {...reorder.placeProps(place)}
+                                    className={`p-3 bg-white rounded-lg shadow-sm flex justify-between items-center border-l-4 border-[#e3a1e9] cursor-move transition ${reorder.draggedId === place.id ? 'opacity-50' : ''} ${reorder.dropTarget === place.id ? 'border-t-2 border-t-[#6a329f]' : ''}`}
+                                >
+                                    <div className="flex items-center">
+                                        <GripVertical className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                                        <div>
+                                            <p className="font-semibold text-sm flex items-center">
+                                                {formatPlaceTime(place)}
+                                                {flaggedIds.has(place.id) && <AlertTriangle className="w-4 h-4 ml-2 text-yellow-600" />}
+                                            </p>
+                                            <p className="font-bold text-lg">{place.name}</p>
+                                        </div>
+                                    </div>
+                                    <div className="space-x-2 flex">
+                                        <button
+                                            onClick={() => setEditingPlace(place)}
+                                            className="p-2 rounded-full text-blue-600 hover:bg-blue-50 transition"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(place.id)}
+                                            className="p-2 rounded-full text-red-600 hover:bg-red-50 transition"
+                                            title="Admin only action"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Recently Deleted */}
+                {deletedPlaces.length > 0 && (
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                        <button
+                            onClick={() => setShowDeleted(prev => !prev)}
+                            className="w-full flex items-center justify-between text-sm font-semibold text-gray-600 hover:text-[#6a329f] transition"
+                        >
+                            <span className="flex items-center"><Trash2 className="w-4 h-4 mr-2" /> Recently deleted ({deletedPlaces.length})</span>
+                            <span>{showDeleted ? 'Hide' : 'Show'}</span>
+                        </button>
+                        {showDeleted && (
+                            <div className="mt-2 space-y-2">
+                                {deletedPlaces.map(place => (
+                                    <div key={place.id} className="p-2 bg-white rounded-lg flex justify-between items-center text-sm opacity-80">
+                                        <div>
+                                            <p className="font-semibold line-through">{place.name}</p>
+                                            <p className="text-xs text-gray-500">
+                                                Day {place.day} · {formatPlaceTime(place)} · deleted {new Date(place.deletedAt!).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <div className="flex space-x-2">
+                                            <button
+                                                onClick={() => restorePlace(place.id)}
+                                                className="flex items-center text-xs font-semibold px-3 py-1 rounded-md text-[#6a329f] bg-[#f7e6f8] hover:bg-[#e3a1e9] transition"
+                                            >
+                                                <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                                            </button>
+                                            <button
+                                                onClick={() => setPlaceToPurge(place)}
+                                                className="flex items-center text-xs font-semibold px-3 py-1 rounded-md text-red-700 bg-red-100 hover:bg-red-200 transition"
+                                            >
+                                                <Trash2 className="w-3 h-3 mr-1" /> Delete forever
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+            {placeToDelete && (
+                <MessageDialog
+                    message="Are you sure you want to delete this itinerary place? It moves to Recently deleted, where the Admin can restore it."
+                    onConfirm={confirmDelete}
+                    onCancel={() => setPlaceToDelete(null)}
                 />
-                <textarea 
-                    rows={2} 
-                    value={text}
-                    onChange={(e) => setText(e.target.value)}
-                    placeholder="我一定要去这里的理由！" 
-                    required 
-                    className="w-full p-2 border border-[#e3a1e9] rounded-lg focus:ring-2 focus:ring-[#6a329f] focus:border-transparent transition"
-                    disabled={loading}
+            )}
+            {placeToPurge && (
+                <MessageDialog
+                    message={`Delete "${placeToPurge.name}" for good? Its bookings, photos and files are removed too and cannot be restored.`}
+                    onConfirm={confirmPurge}
+                    onCancel={() => setPlaceToPurge(null)}
                 />
-                <button 
-                    type="submit" 
-                    className={`w-full font-bold py-2 rounded-lg shadow-md transition transform ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff] hover:scale-[1.01]'}`}
-                    disabled={loading}
-                >
-                    {loading ? '发送中...' : '发送到信箱 💌'}
-                </button>
-            </form>
-            {message && (
-                <div className={`mt-3 text-sm text-center font-semibold ${message.color}`}>
-                    {message.text}
-                </div>
             )}
-        </div>
+            {undoPlace && (
+                <UndoToast
+                    message={`Deleted "${undoPlace.name}".`}
+                    onUndo={() => restorePlace(undoPlace.id)}
+                    onDismiss={dismissUndo}
+                />
+            )}
+        </>
     );
 };
 
-// --- 6. Admin Panel Components (CRUD & Inbox) ---
-
-const SuggestionInbox: React.FC<{ authSecret: string, refreshTrigger: number }> = ({ authSecret, refreshTrigger }) => {
-    const safeFetch = useApiFetcher(authSecret);
-    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+// Bulk backup and restore of the current trip's places (Admin only)
+const ImportExportPanel: React.FC<{ trip: Trip, refreshItinerary: () => void }> = ({ trip, refreshItinerary }) => {
+    const safeFetch = useApiFetcher();
+    const [file, setFile] = useState<{ name: string, format: 'json' | 'csv', content: string } | null>(null);
+    const [report, setReport] = useState<ImportReport | null>(null);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [filter, setFilter] = useState<SuggestionStatus | 'ALL'>('ALL');
+    const [message, setMessage] = useState<string | null>(null);
 
-    const fetchSuggestions = useCallback(async () => {
-        setLoading(true);
-        setError(null);
-        
-        try {
-            // This endpoint requires Admin role on the backend
-            const endpoint = filter === 'ALL' ? '/suggestions' : `/suggestions?status=${filter.toLowerCase()}`;
-            const data: Suggestion[] = await safeFetch(endpoint, { method: 'GET' }, true); 
-            setSuggestions(data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
-        } catch (err: any) {
-            setError(err.message || 'Failed to fetch inbox. (Hint: Only Admin can view this list)');
-            setSuggestions([]); // Clear on error
-        } finally {
-            setLoading(false);
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        setReport(null);
+        setMessage(null);
+
+        if (!selected) {
+            setFile(null);
+            return;
         }
-    }, [safeFetch, filter, refreshTrigger]);
+        const format = selected.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+        setFile({ name: selected.name, format, content: await selected.text() });
+    };
 
-    useEffect(() => {
-        fetchSuggestions();
-    }, [fetchSuggestions]);
+    // Dry runs only report; the real import is offered once a dry run found no invalid rows
+    const runImport = async (dryRun: boolean) => {
+        if (!file) return;
 
+        setLoading(true);
+        setMessage(null);
 
-    const updateStatus = async (id: string, newStatus: SuggestionStatus) => {
         try {
-            await safeFetch(`/suggestions/${id}`, {
-                method: 'PATCH',
-                body: JSON.stringify({ status: newStatus.toLowerCase() })
+            const result: { created: number, report: ImportReport } = await safeFetch(`/itinerary/import?tripId=${trip.id}`, {
+                method: 'POST',
+                body: JSON.stringify({ format: file.format, content: file.content, dryRun })
             }, true);
-            
-            // Optimistically update UI
-            setSuggestions(prev => prev.map(s => 
-                s.id === id ? { ...s, status: newStatus } : s
-            ).filter(s => filter === 'ALL' || s.status === filter));
 
+            setReport(result.report);
+            if (!dryRun) {
+                setMessage(`Imported ${result.created} place(s) into ${trip.title}.`);
+                setFile(null);
+                refreshItinerary();
+            }
         } catch (error: any) {
-            // Replace alert with message state if needed, or rely on fetcher error
-            console.error(`Failed to update status: ${error.message}`);
+            setMessage(`Import failed: ${error.message}`);
+        } finally {
+            setLoading(false);
         }
     };
 
-    if (loading) return <div className="text-center py-10"><Loader2 className="w-8 h-8 mx-auto animate-spin text-[#6a329f]" /></div>;
-    if (error) return <div className="text-center text-red-500 py-10 font-medium"><p>{error}</p><button onClick={fetchSuggestions} className="text-xs text-blue-500 mt-2 hover:underline">Retry</button></div>;
+    const problemRows = report ? report.rows.filter(row => row.status !== 'valid') : [];
+    const canCommit = !!file && !!report && report.invalidCount === 0 && report.validCount > 0;
 
     return (
         <div className="space-y-4">
-            <div className="flex justify-around bg-gray-100 p-2 rounded-lg">
-                {(['ALL', SuggestionStatus.PENDING, SuggestionStatus.APPROVED, SuggestionStatus.REJECTED] as const).map(s => (
+            <div className="p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50">
+                <h3 className="text-lg font-bold text-[#6a329f] mb-2">Export</h3>
+                <p className="text-sm text-gray-600 mb-3">Download every place of {trip.title} as a backup, or to copy the plan into another trip.</p>
+                <div className="flex space-x-2">
+                    {(['json', 'csv'] as const).map(format => (
+                        <a
+                            key={format}
+                            href={`${API_BASE_URL}/itinerary/export?format=${format}&tripId=${trip.id}`}
+                            className="text-sm font-semibold px-4 py-2 rounded-lg text-white bg-[#6a329f] hover:bg-[#8e45b5] transition"
+                        >
+                            {format.toUpperCase()}
+                        </a>
+                    ))}
+                </div>
+            </div>
+
+            <div className="p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50 space-y-3">
+                <h3 className="text-lg font-bold text-[#6a329f]">Import</h3>
+                <p className="text-sm text-gray-600">
+                    JSON or CSV with the export columns (day, startTime, durationMinutes, timeLabel, name, purpose, notes, latitude, longitude).
+                    Duplicates of existing places are skipped.
+                </p>
+                <input type="file" accept=".json,.csv" onChange={handleFileChange} disabled={loading}
+                       className="w-full text-sm p-2 border rounded-lg" />
+
+                <div className="flex space-x-2">
                     <button
-                        key={s}
-                        onClick={() => setFilter(s)}
-                        className={`text-sm font-semibold px-3 py-1 rounded-full transition ${filter === s ? 'bg-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-600 hover:bg-gray-200'}`}
+                        onClick={() => runImport(true)}
+                        disabled={!file || loading}
+                        className="flex-grow font-semibold py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition disabled:opacity-50"
                     >
-                        {s} ({suggestions.filter(sug => s === 'ALL' || sug.status === s).length})
+                        {loading ? 'Checking...' : 'Check File (Dry Run)'}
                     </button>
-                ))}
-            </div>
-            
-            {suggestions.length === 0 && <p className="text-center text-gray-500 py-4">No suggestions found for this filter.</p>}
+                    <button
+                        onClick={() => runImport(false)}
+                        disabled={!canCommit || loading}
+                        className="flex-grow font-semibold py-2 rounded-lg bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff] transition disabled:opacity-50"
+                    >
+                        Import {report && canCommit ? `${report.validCount} Place(s)` : ''}
+                    </button>
+                </div>
 
-            <div className="space-y-4">
-                {suggestions.map(s => (
-                    <div key={s.id} className={`p-4 rounded-xl shadow-md border-l-4 ${s.status === 'PENDING' ? 'border-yellow-500' : s.status === 'APPROVED' ? 'border-green-500' : 'border-red-500'} bg-white`}>
-                        <div className="flex justify-between items-center">
-                            <h4 className="font-bold text-lg">{s.title}</h4>
-                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${s.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' : s.status === 'APPROVED' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                                {s.status}
-                            </span>
-                        </div>
-                        <p className="text-sm text-gray-700 mt-2">{s.text}</p>
-                        <p className="text-xs text-gray-400 mt-1">By User ID: {s.userId.substring(0, 8)}...</p>
-                        
-                        <div className="mt-3 space-x-2 text-right">
-                            {/* R/U/D allowed for Admin */}
-                            {s.status !== 'APPROVED' && (
-                                <button 
-                                    onClick={() => updateStatus(s.id, SuggestionStatus.APPROVED)} 
-                                    className="text-xs font-semibold px-3 py-1 rounded-md text-green-700 bg-green-100 hover:bg-green-200 transition">
-                                    Approve
-                                </button>
-                            )}
-                            {s.status !== 'REJECTED' && (
-                                <button 
-                                    onClick={() => updateStatus(s.id, SuggestionStatus.REJECTED)} 
-                                    className="text-xs font-semibold px-3 py-1 rounded-md text-red-700 bg-red-100 hover:bg-red-200 transition">
-                                    Reject
-                                </button>
-                            )}
-                        </div>
+                {report && (
+                    <div className="text-sm space-y-2">
+                        <p className="font-semibold">
+                            <span className="text-green-600">{report.validCount} valid</span> ·{' '}
+                            <span className="text-red-600">{report.invalidCount} invalid</span> ·{' '}
+                            <span className="text-yellow-700">{report.duplicateCount} duplicate</span>
+                        </p>
+                        {problemRows.length > 0 && (
+                            <ul className="max-h-64 overflow-y-auto divide-y border rounded-lg">
+                                {problemRows.map(row => (
+                                    <li key={row.row} className="p-2">
+                                        <span className="font-semibold">Row {row.row}{row.name ? ` (${row.name})` : ''}: </span>
+                                        {row.status === 'duplicate'
+                                            ? <span className="text-yellow-700">duplicate of {row.duplicateOf === 'existing' ? 'an existing place' : `row ${row.duplicateOf}`}, will be skipped</span>
+                                            : <span className="text-red-600">{Object.values(row.errors || {}).join(' ')}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
-                ))}
+                )}
+
+                {message && <p className={`text-sm text-center font-semibold ${message.includes('failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
             </div>
         </div>
     );
 };
 
-interface ItineraryFormProps {
-    authSecret: string;
-    refreshItinerary: () => void;
-    editingPlace: TripPlace | null; 
-    setEditingPlace: (place: TripPlace | null) => void;
+// A draft being prepared in the map import screen
+interface DraftRow extends DraftPlace {
+    key: number;
+    include: boolean;
+    day: number;
+    startTime: number | null;
+    timeLabel: string;
+    purpose: string;
+    error?: string;
 }
 
-const ItineraryForm: React.FC<ItineraryFormProps> = ({ authSecret, refreshItinerary, editingPlace, setEditingPlace }) => {
-    const safeFetch = useApiFetcher(authSecret);
+// Turns waypoints exported from mapping apps into itinerary places (Admin only)
+const GeoImportPanel: React.FC<{ trip: Trip, refreshItinerary: () => void }> = ({ trip, refreshItinerary }) => {
+    const safeFetch = useApiFetcher();
+    const [drafts, setDrafts] = useState<DraftRow[]>([]);
+    const [defaults, setDefaults] = useState({ day: 1, purpose: '' });
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState<string | null>(null);
-    const [formData, setFormData] = useState<Omit<TripPlace, 'id'>>(initialTripPlaceFormData);
 
-    const isEditing = !!editingPlace;
+    const dayOptions = Array.from({ length: getTripDayCount(trip) }, (_, i) => i + 1);
+    const selectedCount = drafts.filter(draft => draft.include).length;
 
-    useEffect(() => {
-        if (editingPlace) {
-            const { id, ...rest } = editingPlace;
-            setFormData(rest);
-        } else {
-            setFormData(initialTripPlaceFormData);
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const extension = file.name.toLowerCase().split('.').pop();
+        const format = extension === 'gpx' ? 'gpx' : extension === 'kml' ? 'kml' : 'geojson';
+
+        setLoading(true);
+        setMessage(null);
+
+        try {
+            const result: { drafts: DraftPlace[], skipped: number } = await safeFetch('/itinerary/drafts', {
+                method: 'POST',
+                body: JSON.stringify({ format, content: await file.text() })
+            }, true);
+
+            setDrafts(result.drafts.map((draft, i) => ({
+                ...draft,
+                key: i,
+                include: true,
+                day: defaults.day,
+                startTime: null,
+                timeLabel: '',
+                purpose: defaults.purpose,
+            })));
+            setMessage(`Found ${result.drafts.length} place(s)${result.skipped ? `, skipped ${result.skipped} without valid coordinates` : ''}.`);
+        } catch (error: any) {
+            setMessage(`Failed to read file: ${error.message}`);
+        } finally {
+            setLoading(false);
+            e.target.value = '';
         }
-    }, [editingPlace]);
+    };
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-        const { name, value, type } = e.target;
-        setFormData(prev => ({
-            ...prev,
-            [name]: (type === 'number' && name !== 'day') ? parseFloat(value) : (name === 'day' ? parseInt(value) : value),
-        }));
+    const updateDraft = (key: number, changes: Partial<DraftRow>) => {
+        setDrafts(prev => prev.map(draft => draft.key === key ? { ...draft, ...changes, error: undefined } : draft));
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const applyDefaultsToAll = () => {
+        setDrafts(prev => prev.map(draft => ({ ...draft, day: defaults.day, purpose: defaults.purpose || draft.purpose })));
+    };
 
+    // Each selected draft is created like a place from the Itinerary Form; failures stay in the list
+    const handleSave = async () => {
         setLoading(true);
         setMessage(null);
 
-        try {
-            const method = isEditing ? 'PUT' : 'POST';
-            const endpoint = isEditing ? `/itinerary/${editingPlace!.id}` : '/itinerary';
-
-            // POST and PUT require Admin role on the backend
-            await safeFetch(endpoint, {
-                method: method,
-                body: JSON.stringify(formData)
-            }, true);
+        const remaining: DraftRow[] = [];
+        let saved = 0;
 
-            setMessage(`Place ${isEditing ? 'updated' : 'added'} successfully!`);
-            refreshItinerary();
+        for (const draft of drafts) {
+            if (!draft.include) {
+                remaining.push(draft);
+                continue;
+            }
 
-            if (!isEditing) {
-                setFormData(initialTripPlaceFormData);
-            } else {
-                setEditingPlace(null);
+            const { key, include, error, ...place } = draft;
+            const validation = validateTripPlaceInput(place);
+            if (!validation.ok) {
+                remaining.push({ ...draft, error: Object.values(validation.fields).join(' ') });
+                continue;
             }
 
-        } catch (error: any) {
-            setMessage(`Failed to ${isEditing ? 'update' : 'add'} place: ${error.message}`);
-        } finally {
-            setLoading(false);
+            try {
+                await safeFetch(`/trips/${trip.id}/itinerary`, {
+                    method: 'POST',
+                    body: JSON.stringify(validation.data)
+                }, true);
+                saved++;
+            } catch (saveError: any) {
+                remaining.push({ ...draft, error: saveError.message });
+            }
         }
+
+        setDrafts(remaining);
+        setMessage(`Saved ${saved} place(s).${remaining.some(draft => draft.error) ? ' Some drafts need attention.' : ''}`);
+        setLoading(false);
+        if (saved > 0) refreshItinerary();
     };
 
-    return (
-        <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50">
-            <h3 className="text-xl font-bold text-[#6a329f] mb-4 flex items-center">
-                {isEditing ? <Edit className="w-5 h-5 mr-2" /> : <PlusCircle className="w-5 h-5 mr-2" />}
-                {isEditing ? 'Edit Itinerary Place' : 'Add New Itinerary Place (CRUD)'}
-            </h3>
-            
-            <div className="grid grid-cols-2 gap-4">
-                <select name="day" value={formData.day} onChange={handleChange} required 
-                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]">
-                    {[1, 2, 3, 4].map(d => <option key={d} value={d}>Day {d}</option>)}
-                </select>
-                <input type="time" name="time" value={formData.time} onChange={handleChange} required 
-                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+    return (
+        <div className="space-y-4">
+            <div className="p-4 bg-white rounded-xl shadow-lg border border-[#e3a1e9]/50 space-y-3">
+                <h3 className="text-lg font-bold text-[#6a329f]">Import from a Map App</h3>
+                <p className="text-sm text-gray-600">
+                    Upload GPX waypoints, KML placemarks or GeoJSON points. Each one becomes a draft with its name,
+                    coordinates and description; choose a day, time and purpose before saving.
+                </p>
+                <input type="file" accept=".gpx,.kml,.geojson,.json" onChange={handleFileChange} disabled={loading}
+                       className="w-full text-sm p-2 border rounded-lg" />
+
+                {drafts.length > 0 && (
+                    <div className="flex items-center gap-2 text-sm">
+                        <select value={defaults.day} onChange={(e) => setDefaults(prev => ({ ...prev, day: parseInt(e.target.value, 10) }))}
+                                className="p-2 border rounded-lg">
+                            {dayOptions.map(d => <option key={d} value={d}>Day {d}</option>)}
+                        </select>
+                        <input type="text" value={defaults.purpose} onChange={(e) => setDefaults(prev => ({ ...prev, purpose: e.target.value }))}
+                               placeholder="Purpose" className="flex-grow p-2 border rounded-lg" />
+                        <button onClick={applyDefaultsToAll} className="font-semibold px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition">
+                            Apply to All
+                        </button>
+                    </div>
+                )}
             </div>
 
-            <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Location Name" required 
-                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
-            <input type="text" name="purpose" value={formData.purpose} onChange={handleChange} placeholder="Purpose (e.g., Dinner, Shopping)" required 
-                    className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
-            
-            <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notes (Optional directions or details)" rows={2}
-                      className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
+            {drafts.map(draft => (
+                <div key={draft.key} className={`p-3 bg-white rounded-xl shadow-sm border ${draft.error ? 'border-red-300' : 'border-[#e3a1e9]/50'} ${draft.include ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-2">
+                        <input type="checkbox" checked={draft.include} onChange={(e) => updateDraft(draft.key, { include: e.target.checked })} />
+                        <input type="text" value={draft.name} onChange={(e) => updateDraft(draft.key, { name: e.target.value })}
+                               maxLength={TRIP_PLACE_SCHEMA.name.maxLength} className="flex-grow p-1 font-bold border-b focus:outline-none" />
+                        <span className="text-xs text-gray-500">{draft.latitude.toFixed(5)}, {draft.longitude.toFixed(5)}</span>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2 mt-2 text-sm">
+                        <select value={draft.day} onChange={(e) => updateDraft(draft.key, { day: parseInt(e.target.value, 10) })}
+                                className="p-2 border rounded-lg">
+                            {dayOptions.map(d => <option key={d} value={d}>Day {d}</option>)}
+                        </select>
+                        <input type="time" value={draft.startTime !== null ? formatStartTime(draft.startTime) : ''}
+                               onChange={(e) => updateDraft(draft.key, { startTime: e.target.value ? parseTimeString(e.target.value).startTime : null })}
+                               className="p-2 border rounded-lg" />
+                        <input type="text" value={draft.timeLabel} onChange={(e) => updateDraft(draft.key, { timeLabel: e.target.value })}
+                               placeholder="or slot (Evening)" className="p-2 border rounded-lg" />
+                        <input type="text" value={draft.purpose} onChange={(e) => updateDraft(draft.key, { purpose: e.target.value })}
+                               placeholder="Purpose" className="p-2 border rounded-lg" />
+                    </div>
+                    {draft.notes && <p className="text-xs text-gray-600 mt-2 line-clamp-2">{draft.notes}</p>}
+                    {draft.error && <p className="text-xs font-semibold text-red-600 mt-1">{draft.error}</p>}
+                </div>
+            ))}
 
-            <div className="grid grid-cols-2 gap-4">
-                <input type="number" name="latitude" value={formData.latitude} onChange={handleChange} placeholder="Latitude (0.0)" step="0.00001" required 
-                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
-                <input type="number" name="longitude" value={formData.longitude} onChange={handleChange} placeholder="Longitude (0.0)" step="0.00001" required 
-                        className="p-3 border rounded-lg focus:ring-2 focus:ring-[#e3a1e9]" />
-            </div>
-            
-            <div className="flex space-x-2">
+            {drafts.length > 0 && (
                 <button
-                    type="submit"
-                    className={`flex-grow font-bold py-3 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'}`}
-                    disabled={loading}
+                    onClick={handleSave}
+                    disabled={loading || selectedCount === 0}
+                    className={`w-full font-bold py-3 rounded-lg shadow-md transition ${loading ? 'bg-gray-400' : 'bg-[#e3a1e9] text-[#2a2a2a] hover:bg-[#ffc1ff]'} disabled:opacity-50`}
                 >
-                    {loading ? 'Saving...' : (isEditing ? 'Save Changes' : 'Create New Place')}
+                    {loading ? 'Saving...' : `Save ${selectedCount} Place(s) to ${trip.title}`}
                 </button>
-                {isEditing && (
-                    <button
-                        type="button"
-                        onClick={() => setEditingPlace(null)}
-                        className="font-bold py-3 px-4 rounded-lg shadow-md transition bg-gray-200 text-gray-700 hover:bg-gray-300"
-                        disabled={loading}
-                    >
-                        Cancel
-                    </button>
-                )}
-            </div>
-            
-            {message && <p className={`mt-3 text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
-        </form>
+            )}
+
+            {message && <p className={`text-sm text-center font-semibold ${message.includes('Failed') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+        </div>
     );
 };
 
-// ItineraryManager is now mostly a data manager for Admin's CRUD actions
-const ItineraryManager: React.FC<{ authSecret: string, itinerary: TripPlace[], refreshItinerary: () => void, setEditingPlace: (place: TripPlace | null) => void }> = ({ authSecret, itinerary, refreshItinerary, setEditingPlace }) => {
-    const safeFetch = useApiFetcher(authSecret);
-    const [placeToDelete, setPlaceToDelete] = useState<string | null>(null);
+// Short readable form of an audited value
+const formatAuditValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
 
-    const handleDelete = async (id: string) => {
-        setPlaceToDelete(id);
-    };
+const AUDIT_ACTION_CLASSES: Record<AuditEvent['action'], string> = {
+    create: 'bg-green-100 text-green-800',
+    update: 'bg-blue-100 text-blue-800',
+    delete: 'bg-red-100 text-red-800',
+    restore: 'bg-purple-100 text-purple-800',
+    status: 'bg-yellow-100 text-yellow-800',
+};
 
-    const confirmDelete = async () => {
-        if (!placeToDelete) return;
+// Who changed what in the current trip, newest first (Admin only)
+const AuditHistory: React.FC<{ tripId: string, refreshTrigger: number }> = ({ tripId, refreshTrigger }) => {
+    const safeFetch = useApiFetcher();
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [filters, setFilters] = useState({ entityType: '', action: '', actorRole: '' });
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-        try {
-            // DELETE requires Admin role on the backend
-            await safeFetch(`/itinerary/${placeToDelete}`, { method: 'DELETE' }, true);
-            refreshItinerary();
-            // Show success message (optional)
-        } catch (error: any) {
-            console.error(`Failed to delete place: ${error.message}`);
-            // Show failure message (optional)
-        } finally {
-            setPlaceToDelete(null);
-        }
+    useEffect(() => {
+        const params = new URLSearchParams({ tripId });
+        Object.entries(filters).forEach(([key, value]) => value && params.set(key, value));
+
+        setLoading(true);
+        setError(null);
+
+        safeFetch(`/audit?${params.toString()}`, { method: 'GET' }, true)
+            .then((data: AuditEvent[]) => setEvents(data))
+            .catch((err: any) => setError(`Failed to load history: ${err.message}`))
+            .finally(() => setLoading(false));
+    }, [safeFetch, tripId, filters, refreshTrigger]);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
     };
-    
+
     return (
-        <>
-            <div className="space-y-4">
-                <h3 className="text-xl font-bold text-[#6a329f] mb-4 flex items-center">
-                    <ListOrdered className="w-5 h-5 mr-2" /> All Itinerary Items
-                </h3>
-                
-                <div className="max-h-[300px] overflow-y-auto space-y-3 p-2 bg-gray-50 rounded-lg">
-                    {itinerary.length === 0 && <p className="text-center text-gray-500 py-4">No places in the itinerary yet.</p>}
-                    
-                    {itinerary.map(place => (
-                        <div key={place.id} className="p-3 bg-white rounded-lg shadow-sm flex justify-between items-center border-l-4 border-[#e3a1e9]">
-                            <div>
-                                <p className="font-semibold text-sm">{place.time} (Day {place.day})</p>
-                                <p className="font-bold text-lg">{place.name}</p>
-                            </div>
-                            <div className="space-x-2 flex">
-                                <button
-                                    onClick={() => setEditingPlace(place)}
-                                    className="p-2 rounded-full text-blue-600 hover:bg-blue-50 transition"
-                                >
-                                    <Edit className="w-4 h-4" />
-                                </button>
-                                <button
-                                    onClick={() => handleDelete(place.id)}
-                                    className="p-2 rounded-full text-red-600 hover:bg-red-50 transition"
-                                    title="Admin only action"
-                                >
-                                    <Trash2 className="w-4 h-4" />
-                                </button>
-                            </div>
-                        </div>
-                    ))}
-                </div>
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+                <select name="entityType" value={filters.entityType} onChange={handleFilterChange} className="p-2 border rounded-lg">
+                    <option value="">All records</option>
+                    <option value="TripPlace">Places</option>
+                    <option value="Suggestion">Suggestions</option>
+                    <option value="SuggestionComment">Comments</option>
+                    <option value="Expense">Expenses</option>
+                    <option value="RateSnapshot">Exchange rates</option>
+                    <option value="ChecklistItem">Checklist</option>
+                    <option value="Booking">Bookings</option>
+                    <option value="Attachment">Attachments</option>
+                    <option value="Trip">Trip</option>
+                </select>
+                <select name="action" value={filters.action} onChange={handleFilterChange} className="p-2 border rounded-lg">
+                    <option value="">All actions</option>
+                    <option value="create">Created</option>
+                    <option value="update">Updated</option>
+                    <option value="delete">Deleted</option>
+                    <option value="restore">Restored</option>
+                    <option value="status">Status changed</option>
+                </select>
+                <select name="actorRole" value={filters.actorRole} onChange={handleFilterChange} className="p-2 border rounded-lg">
+                    <option value="">Everyone</option>
+                    <option value="admin">BF (Admin)</option>
+                    <option value="trusted">BAE (Trusted)</option>
+                </select>
             </div>
-            {placeToDelete && (
-                <MessageDialog
-                    message="Are you sure you want to delete this itinerary place? This action is permanent and requires Admin privileges."
-                    onConfirm={confirmDelete}
-                    onCancel={() => setPlaceToDelete(null)}
-                />
-            )}
-        </>
+
+            {loading && <div className="text-center py-4"><Loader2 className="w-6 h-6 mx-auto animate-spin text-[#6a329f]" /></div>}
+            {error && <p className="text-center text-sm text-red-500">{error}</p>}
+            {!loading && !error && events.length === 0 && <p className="text-center text-sm text-gray-500 py-4">No changes recorded yet.</p>}
+
+            {!loading && events.map(event => {
+                const label = event.changes.name || event.changes.title || event.changes.description;
+                const subject = label ? formatAuditValue(label.after ?? label.before) : event.entityId;
+
+                return (
+                    <div key={event.id} className="p-3 bg-white rounded-xl shadow-sm border border-[#e3a1e9]/50 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${AUDIT_ACTION_CLASSES[event.action]}`}>{event.action}</span>
+                            <span className="font-semibold">{event.entityType}</span>
+                            <span className="text-gray-700 truncate">{subject}</span>
+                            <span className="ml-auto text-xs text-gray-500">
+                                {event.actorRole === 'admin' ? 'BF' : event.actorRole === 'trusted' ? 'BAE' : event.actorRole} · {new Date(event.createdAt).toLocaleString()}
+                            </span>
+                        </div>
+                        {(event.action === 'update' || event.action === 'status') && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-gray-600">
+                                {Object.entries(event.changes).map(([field, change]) => (
+                                    <li key={field}>
+                                        <span className="font-semibold">{field}:</span> {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
     );
 };
 
+interface AdminPanelProps {
+    refreshItinerary: () => void;
+    refreshSuggestions: () => void;
+    suggestionsVersion: number;
+    expensesVersion: number;            // Bumped on live expense changes
+    checklistVersion: number;           // Bumped on live checklist changes
+    bookingsVersion: number;            // Bumped on live booking changes
+    attachmentsVersion: number;         // Bumped on live attachment changes
+    refreshTrips: (selectTripId?: string) => void;
+    itinerary: TripPlace[];
+    trips: Trip[];
+    currentTrip: Trip | null;
+    onSelectTrip: (tripId: string) => void;
+}
+
 // AdminPanel for Admin-specific CRUD/RUD actions
-const AdminPanel: React.FC<{ refreshItinerary: () => void, refreshSuggestions: () => void, authSecret: string, itinerary: TripPlace[] }> = ({ refreshItinerary, refreshSuggestions, authSecret, itinerary }) => {
-    const [activeTab, setActiveTab] = useState<'form' | 'manager' | 'inbox'>('form');
+const AdminPanel: React.FC<AdminPanelProps> = ({ refreshItinerary, refreshSuggestions, suggestionsVersion, expensesVersion, checklistVersion, bookingsVersion, attachmentsVersion, refreshTrips, itinerary, trips, currentTrip, onSelectTrip }) => {
+    const [activeTab, setActiveTab] = useState<'form' | 'manager' | 'inbox' | 'budget' | 'checklist' | 'bookings' | 'trips' | 'transfer' | 'drafts' | 'history'>(currentTrip ? 'form' : 'trips');
     const [editingPlace, setEditingPlace] = useState<TripPlace | null>(null);
     const [suggestionRefreshTrigger, setSuggestionRefreshTrigger] = useState(0);
+    const budget = useBudget(activeTab === 'budget' && currentTrip ? currentTrip.id : null, itinerary, expensesVersion);
+    const checklist = useChecklist(activeTab === 'checklist' && currentTrip ? currentTrip.id : null, checklistVersion);
+    const bookings = useBookings(activeTab === 'bookings' && currentTrip ? currentTrip.id : null, bookingsVersion);
 
     const handleRefreshItinerary = () => {
         refreshItinerary();
@@ -720,8 +3990,10 @@ const AdminPanel: React.FC<{ refreshItinerary: () => void, refreshSuggestions: (
         <div className="p-4 bg-[#f7e6f8] min-h-[500px]">
             <h2 className="text-2xl font-extrabold text-[#6a329f] mb-4 text-center">Kuromi Admin Panel</h2>
 
+            <TripSwitcher trips={trips} currentTripId={currentTrip?.id || null} onSelectTrip={onSelectTrip} />
+
             {/* Tab Navigation */}
-            <div className="flex justify-center mb-6 border-b border-[#e3a1e9]/50">
+            <div className="flex flex-wrap justify-center mb-6 border-b border-[#e3a1e9]/50">
                 <button
                     onClick={() => setActiveTab('form')}
                     className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'form' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
@@ -740,30 +4012,132 @@ const AdminPanel: React.FC<{ refreshItinerary: () => void, refreshSuggestions: (
                 >
                     <Inbox className="w-5 h-5 mr-2" /> Suggestion Inbox
                 </button>
+                <button
+                    onClick={() => setActiveTab('budget')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'budget' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <Wallet className="w-5 h-5 mr-2" /> Budget
+                </button>
+                <button
+                    onClick={() => setActiveTab('checklist')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'checklist' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <ListChecks className="w-5 h-5 mr-2" /> Checklist
+                </button>
+                <button
+                    onClick={() => setActiveTab('bookings')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'bookings' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <Ticket className="w-5 h-5 mr-2" /> Bookings
+                </button>
+                <button
+                    onClick={() => setActiveTab('trips')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'trips' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <Plane className="w-5 h-5 mr-2" /> Trips
+                </button>
+                <button
+                    onClick={() => setActiveTab('transfer')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'transfer' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <ArrowDownUp className="w-5 h-5 mr-2" /> Import / Export
+                </button>
+                <button
+                    onClick={() => setActiveTab('drafts')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'drafts' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <MapPinned className="w-5 h-5 mr-2" /> Map Import
+                </button>
+                <button
+                    onClick={() => setActiveTab('history')}
+                    className={`flex items-center px-4 py-2 font-semibold transition ${activeTab === 'history' ? 'border-b-4 border-[#e3a1e9] text-[#2a2a2a]' : 'text-gray-500 hover:text-[#6a329f]'}`}
+                >
+                    <History className="w-5 h-5 mr-2" /> History
+                </button>
             </div>
 
             {/* Content Switch */}
             <div>
-                {activeTab === 'form' && (
-                    <ItineraryForm 
-                        authSecret={authSecret}
-                        refreshItinerary={handleRefreshItinerary}
-                        editingPlace={editingPlace}
-                        setEditingPlace={setEditingPlace}
-                    />
+                {!currentTrip && activeTab !== 'trips' && (
+                    <p className="text-center text-gray-500 py-4">Create a trip first to start planning its itinerary.</p>
+                )}
+                {currentTrip && activeTab === 'form' && (
+                    <>
+                        <ItineraryForm 
+                            trip={currentTrip}
+                            refreshItinerary={handleRefreshItinerary}
+                            editingPlace={editingPlace}
+                            setEditingPlace={setEditingPlace}
+                        />
+                        {editingPlace && (
+                            <div className="mt-4 p-4 bg-white rounded-xl shadow-md border border-[#e3a1e9]/50">
+                                <h4 className="font-bold text-[#6a329f]">Photos and files of {editingPlace.name}</h4>
+                                <AttachmentGallery placeId={editingPlace.id} liveVersion={attachmentsVersion} />
+                            </div>
+                        )}
+                    </>
                 )}
-                {activeTab === 'manager' && (
+                {currentTrip && activeTab === 'manager' && (
                     <ItineraryManager 
-                        authSecret={authSecret}
+                        tripId={currentTrip.id}
                         itinerary={itinerary}
                         refreshItinerary={handleRefreshItinerary}
                         setEditingPlace={setEditingPlace}
                     />
                 )}
-                {activeTab === 'inbox' && (
+                {currentTrip && activeTab === 'inbox' && (
                     <SuggestionInbox 
-                        authSecret={authSecret} 
+                        trip={currentTrip}
                         refreshTrigger={suggestionRefreshTrigger} 
+                        liveVersion={suggestionsVersion}
+                        onScheduled={handleRefreshItinerary}
+                    />
+                )}
+                {currentTrip && activeTab === 'budget' && (
+                    <BudgetPanel
+                        trip={currentTrip}
+                        itinerary={itinerary}
+                        role="admin"
+                        budget={budget}
+                    />
+                )}
+                {currentTrip && activeTab === 'checklist' && (
+                    <ChecklistPanel
+                        trip={currentTrip}
+                        itinerary={itinerary}
+                        role="admin"
+                        checklist={checklist}
+                    />
+                )}
+                {currentTrip && activeTab === 'bookings' && (
+                    <BookingPanel
+                        trip={currentTrip}
+                        itinerary={itinerary}
+                        bookings={bookings}
+                    />
+                )}
+                {currentTrip && activeTab === 'transfer' && (
+                    <ImportExportPanel
+                        trip={currentTrip}
+                        refreshItinerary={handleRefreshItinerary}
+                    />
+                )}
+                {currentTrip && activeTab === 'drafts' && (
+                    <GeoImportPanel
+                        trip={currentTrip}
+                        refreshItinerary={handleRefreshItinerary}
+                    />
+                )}
+                {currentTrip && activeTab === 'history' && (
+                    <AuditHistory
+                        tripId={currentTrip.id}
+                        refreshTrigger={suggestionRefreshTrigger}
+                    />
+                )}
+                {activeTab === 'trips' && (
+                    <TripForm
+                        currentTrip={currentTrip}
+                        refreshTrips={refreshTrips}
                     />
                 )}
             </div>
@@ -776,18 +4150,30 @@ const AdminPanel: React.FC<{ refreshItinerary: () => void, refreshSuggestions: (
 
 interface MainItineraryViewProps {
     role: Role;
+    trips: Trip[];
+    currentTrip: Trip | null;
+    onSelectTrip: (tripId: string) => void;
     itinerary: TripPlace[];
     loading: boolean;
     error: string | null;
-    authSecret: string;
     refreshItinerary: () => void;
+    suggestionsVersion: number;         // Bumped on live suggestion changes
+    expensesVersion: number;            // Bumped on live expense changes
+    checklistVersion: number;           // Bumped on live checklist changes
+    bookingsVersion: number;            // Bumped on live booking changes
+    attachmentsVersion: number;         // Bumped on live attachment changes
+    onSuggestionQueued: () => void;     // A suggestion went into the offline outbox
 }
 
-const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, itinerary, loading, error, authSecret, refreshItinerary }) => {
-    // Determine the max day planned in the itinerary, defaulting to 1 for the start
-    const maxDay = useMemo(() => itinerary.reduce((max, place) => Math.max(max, place.day), 1), [itinerary]);
+const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, trips, currentTrip, onSelectTrip, itinerary, loading, error, refreshItinerary, suggestionsVersion, expensesVersion, checklistVersion, bookingsVersion, attachmentsVersion, onSuggestionQueued }) => {
+    // Determine the max day from the trip length or the itinerary, defaulting to 1 for the start
+    const maxDay = useMemo(() => itinerary.reduce(
+        (max, place) => Math.max(max, place.day),
+        currentTrip ? getTripDayCount(currentTrip) : 1
+    ), [itinerary, currentTrip]);
     const [currentDay, setCurrentDay] = useState(1);
     const [showSuggestionForm, setShowSuggestionForm] = useState(false);
+    const [showInbox, setShowInbox] = useState(false);
     const [suggestionRefreshTrigger, setSuggestionRefreshTrigger] = useState(0);
 
     useEffect(() => {
@@ -800,25 +4186,93 @@ const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, itinerary,
     }, [maxDay, currentDay]);
 
     const dayButtons = Array.from({ length: maxDay }, (_, i) => i + 1);
+    const warningsByDay = useScheduleWarnings(currentTrip?.id || null, [currentDay], itinerary);
+    const [hoveredPlaceId, setHoveredPlaceId] = useState<string | null>(null);
+
+    // Only the two travellers see the budget; guests never fetch it
+    const showBudget = role !== 'guest' && !!currentTrip;
+    const budget = useBudget(showBudget ? currentTrip!.id : null, itinerary, expensesVersion);
+    const dayBudget = budget.summary?.days.find(day => day.day === currentDay);
+    const convertedDay = budget.summary?.converted?.days.find(day => day.day === currentDay);
+
+    // The checklist and bookings replace the day's plan while open; picking a day switches back
+    const [view, setView] = useState<'itinerary' | 'checklist' | 'bookings'>('itinerary');
+    const checklist = useChecklist(showBudget ? currentTrip!.id : null, checklistVersion);
+    const bookings = useBookings(showBudget ? currentTrip!.id : null, bookingsVersion);
+    const nextDeadline = bookings.deadlines[0]?.cancellationDeadline;
+
+    const dayPlaces = useMemo(
+        () => itinerary.filter(place => place.day === currentDay).sort(compareByStartTime),
+        [itinerary, currentDay]
+    );
 
     const handleRefreshSuggestions = () => {
         setSuggestionRefreshTrigger(prev => prev + 1);
     };
+
+    // Status changes by the Admin and replayed offline suggestions show up in "my suggestions"
+    useEffect(() => {
+        if (suggestionsVersion > 0) setSuggestionRefreshTrigger(prev => prev + 1);
+    }, [suggestionsVersion]);
     
     return (
         <div className="p-4 sm:p-6 bg-white min-h-[calc(100vh-64px)] rounded-b-3xl shadow-xl border-t-4 border-[#e3a1e9]/50">
+            {currentTrip?.coverImage && (
+                <img
+                    src={currentTrip.coverImage}
+                    alt={currentTrip.title}
+                    className="w-full h-40 object-cover rounded-2xl shadow-md mb-4"
+                />
+            )}
             <h1 className="text-3xl font-extrabold text-[#6a329f] text-center mb-6 border-b-2 border-[#e3a1e9]/50 pb-2">
-                我们的四天之旅 💜
+                {currentTrip?.title || DEFAULT_TRIP_TITLE}
             </h1>
 
+            <TripSwitcher trips={trips} currentTripId={currentTrip?.id || null} onSelectTrip={onSelectTrip} />
+
+            {/* Calendar Subscription and Printed Booklet */}
+            {currentTrip && (
+                <div className="flex justify-center items-center gap-3 mb-4 text-sm">
+                    <a
+                        href={getCalendarFeedUrl(currentTrip.id, { subscribe: true })}
+                        className="flex items-center font-semibold text-[#6a329f] hover:underline"
+                    >
+                        <CalendarPlus className="w-4 h-4 mr-1" /> Subscribe in Calendar
+                    </a>
+                    <span className="text-gray-300">|</span>
+                    <a
+                        href={getCalendarFeedUrl(currentTrip.id, { day: currentDay })}
+                        download={`itinerary-day-${currentDay}.ics`}
+                        className="font-semibold text-gray-500 hover:text-[#6a329f] hover:underline"
+                    >
+                        Day {currentDay} (.ics)
+                    </a>
+                    <span className="text-gray-300">|</span>
+                    <a
+                        href={`/print?tripId=${currentTrip.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center font-semibold text-gray-500 hover:text-[#6a329f] hover:underline"
+                    >
+                        <Printer className="w-4 h-4 mr-1" /> Print Booklet
+                    </a>
+                    <a
+                        href={`${API_BASE_URL}/itinerary/export?format=pdf&tripId=${currentTrip.id}`}
+                        className="font-semibold text-gray-500 hover:text-[#6a329f] hover:underline"
+                    >
+                        (PDF)
+                    </a>
+                </div>
+            )}
+
             {/* Day Selector Tabs */}
             <div className="flex justify-center flex-wrap gap-2 mb-6">
                 {dayButtons.map(day => (
                     <button
                         key={day}
-                        onClick={() => setCurrentDay(day)}
+                        onClick={() => { setCurrentDay(day); setView('itinerary'); }}
                         className={`px-4 py-2 text-sm font-bold rounded-full transition transform hover:scale-105 shadow-md ${
-                            currentDay === day 
+                            currentDay === day && view === 'itinerary'
                                 ? 'bg-[#e3a1e9] text-[#2a2a2a] ring-2 ring-[#6a329f]' 
                                 : 'bg-gray-100 text-gray-600 hover:bg-[#f7e6f8]'
                         }`}
@@ -826,21 +4280,78 @@ const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, itinerary,
                         Day {day}
                     </button>
                 ))}
+                {showBudget && (
+                    <ChecklistProgress items={checklist.items} itinerary={itinerary} currentDay={currentDay} onOpen={() => setView('checklist')} />
+                )}
+                {showBudget && (
+                    <button
+                        onClick={() => setView('bookings')}
+                        title="Open bookings and cancellation deadlines"
+                        className="flex items-center px-3 py-2 text-xs font-semibold rounded-full shadow-md bg-white border border-[#e3a1e9] text-[#6a329f] hover:bg-[#f7e6f8] transition"
+                    >
+                        <Ticket className="w-4 h-4 mr-1" />
+                        {bookings.bookings.length > 0 ? `${bookings.bookings.length} booked` : 'Bookings'}
+                        {nextDeadline && <span className="ml-2 text-red-600">cancel by {formatBookingTime(nextDeadline)}</span>}
+                    </button>
+                )}
             </div>
 
+            {/* Day and Trip Totals */}
+            {showBudget && budget.summary && (
+                <div className="flex justify-center flex-wrap gap-x-4 gap-y-1 mb-4 text-xs text-gray-600">
+                    <span>
+                        <span className="font-semibold">Day {currentDay}:</span> est. {formatTotals(dayBudget?.estimated || {})} · spent {formatTotals(dayBudget?.actual || {})}
+                        {convertedDay && ` (${formatConverted(convertedDay.actual)})`}
+                    </span>
+                    <span>
+                        <span className="font-semibold">Trip:</span> est. {formatTotals(budget.summary.estimated)} · spent {formatTotals(budget.summary.actual)}
+                        {budget.summary.converted && ` (${formatConverted(budget.summary.converted.actual)})`}
+                    </span>
+                </div>
+            )}
+
+            {/* Shared Checklist */}
+            {showBudget && view === 'checklist' && (
+                <div className="max-w-3xl mx-auto">
+                    <ChecklistPanel trip={currentTrip!} itinerary={itinerary} role={role} checklist={checklist} />
+                </div>
+            )}
+
+            {/* Reservations and Cancellation Deadlines */}
+            {showBudget && view === 'bookings' && (
+                <div className="max-w-3xl mx-auto">
+                    <BookingPanel trip={currentTrip!} itinerary={itinerary} bookings={bookings} />
+                </div>
+            )}
+
             {/* Itinerary List */}
-            <div className="max-w-3xl mx-auto">
-                <ItineraryList 
-                    places={itinerary} 
-                    loading={loading} 
-                    error={error} 
-                    currentDay={currentDay}
-                    role={'guest'} // Non-admin users view the itinerary in 'guest' mode (no inline CRUD buttons)
-                />
-            </div>
+            {view === 'itinerary' && (
+                <div className="max-w-3xl mx-auto">
+                    {!loading && !error && <DayRouteMap places={dayPlaces} highlightedPlaceId={hoveredPlaceId} />}
+                    <ItineraryList 
+                        places={itinerary} 
+                        loading={loading} 
+                        error={error} 
+                        currentDay={currentDay}
+                        warnings={warningsByDay[currentDay] || []}
+                        onHoverPlace={setHoveredPlaceId}
+                        bookings={bookings.bookings}
+                        showAttachments={showBudget}
+                        attachmentsVersion={attachmentsVersion}
+                        role={'guest'} // Non-admin users view the itinerary in 'guest' mode (no inline CRUD buttons)
+                    />
+                </div>
+            )}
+
+            {/* Budget: expenses and who owes whom */}
+            {showBudget && view === 'itinerary' && (
+                <div className="mt-8 max-w-3xl mx-auto">
+                    <BudgetPanel trip={currentTrip!} itinerary={itinerary} role={role} budget={budget} />
+                </div>
+            )}
 
             {/* Trusted User: Suggestion Form */}
-            {role === 'trusted' && (
+            {role === 'trusted' && currentTrip && (
                 <div className="mt-8 max-w-3xl mx-auto bg-gray-50 rounded-xl shadow-2xl border border-[#e3a1e9]/50">
                     <button
                         onClick={() => setShowSuggestionForm(prev => !prev)}
@@ -850,8 +4361,31 @@ const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, itinerary,
                         {showSuggestionForm ? '隐藏意见箱' : 'babbyyy～有什么想去的地方吗？💗 (点这里嘿嘿)'}
                     </button>
                     {showSuggestionForm && (
-                        <SuggestionForm authSecret={authSecret} refreshSuggestions={handleRefreshSuggestions} />
+                        <SuggestionForm tripId={currentTrip.id} refreshSuggestions={handleRefreshSuggestions} onQueued={onSuggestionQueued} />
                     )}
+                    <div className="border-t border-gray-100">
+                        <MySuggestions tripId={currentTrip.id} refreshTrigger={suggestionRefreshTrigger} />
+                    </div>
+                    {/* The Trusted User reviews suggestions too, so the whole inbox is one click away */}
+                    <div className="border-t border-gray-100">
+                        <button
+                            onClick={() => setShowInbox(prev => !prev)}
+                            className="w-full flex items-center justify-center p-3 text-sm font-semibold text-[#6a329f] hover:bg-[#f7e6f8] transition"
+                        >
+                            <Inbox className="w-4 h-4 mr-2" />
+                            {showInbox ? 'Hide suggestion inbox' : 'Review all suggestions'}
+                        </button>
+                        {showInbox && (
+                            <div className="p-4">
+                                <SuggestionInbox
+                                    trip={currentTrip}
+                                    refreshTrigger={suggestionRefreshTrigger}
+                                    liveVersion={suggestionsVersion}
+                                    onScheduled={refreshItinerary}
+                                />
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
         </div>
@@ -862,47 +4396,84 @@ const MainItineraryView: React.FC<MainItineraryViewProps> = ({ role, itinerary,
 // --- 8. Main App Component (Authentication and Data Fetching) ---
 
 const App: React.FC = () => {
-    // Initial state setup using localStorage for persistence (simulating auth)
-    const initialRole = typeof window !== 'undefined' ? (localStorage.getItem('role') as Role || 'guest') : 'guest';
-    const initialSecret = typeof window !== 'undefined' ? (localStorage.getItem('auth_secret') || null) : null;
+    // The role comes from the server-side session; only the selected trip is kept in localStorage
+    const initialTripId = typeof window !== 'undefined' ? (localStorage.getItem('trip_id') || null) : null;
 
-    const [role, setRoleState] = useState<Role>(initialRole);
-    const [authSecret, setAuthSecret] = useState<string | null>(initialSecret);
+    const [role, setRole] = useState<Role>('guest');
+    const [checkingSession, setCheckingSession] = useState(true);
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [currentTripId, setCurrentTripId] = useState<string | null>(initialTripId);
     const [itinerary, setItinerary] = useState<TripPlace[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [suggestionsVersion, setSuggestionsVersion] = useState(0);
+    const [expensesVersion, setExpensesVersion] = useState(0);
+    const [checklistVersion, setChecklistVersion] = useState(0);
+    const [bookingsVersion, setBookingsVersion] = useState(0);
+    const [attachmentsVersion, setAttachmentsVersion] = useState(0);
 
-    const safeFetch = useApiFetcher(authSecret);
+    const safeFetch = useApiFetcher();
 
-    // Function to handle role setting and persist to localStorage
-    const setRoleAndSecret = useCallback((newRole: Role, newSecret: string) => {
-        setRoleState(newRole);
-        setAuthSecret(newSecret);
-        if (typeof window !== 'undefined') {
-            localStorage.setItem('role', newRole);
-            localStorage.setItem('auth_secret', newSecret);
-        }
-    }, []);
+    // Restore the role from the session cookie on first load
+    useEffect(() => {
+        safeFetch('/auth/me', { method: 'GET' })
+            .then((data: { role: Role }) => setRole(data.role))
+            .catch(() => setRole('guest'))
+            .finally(() => setCheckingSession(false));
+    }, [safeFetch]);
     
-    // Function to handle logout (revert to guest)
-    const handleLogout = useCallback(() => {
-        setRoleState('guest');
-        setAuthSecret(null);
+    // Function to handle logout (clears the session cookie, reverting to guest)
+    const handleLogout = useCallback(async () => {
+        try {
+            await safeFetch('/auth/logout', { method: 'POST' });
+        } catch (err: any) {
+            console.error(`Failed to log out: ${err.message}`);
+        } finally {
+            setRole('guest');
+        }
+    }, [safeFetch]);
+
+
+    // Function to switch trips and remember the choice across reloads
+    const selectTrip = useCallback((tripId: string) => {
+        setCurrentTripId(tripId);
         if (typeof window !== 'undefined') {
-            localStorage.removeItem('role');
-            localStorage.removeItem('auth_secret');
+            localStorage.setItem('trip_id', tripId);
         }
     }, []);
 
+    // The stored trip may have been deleted, so fall back to the default trip
+    const currentTrip = useMemo(
+        () => trips.find(trip => trip.id === currentTripId) || pickDefaultTrip(trips),
+        [trips, currentTripId]
+    );
 
-    // Fetch Itinerary function
-    const fetchItinerary = useCallback(async () => {
-        setLoading(true);
+    // Fetch Trips function (public, also used by the login screen)
+    const fetchTrips = useCallback(async (selectTripId?: string) => {
+        try {
+            const data: Trip[] = await safeFetch('/trips', { method: 'GET' });
+            setTrips(data);
+            if (selectTripId) {
+                selectTrip(selectTripId);
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to load trips.');
+        }
+    }, [safeFetch, selectTrip]);
+
+    // Fetch Itinerary function; silent refreshes (live updates) keep the current list on screen
+    const fetchItinerary = useCallback(async (silent = false) => {
+        if (!currentTrip) {
+            setItinerary([]);
+            return;
+        }
+
+        if (!silent) setLoading(true);
         setError(null);
         
         try {
-            // Fetch itinerary, passing authSecret if available
-            const data: TripPlace[] = await safeFetch('/itinerary', { method: 'GET' }, !!authSecret);
+            // Fetch itinerary of the selected trip
+            const data: TripPlace[] = await safeFetch(`/trips/${currentTrip.id}/itinerary`, { method: 'GET' });
             setItinerary(data);
 
         } catch (err: any) {
@@ -910,16 +4481,59 @@ const App: React.FC = () => {
         } finally {
             setLoading(false);
         }
-    }, [safeFetch, authSecret]);
+    }, [safeFetch, currentTrip]);
+
+    useEffect(() => {
+        fetchTrips();
+    }, [fetchTrips]);
 
-    // Initial load and dependency on authSecret
+    // Initial load and dependency on the selected trip
     useEffect(() => {
         // Only fetch if we have an auth status (even guest mode has an implied auth state)
         fetchItinerary();
     }, [fetchItinerary]); 
 
-    if (role === 'guest' && !authSecret) {
-        return <LoginScreen setRole={setRoleAndSecret} />;
+    // Changes made in other tabs or by the other user arrive over /api/events
+    const handleLiveEvent = useCallback((event: LiveEvent) => {
+        if (event.entityType === 'TripPlace') {
+            fetchItinerary(true);
+        } else if (event.entityType === 'Expense' || event.entityType === 'RateSnapshot') {
+            setExpensesVersion(prev => prev + 1);
+        } else if (event.entityType === 'ChecklistItem') {
+            setChecklistVersion(prev => prev + 1);
+        } else if (event.entityType === 'Booking') {
+            setBookingsVersion(prev => prev + 1);
+        } else if (event.entityType === 'Attachment') {
+            setAttachmentsVersion(prev => prev + 1);
+        } else {
+            // Suggestions and their comments; the lists re-fetch and carry the new comment counts
+            setSuggestionsVersion(prev => prev + 1);
+        }
+    }, [fetchItinerary]);
+
+    useLiveUpdates(currentTrip ? currentTrip.id : null, role, handleLiveEvent);
+
+    const outbox = useSuggestionOutbox(role);
+
+    // Offline support: the service worker caches the app shell and the last itinerary (public/sw.js).
+    // Development builds skip it so stale bundles are never served from the cache.
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+        navigator.serviceWorker.register('/sw.js')
+            .catch((err: any) => console.error(`Failed to register the service worker: ${err.message}`));
+    }, []);
+
+    if (checkingSession) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-[#f7e6f8]">
+                <Loader2 className="w-8 h-8 animate-spin text-[#6a329f]" />
+            </div>
+        );
+    }
+
+    if (role === 'guest') {
+        return <LoginScreen setRole={setRole} trip={currentTrip} />;
     }
 
     return (
@@ -940,8 +4554,18 @@ const App: React.FC = () => {
                         <span className={`text-sm font-semibold px-3 py-1 rounded-full shadow-inner ${
                             role === 'admin' ? 'bg-[#6a329f] text-white' : role === 'trusted' ? 'bg-[#e3a1e9] text-[#2a2a2a]' : 'bg-gray-200 text-gray-700'
                         }`}>
-                            {role === 'admin' ? 'BF' : role === 'trusted' ? 'BAE 💗' : role.toUpperCase()}
+                            {role === 'admin' ? 'BF' : 'BAE 💗'}
                         </span>
+                        {(!outbox.online || outbox.queuedCount > 0) && (
+                            <span
+                                className="flex items-center text-xs font-semibold px-3 py-1 rounded-full bg-yellow-100 text-yellow-800"
+                                title={outbox.online ? 'Suggestions waiting to be sent' : 'Showing the itinerary saved on this device'}
+                            >
+                                <WifiOff className="w-4 h-4 mr-1" />
+                                {outbox.online ? `${outbox.queuedCount} queued` : 'Offline'}
+                                {!outbox.online && outbox.queuedCount > 0 && ` · ${outbox.queuedCount} queued`}
+                            </span>
+                        )}
                         {(role === 'admin' || role === 'trusted') && (
                             <button 
                                 onClick={handleLogout} 
@@ -957,23 +4581,55 @@ const App: React.FC = () => {
 
             {/* Main Content */}
             <div className="max-w-7xl mx-auto pt-6 pb-12 px-4 sm:px-6 lg:px-8">
+                {outbox.rejected.length > 0 && (
+                    <div className="mb-6 p-3 rounded-xl bg-red-50 border border-red-300 flex items-start justify-between">
+                        <div className="space-y-1">
+                            <p className="text-sm font-bold text-red-800 flex items-center">
+                                <AlertTriangle className="w-4 h-4 mr-2" />
+                                Some suggestions saved offline could not be sent
+                            </p>
+                            {outbox.rejected.map((message, i) => (
+                                <p key={i} className="text-xs text-red-800">{message}</p>
+                            ))}
+                        </div>
+                        <button onClick={outbox.dismissRejected} title="Dismiss" className="text-red-700 hover:text-red-900">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
                 {role === 'admin' ? (
                     // Admin Panel View - Full CRUD and Inbox
                     <AdminPanel 
-                        authSecret={authSecret!}
                         itinerary={itinerary}
+                        trips={trips}
+                        currentTrip={currentTrip}
+                        onSelectTrip={selectTrip}
+                        refreshTrips={fetchTrips}
                         refreshItinerary={fetchItinerary}
                         refreshSuggestions={fetchItinerary} // Reuse itinerary refresh to trigger SuggestionInbox re-fetch
+                        suggestionsVersion={suggestionsVersion}
+                        expensesVersion={expensesVersion}
+                        checklistVersion={checklistVersion}
+                        bookingsVersion={bookingsVersion}
+                        attachmentsVersion={attachmentsVersion}
                     />
                 ) : (
                     // Trusted/Guest User View - Itinerary and Suggestion Form (for Trusted)
                     <MainItineraryView 
                         role={role} 
+                        trips={trips}
+                        currentTrip={currentTrip}
+                        onSelectTrip={selectTrip}
                         itinerary={itinerary} 
                         loading={loading} 
                         error={error} 
-                        authSecret={authSecret || ''}
                         refreshItinerary={fetchItinerary}
+                        suggestionsVersion={suggestionsVersion}
+                        expensesVersion={expensesVersion}
+                        checklistVersion={checklistVersion}
+                        bookingsVersion={bookingsVersion}
+                        attachmentsVersion={attachmentsVersion}
+                        onSuggestionQueued={outbox.refreshQueue}
                     />
                 )}
             </div>
@@ -0,0 +1,117 @@
+import React from 'react';
+import type { GetServerSideProps } from 'next';
+import { getDefaultTrip, getTrip, getTripPlaces } from '../services/prisma_service';
+import { BookletDay, BookletStop, buildBookletDays, getQrCodeSvg } from '../services/booklet_service';
+
+// Print-optimized itinerary booklet: /print?tripId=... (default trip otherwise).
+// Rendered on the server, QR codes included, so it also works as a saved offline copy.
+
+interface PrintStop extends BookletStop {
+    qrSvg: string;
+}
+
+interface PrintDay extends Omit<BookletDay, 'stops'> {
+    stops: PrintStop[];
+}
+
+interface PrintPageProps {
+    trip: {
+        id: string;
+        title: string;
+        tagline: string | null;
+        timezone: string;
+    } | null;
+    days: PrintDay[];
+}
+
+export const getServerSideProps: GetServerSideProps<PrintPageProps> = async ({ query }) => {
+    const tripId = Array.isArray(query.tripId) ? query.tripId[0] : query.tripId;
+    const trip = tripId ? await getTrip(tripId) : await getDefaultTrip();
+
+    if (!trip) {
+        return { props: { trip: null, days: [] } };
+    }
+
+    const places = await getTripPlaces(trip.id);
+    const days = await Promise.all(buildBookletDays(trip, places).map(async day => ({
+        ...day,
+        stops: await Promise.all(day.stops.map(async stop => ({ ...stop, qrSvg: await getQrCodeSvg(stop.mapUrl) }))),
+    })));
+
+    return {
+        props: {
+            trip: { id: trip.id, title: trip.title, tagline: trip.tagline, timezone: trip.timezone },
+            days,
+        },
+    };
+};
+
+const PrintPage: React.FC<PrintPageProps> = ({ trip, days }) => {
+    if (!trip) {
+        return <p className="p-8 text-center text-gray-500">No trip found. Create a trip before printing its itinerary.</p>;
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto p-6 text-[#2a2a2a] bg-white">
+            <style>{`
+                @page { size: A4; margin: 14mm; }
+                @media print {
+                    .no-print { display: none; }
+                    .print-day { break-before: page; }
+                    .print-stop { break-inside: avoid; }
+                }
+            `}</style>
+
+            <div className="no-print flex justify-end space-x-2 mb-6">
+                <a
+                    href={`/api/itinerary/export?format=pdf&tripId=${trip.id}`}
+                    className="text-sm font-semibold px-4 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition"
+                >
+                    Download PDF
+                </a>
+                <button
+                    onClick={() => window.print()}
+                    className="text-sm font-semibold px-4 py-2 rounded-lg text-white bg-[#6a329f] hover:bg-[#8e45b5] transition"
+                >
+                    Print
+                </button>
+            </div>
+
+            <header className="text-center mb-8">
+                <h1 className="text-3xl font-extrabold text-[#6a329f]">{trip.title}</h1>
+                {trip.tagline && <p className="text-gray-600 mt-1">{trip.tagline}</p>}
+                {days.length > 0 && (
+                    <p className="text-sm text-gray-500 mt-2">
+                        {days[0].dateLabel} – {days[days.length - 1].dateLabel} · times in {trip.timezone}
+                    </p>
+                )}
+            </header>
+
+            {days.map(day => (
+                <section key={day.day} className="print-day mb-8">
+                    <h2 className="text-xl font-bold text-[#6a329f] border-b-2 border-[#e3a1e9] pb-1 mb-3">
+                        Day {day.day} <span className="text-sm font-normal text-gray-500 ml-2">{day.dateLabel}</span>
+                    </h2>
+
+                    {day.stops.length === 0 && <p className="text-sm text-gray-400">Nothing planned yet.</p>}
+
+                    {day.stops.map(stop => (
+                        <div key={stop.id} className="print-stop flex justify-between gap-4 py-3 border-b border-[#f7e6f8]">
+                            <div className="flex-grow">
+                                <p className="font-bold">
+                                    <span className="text-[#6a329f] mr-2">{stop.time}</span>{stop.name}
+                                </p>
+                                <p className="text-sm text-[#6a329f]">{stop.purpose}</p>
+                                {stop.notes && <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{stop.notes}</p>}
+                                <p className="text-xs text-gray-500 mt-1">{stop.latitude.toFixed(5)}, {stop.longitude.toFixed(5)}</p>
+                            </div>
+                            <div className="w-20 h-20 flex-shrink-0" dangerouslySetInnerHTML={{ __html: stop.qrSvg }} />
+                        </div>
+                    ))}
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default PrintPage;
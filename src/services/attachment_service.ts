@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { Attachment } from '../../app/generated/prisma';
+import { AttachmentMimeType, CreateAttachmentData, MAX_ATTACHMENT_BYTES } from '../utils/schemas';
+import { UploadedFile } from '../utils/request_utils';
+import { getStorageDriver } from './storage_service';
+
+/** Longest side of a thumbnail, in pixels */
+export const THUMBNAIL_SIZE = 320;
+
+// Refuse images that would take too much memory to decode, e.g. a tiny file claiming 100000×100000 pixels
+const MAX_INPUT_PIXELS = 100 * 1000 * 1000;
+
+const MIME_TYPE_LABELS: Record<AttachmentMimeType, string> = {
+    'image/jpeg': 'JPEG',
+    'image/png': 'PNG',
+    'image/webp': 'WebP',
+    'image/gif': 'GIF',
+    'application/pdf': 'PDF',
+};
+
+/** An upload that passed the checks, with its thumbnail already rendered */
+export interface PreparedUpload {
+    fileName: string;
+    mimeType: AttachmentMimeType;
+    data: Buffer;
+    thumbnail: Buffer | null;
+    width: number | null;
+    height: number | null;
+}
+
+/** The parts of an Attachment that describe its stored files */
+export type StoredUpload = Omit<CreateAttachmentData, 'tripId' | 'placeId' | 'uploadedBy'>;
+
+/**
+ * Identifies an accepted file type from the file's leading bytes. The Content-Type sent by the
+ * client is never trusted, so a renamed executable cannot pass as a photo.
+ */
+export function detectMimeType(data: Buffer): AttachmentMimeType | null {
+    const head = data.subarray(0, 12).toString('latin1');
+
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+    if (head.startsWith('\x89PNG\r\n\x1a\n')) return 'image/png';
+    if (head.startsWith('GIF87a') || head.startsWith('GIF89a')) return 'image/gif';
+    if (head.startsWith('RIFF') && head.slice(8, 12) === 'WEBP') return 'image/webp';
+    if (head.startsWith('%PDF-')) return 'application/pdf';
+    return null;
+}
+
+/** Keeps the last path segment of a client file name and caps its length */
+function cleanFileName(fileName: string): string {
+    const name = fileName.split(/[\\/]/).pop()!.replace(/[\x00-\x1f]/g, '').trim();
+    return name.slice(0, 200) || 'attachment';
+}
+
+/**
+ * Checks an uploaded file against the size and type limits and renders the thumbnail of images.
+ * Nothing is stored yet, so a rejected file in a batch leaves no trace.
+ */
+export async function prepareUpload(file: UploadedFile): Promise<{ ok: true, upload: PreparedUpload } | { ok: false, error: string }> {
+    const fileName = cleanFileName(file.fileName);
+
+    if (file.data.length === 0) {
+        return { ok: false, error: `${fileName} is empty.` };
+    }
+    if (file.data.length > MAX_ATTACHMENT_BYTES) {
+        return { ok: false, error: `${fileName} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.` };
+    }
+
+    const mimeType = detectMimeType(file.data);
+    if (!mimeType) {
+        return { ok: false, error: `${fileName} is not a supported file type (${Object.values(MIME_TYPE_LABELS).join(', ')}).` };
+    }
+
+    if (mimeType === 'application/pdf') {
+        return { ok: true, upload: { fileName, mimeType, data: file.data, thumbnail: null, width: null, height: null } };
+    }
+
+    try {
+        // Only the first frame of animated images is used; rotate() applies the EXIF orientation of phone photos
+        const { data: thumbnail } = await sharp(file.data, { limitInputPixels: MAX_INPUT_PIXELS })
+            .rotate()
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .webp({ quality: 75 })
+            .toBuffer({ resolveWithObject: true });
+        const metadata = await sharp(file.data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+
+        return {
+            ok: true,
+            upload: {
+                fileName,
+                mimeType,
+                data: file.data,
+                thumbnail,
+                width: metadata.autoOrient.width,
+                height: metadata.autoOrient.height,
+            },
+        };
+    } catch (error) {
+        console.error(`Error creating a thumbnail for ${fileName}:`, error);
+        return { ok: false, error: `${fileName} could not be read as a ${MIME_TYPE_LABELS[mimeType]} image.` };
+    }
+}
+
+/**
+ * Writes an upload and its thumbnail to the storage driver under fresh keys
+ * ("trip/place/uuid" and "trip/place/uuid.thumb.webp").
+ */
+export async function storeUpload(tripId: string, placeId: string, upload: PreparedUpload): Promise<StoredUpload> {
+    const storage = getStorageDriver();
+    const storageKey = `${tripId}/${placeId}/${randomUUID()}`;
+    const thumbnailKey = upload.thumbnail ? `${storageKey}.thumb.webp` : null;
+
+    await storage.put(storageKey, upload.data, upload.mimeType);
+    if (thumbnailKey) {
+        await storage.put(thumbnailKey, upload.thumbnail!, 'image/webp');
+    }
+
+    return {
+        fileName: upload.fileName,
+        mimeType: upload.mimeType,
+        size: upload.data.length,
+        storageKey,
+        thumbnailKey,
+        width: upload.width,
+        height: upload.height,
+    };
+}
+
+/**
+ * Removes the stored files of attachments, e.g. after their records were deleted or could not
+ * be created. Failures are logged rather than thrown: a leftover file is harmless.
+ */
+export async function discardStoredFiles(files: Pick<Attachment, 'storageKey' | 'thumbnailKey'>[]): Promise<void> {
+    const storage = getStorageDriver();
+    const keys = files.flatMap(file => file.thumbnailKey ? [file.storageKey, file.thumbnailKey] : [file.storageKey]);
+
+    for (const key of keys) {
+        try {
+            await storage.delete(key);
+        } catch (error) {
+            console.error(`Error deleting stored file ${key}:`, error);
+        }
+    }
+}
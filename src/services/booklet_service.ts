@@ -0,0 +1,183 @@
+import { existsSync } from 'fs';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { Trip, TripPlace } from '../../app/generated/prisma';
+import { getTripDayDate } from './calendar_service';
+import { compareByStartTime, formatPlaceTime, getTripDayCount } from '../utils/time_utils';
+
+/** One stop of the printed itinerary, ready to lay out */
+export interface BookletStop {
+    id: string;
+    time: string;
+    name: string;
+    purpose: string;
+    notes: string | null;
+    latitude: number;
+    longitude: number;
+    mapUrl: string;
+}
+
+/** One day of the printed itinerary; days without stops are kept so the booklet has no gaps */
+export interface BookletDay {
+    day: number;
+    dateLabel: string;
+    stops: BookletStop[];
+}
+
+const QR_SIZE = 72;
+
+// What the built-in Helvetica fonts can draw: Latin-1 plus the extra WinAnsi punctuation
+const BUILT_IN_FONT_TEXT = /^[\t\n\r\x20-\x7E\xA0-\xFF€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+
+/**
+ * Link encoded in a stop's QR code; the same map search the itinerary cards open.
+ */
+export function getPlaceMapUrl(place: Pick<TripPlace, 'latitude' | 'longitude'>): string {
+    return `https://www.google.com/maps/search/?api=1&query=${place.latitude},${place.longitude}`;
+}
+
+/** Formats a trip day such as "Sat, Nov 1, 2025" */
+export function formatTripDay(trip: Trip, day: number): string {
+    return new Intl.DateTimeFormat('en-US', {
+        weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC',
+    }).format(getTripDayDate(trip, day));
+}
+
+/**
+ * Groups places into every day of the trip, in schedule order. Places planned past
+ * the trip's end date extend the booklet rather than being dropped.
+ */
+export function buildBookletDays(trip: Trip, places: TripPlace[]): BookletDay[] {
+    const dayCount = places.reduce((max, place) => Math.max(max, place.day), getTripDayCount(trip));
+
+    return Array.from({ length: dayCount }, (_, i) => i + 1).map(day => ({
+        day,
+        dateLabel: formatTripDay(trip, day),
+        stops: places
+            .filter(place => place.day === day)
+            .sort(compareByStartTime)
+            .map(place => ({
+                id: place.id,
+                time: formatPlaceTime(place),
+                name: place.name,
+                purpose: place.purpose,
+                notes: place.notes,
+                latitude: place.latitude,
+                longitude: place.longitude,
+                mapUrl: getPlaceMapUrl(place),
+            })),
+    }));
+}
+
+/**
+ * Renders a QR code as inline SVG markup, for the print page.
+ */
+export function getQrCodeSvg(url: string): Promise<string> {
+    return QRCode.toString(url, { type: 'svg', margin: 1 });
+}
+
+/**
+ * Explains why the booklet cannot be rendered with the configured font, or returns null when it can.
+ * The built-in PDF fonts only cover Latin text, so a trip with Chinese names or notes needs
+ * PDF_FONT_PATH; drawing it anyway would print unreadable glyphs.
+ */
+export function getBookletFontProblem(trip: Trip, places: TripPlace[]): string | null {
+    const fontPath = process.env.PDF_FONT_PATH;
+    if (fontPath) {
+        return existsSync(fontPath) ? null : `PDF_FONT_PATH is set to "${fontPath}", but no font file exists there.`;
+    }
+
+    const texts = [trip.title, trip.tagline, ...places.flatMap(place => [place.name, place.purpose, place.notes, place.timeLabel])];
+    if (texts.every(text => !text || BUILT_IN_FONT_TEXT.test(text))) return null;
+
+    return 'This itinerary has text the built-in PDF fonts cannot print, such as Chinese names. ' +
+        'Set PDF_FONT_PATH on the server to a TTF/OTF font that covers it (e.g. Noto Sans SC), or use the print page instead.';
+}
+
+/**
+ * Renders the itinerary booklet as a PDF: a cover page, then one page per day listing each
+ * stop's time, purpose, notes and coordinates next to a QR code for its map location.
+ * Everything, QR codes included, is drawn locally. Throws with the reason from
+ * getBookletFontProblem rather than rendering text the font cannot show.
+ */
+export async function renderItineraryPdf(trip: Trip, places: TripPlace[]): Promise<Buffer> {
+    const fontProblem = getBookletFontProblem(trip, places);
+    if (fontProblem) throw new Error(fontProblem);
+
+    const days = buildBookletDays(trip, places);
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: trip.title } });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    let regularFont = 'Helvetica';
+    let boldFont = 'Helvetica-Bold';
+    if (process.env.PDF_FONT_PATH) {
+        doc.registerFont('Custom', process.env.PDF_FONT_PATH);
+        regularFont = boldFont = 'Custom';
+    }
+
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const textWidth = contentWidth - QR_SIZE - 16;
+
+    // 1. Cover page
+    doc.moveDown(8);
+    doc.font(boldFont).fontSize(28).fillColor('#6a329f').text(trip.title, { align: 'center' });
+    if (trip.tagline) {
+        doc.moveDown(0.5).font(regularFont).fontSize(14).fillColor('#2a2a2a').text(trip.tagline, { align: 'center' });
+    }
+    doc.moveDown(1).font(regularFont).fontSize(12).fillColor('#555555')
+        .text(`${formatTripDay(trip, 1)} – ${formatTripDay(trip, days.length)}`, { align: 'center' });
+    doc.text(`${places.length} stops · times in ${trip.timezone}`, { align: 'center' });
+
+    // 2. One page per day
+    for (const day of days) {
+        doc.addPage();
+        doc.font(boldFont).fontSize(18).fillColor('#6a329f').text(`Day ${day.day}`, left, doc.y, { continued: true })
+            .font(regularFont).fontSize(12).fillColor('#555555').text(`   ${day.dateLabel}`);
+        doc.moveDown(0.8);
+
+        if (day.stops.length === 0) {
+            doc.font(regularFont).fontSize(11).fillColor('#888888').text('Nothing planned yet.');
+            continue;
+        }
+
+        for (const stop of day.stops) {
+            const coordinates = `${stop.latitude.toFixed(5)}, ${stop.longitude.toFixed(5)}`;
+            doc.font(boldFont).fontSize(12);
+            let blockHeight = doc.heightOfString(`${stop.time}  ${stop.name}`, { width: textWidth });
+            doc.font(regularFont).fontSize(10);
+            blockHeight += doc.heightOfString(stop.purpose, { width: textWidth }) + doc.heightOfString(coordinates, { width: textWidth });
+            if (stop.notes) blockHeight += doc.heightOfString(stop.notes, { width: textWidth });
+
+            // Keep a stop and its QR code on the same page
+            if (doc.y + Math.max(blockHeight, QR_SIZE) > doc.page.height - doc.page.margins.bottom) {
+                doc.addPage();
+            }
+
+            const top = doc.y;
+            const qrCode = await QRCode.toBuffer(stop.mapUrl, { margin: 1, width: QR_SIZE * 2 });
+            doc.image(qrCode, left + contentWidth - QR_SIZE, top, { width: QR_SIZE });
+
+            doc.font(boldFont).fontSize(12).fillColor('#2a2a2a').text(`${stop.time}  ${stop.name}`, left, top, { width: textWidth });
+            doc.font(regularFont).fontSize(10).fillColor('#6a329f').text(stop.purpose, { width: textWidth });
+            if (stop.notes) {
+                doc.fillColor('#2a2a2a').text(stop.notes, { width: textWidth });
+            }
+            doc.fillColor('#888888').text(coordinates, { width: textWidth });
+
+            const bottom = Math.max(doc.y, top + QR_SIZE) + 8;
+            doc.moveTo(left, bottom).lineTo(left + contentWidth, bottom).strokeColor('#e3a1e9').lineWidth(0.5).stroke();
+            doc.x = left;
+            doc.y = bottom + 10;
+        }
+    }
+
+    doc.end();
+    return finished;
+}
@@ -0,0 +1,217 @@
+import { Expense, RateSnapshot, TripPlace } from '../../app/generated/prisma';
+import { ConvertedTotal, convertAmount, convertTotals, CurrencyTotals, RateTable, roundAmount } from '../utils/currency_utils';
+import { toCsv } from '../utils/csv_utils';
+import { EXPENSE_PAYERS, ExpensePayer } from '../utils/schemas';
+
+export type BudgetExportFormat = 'json' | 'csv';
+
+export const BUDGET_EXPORT_FORMATS: BudgetExportFormat[] = ['json', 'csv'];
+
+/** Planned and actual spending of one day */
+export interface DayBudget {
+    day: number;
+    estimated: CurrencyTotals;      // Sum of the places' estimated costs
+    actual: CurrencyTotals;         // Sum of the expenses booked on the day
+}
+
+/** One payment that evens out the shared expenses in a currency */
+export interface Settlement {
+    from: ExpensePayer;
+    to: ExpensePayer;
+    amount: number;
+    currency: string;
+}
+
+/** The same totals in the home currency of a rate snapshot */
+export interface ConvertedBudget {
+    rateSnapshotId: string;
+    ratesAsOf: string;              // ISO timestamp of the snapshot
+    currency: string;
+    rates: RateTable['rates'];      // So clients can convert single amounts the same way
+    days: { day: number, estimated: ConvertedTotal, actual: ConvertedTotal }[];
+    estimated: ConvertedTotal;
+    actual: ConvertedTotal;
+    unassigned: ConvertedTotal;
+    settlements: Settlement[];      // Shared expenses settled once, in the home currency
+}
+
+export interface BudgetSummary {
+    days: DayBudget[];
+    estimated: CurrencyTotals;      // Each currency on its own; see `converted` for a single total
+    actual: CurrencyTotals;
+    unassigned: CurrencyTotals;     // Expenses without a day, such as flights booked beforehand
+    paid: Record<ExpensePayer, CurrencyTotals>;
+    settlements: Settlement[];
+    converted: ConvertedBudget | null;  // Null until the Admin saves an exchange rate table
+}
+
+/** Reads the rate table stored in a snapshot; the API only ever stores validated tables */
+export function getRateTable(snapshot: RateSnapshot): RateTable {
+    return { homeCurrency: snapshot.homeCurrency, rates: snapshot.rates as Record<string, number> };
+}
+
+function addAmount(totals: CurrencyTotals, currency: string, amount: number): void {
+    totals[currency] = roundAmount((totals[currency] ?? 0) + amount);
+}
+
+/**
+ * Works out who owes whom for the shared expenses. Each currency is settled on its own:
+ * both travellers carry half of the shared total, and whoever paid less owes the difference.
+ * Amounts below one cent are treated as settled.
+ */
+export function settleExpenses(expenses: Expense[]): Settlement[] {
+    const paidByCurrency: Record<string, Record<ExpensePayer, number>> = {};
+
+    for (const expense of expenses) {
+        if (!expense.shared || !EXPENSE_PAYERS.includes(expense.payer as ExpensePayer)) continue;
+
+        const paid = paidByCurrency[expense.currency] ??= { admin: 0, trusted: 0 };
+        paid[expense.payer as ExpensePayer] += expense.amount;
+    }
+
+    const settlements: Settlement[] = [];
+    for (const [currency, paid] of Object.entries(paidByCurrency).sort(([a], [b]) => a.localeCompare(b))) {
+        // What the Admin paid beyond their half is what the Trusted User owes them, and vice versa
+        const balance = roundAmount(paid.admin - (paid.admin + paid.trusted) / 2);
+        if (balance >= 0.01) {
+            settlements.push({ from: 'trusted', to: 'admin', amount: balance, currency });
+        } else if (balance <= -0.01) {
+            settlements.push({ from: 'admin', to: 'trusted', amount: -balance, currency });
+        }
+    }
+    return settlements;
+}
+
+/**
+ * Converts a summary's totals with a rate snapshot. The settlement is recomputed from the
+ * converted shared expenses; those in a currency without a rate are left out of it.
+ */
+function convertBudget(summary: BudgetSummary, expenses: Expense[], snapshot: RateSnapshot): ConvertedBudget {
+    const table = getRateTable(snapshot);
+    const convert = (totals: CurrencyTotals) => convertTotals(totals, table, snapshot.id);
+
+    const convertedExpenses = expenses.flatMap(expense => {
+        const amount = convertAmount(expense.amount, expense.currency, table);
+        return amount === null ? [] : [{ ...expense, amount, currency: table.homeCurrency }];
+    });
+
+    return {
+        rateSnapshotId: snapshot.id,
+        ratesAsOf: snapshot.createdAt.toISOString(),
+        currency: table.homeCurrency,
+        rates: table.rates,
+        days: summary.days.map(day => ({ day: day.day, estimated: convert(day.estimated), actual: convert(day.actual) })),
+        estimated: convert(summary.estimated),
+        actual: convert(summary.actual),
+        unassigned: convert(summary.unassigned),
+        settlements: settleExpenses(convertedExpenses),
+    };
+}
+
+/**
+ * Totals the estimated costs of the places and the recorded expenses per day and for the
+ * whole trip, and settles the shared expenses. Days appear when they have either.
+ * With a rate snapshot, every total is also converted into its home currency.
+ */
+export function summarizeBudget(places: TripPlace[], expenses: Expense[], snapshot: RateSnapshot | null = null): BudgetSummary {
+    const days = new Map<number, DayBudget>();
+    const dayBudget = (day: number) => {
+        if (!days.has(day)) days.set(day, { day, estimated: {}, actual: {} });
+        return days.get(day)!;
+    };
+
+    const summary: BudgetSummary = {
+        days: [],
+        estimated: {},
+        actual: {},
+        unassigned: {},
+        paid: { admin: {}, trusted: {} },
+        settlements: settleExpenses(expenses),
+        converted: null,
+    };
+
+    for (const place of places) {
+        if (place.estimatedCost === null || !place.currency) continue;
+        addAmount(dayBudget(place.day).estimated, place.currency, place.estimatedCost);
+        addAmount(summary.estimated, place.currency, place.estimatedCost);
+    }
+
+    for (const expense of expenses) {
+        addAmount(expense.day === null ? summary.unassigned : dayBudget(expense.day).actual, expense.currency, expense.amount);
+        addAmount(summary.actual, expense.currency, expense.amount);
+        if (EXPENSE_PAYERS.includes(expense.payer as ExpensePayer)) {
+            addAmount(summary.paid[expense.payer as ExpensePayer], expense.currency, expense.amount);
+        }
+    }
+
+    summary.days = [...days.values()].sort((a, b) => a.day - b.day);
+    summary.converted = snapshot ? convertBudget(summary, expenses, snapshot) : null;
+    return summary;
+}
+
+const BUDGET_CSV_COLUMNS = ['kind', 'day', 'payer', 'category', 'description', 'shared', 'amount', 'currency', 'convertedAmount', 'homeCurrency', 'rateSnapshotId'];
+
+/** Several currencies in one CSV cell, e.g. "120.5 CNY + 20 USD" */
+function formatTotalsCell(totals: CurrencyTotals): string {
+    return Object.entries(totals).map(([currency, amount]) => `${amount} ${currency}`).join(' + ');
+}
+
+/**
+ * Serializes the expenses and totals of a trip with their original and converted amounts.
+ * CSV has one row per expense followed by "estimated" and "spent" rows per day and for the trip
+ * (empty day); totals in several currencies list each one in the amount column.
+ * JSON carries the same data along with the full rate snapshot.
+ */
+export function exportBudget(expenses: Expense[], summary: BudgetSummary, snapshot: RateSnapshot | null, format: BudgetExportFormat): string {
+    const table = snapshot ? getRateTable(snapshot) : null;
+    const converted = summary.converted;
+    const convertedExpenses = expenses.map(expense => ({
+        ...expense,
+        convertedAmount: table ? convertAmount(expense.amount, expense.currency, table) : null,
+    }));
+
+    if (format === 'json') {
+        return JSON.stringify({
+            rateSnapshot: snapshot,
+            expenses: convertedExpenses,
+            summary,
+        }, null, 2);
+    }
+
+    const totalRow = (kind: string, day: number | null, totals: CurrencyTotals, total: ConvertedTotal | undefined) => ({
+        kind,
+        day,
+        amount: formatTotalsCell(totals),
+        // A total missing some rates would read as complete, so it is left blank
+        convertedAmount: total && total.missing.length === 0 ? total.amount : null,
+        homeCurrency: total?.currency,
+        rateSnapshotId: total?.rateSnapshotId,
+    });
+
+    const rows = [
+        ...convertedExpenses.map(expense => ({
+            kind: 'expense',
+            day: expense.day,
+            payer: expense.payer,
+            category: expense.category,
+            description: expense.description,
+            shared: expense.shared ? 'yes' : 'no',
+            amount: expense.amount,
+            currency: expense.currency,
+            convertedAmount: expense.convertedAmount,
+            homeCurrency: converted?.currency,
+            rateSnapshotId: converted?.rateSnapshotId,
+        })),
+        ...summary.days.flatMap(day => {
+            const convertedDay = converted?.days.find(entry => entry.day === day.day);
+            return [
+                totalRow('estimated', day.day, day.estimated, convertedDay?.estimated),
+                totalRow('spent', day.day, day.actual, convertedDay?.actual),
+            ];
+        }),
+        totalRow('estimated', null, summary.estimated, converted?.estimated),
+        totalRow('spent', null, summary.actual, converted?.actual),
+    ];
+
+    return toCsv(BUDGET_CSV_COLUMNS, rows);
+}
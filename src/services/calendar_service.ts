@@ -0,0 +1,155 @@
+import { Trip, TripPlace } from '../../app/generated/prisma';
+
+// Places without a planned duration still need an end in calendar apps
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Suffix that keeps our UIDs globally unique; the TripPlace id makes them stable
+const UID_DOMAIN = 'date-planner';
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11).
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line at 75 octets (RFC 5545 §3.1), never splitting a multi-byte character.
+ */
+function foldLine(line: string): string {
+    const chunks: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+        const bytes = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards their 75 octets
+        const limit = chunks.length === 0 ? 75 : 74;
+
+        if (currentBytes + bytes > limit) {
+            chunks.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    chunks.push(current);
+
+    return chunks.join('\r\n ');
+}
+
+/** Formats a Date as a UTC DATE-TIME such as 20251101T013000Z */
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Formats a Date's UTC calendar day as a DATE such as 20251101 */
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * How far the given time zone is ahead of UTC at an instant, in minutes.
+ * Unknown zones are treated as UTC.
+ */
+function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+        }).formatToParts(instant);
+        const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+
+        const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+        return Math.round((wallClockAsUtc - instant.getTime()) / 60000);
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * The calendar day of a trip day: Day 1 is the trip's start date.
+ */
+export function getTripDayDate(trip: Trip, day: number): Date {
+    const start = trip.startDate;
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + day - 1));
+}
+
+/**
+ * The trip's local wall clock at an instant, as a Date whose UTC fields carry it.
+ * Booking times are stored the same way, so the two compare directly.
+ */
+export function toTripWallClock(trip: Trip, instant: Date = new Date()): Date {
+    return new Date(instant.getTime() + getTimeZoneOffsetMinutes(instant, trip.timezone) * 60000);
+}
+
+/**
+ * Converts minutes since midnight on a trip day, in the trip's time zone, to a UTC instant.
+ * The offset is looked up twice so days that change to or from daylight saving time land correctly.
+ */
+function toUtcInstant(trip: Trip, day: number, minutes: number): Date {
+    const wallClockAsUtc = getTripDayDate(trip, day).getTime() + minutes * 60000;
+    const firstGuess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), trip.timezone) * 60000;
+    return new Date(wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), trip.timezone) * 60000);
+}
+
+/**
+ * Builds the VEVENT lines for one place. Timed places become UTC events lasting their
+ * duration; places with only a fuzzy label become all-day events on their trip day.
+ */
+function buildEvent(trip: Trip, place: TripPlace): string[] {
+    const description = [place.purpose, place.timeLabel, place.notes].filter(Boolean).join('\n');
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${place.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${formatUtc(place.updatedAt)}`,
+        `LAST-MODIFIED:${formatUtc(place.updatedAt)}`,
+    ];
+
+    if (place.startTime !== null) {
+        lines.push(`DTSTART:${formatUtc(toUtcInstant(trip, place.day, place.startTime))}`);
+        lines.push(`DURATION:PT${place.durationMinutes || DEFAULT_EVENT_MINUTES}M`);
+    } else {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(getTripDayDate(trip, place.day))}`);
+        lines.push(`DTEND;VALUE=DATE:${formatDate(getTripDayDate(trip, place.day + 1))}`);
+    }
+
+    lines.push(
+        `SUMMARY:${escapeText(place.name)}`,
+        `LOCATION:${escapeText(place.name)}`,
+        `GEO:${place.latitude};${place.longitude}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `CATEGORIES:${escapeText(place.purpose)}`,
+        'END:VEVENT'
+    );
+    return lines;
+}
+
+/**
+ * Renders a trip's places as an iCalendar (RFC 5545) feed.
+ * UIDs are derived from the TripPlace id, so a re-fetched feed updates existing events
+ * in subscribed calendars instead of duplicating them.
+ */
+export function buildItineraryCalendar(trip: Trip, places: TripPlace[], calendarName: string = trip.title): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:-//${UID_DOMAIN}//Itinerary//EN`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        `X-WR-TIMEZONE:${trip.timezone}`,
+        ...places.flatMap(place => buildEvent(trip, place)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,93 @@
+import { AuditAction } from '../utils/audit_utils';
+
+export type LiveEntityType = 'TripPlace' | 'Suggestion' | 'SuggestionComment' | 'Expense' | 'RateSnapshot' | 'ChecklistItem' | 'Booking' | 'Attachment';
+
+/**
+ * A change pushed to open clients over /api/events. It only names what changed;
+ * clients re-fetch through the regular endpoints, which apply their own permissions.
+ */
+export interface LiveEvent {
+    entityType: LiveEntityType;
+    action: AuditAction;
+    tripId: string;
+    entityIds: string[];
+    at: string;             // ISO timestamp
+}
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+/**
+ * Fans change events out to subscribers. The default broker lives in this process, which is
+ * enough for a single Node server; deployments with several instances can plug in one backed
+ * by Redis pub/sub or Postgres LISTEN/NOTIFY through setEventBroker.
+ */
+export interface EventBroker {
+    publish(event: LiveEvent): void;
+    /** Returns a function that removes the listener again */
+    subscribe(listener: LiveEventListener): () => void;
+}
+
+/**
+ * Creates a broker that delivers events synchronously to listeners in this process.
+ * A failing listener is logged and does not stop delivery to the others.
+ */
+export function createInProcessBroker(): EventBroker {
+    const listeners = new Set<LiveEventListener>();
+
+    return {
+        publish(event) {
+            for (const listener of listeners) {
+                try {
+                    listener(event);
+                } catch (error) {
+                    console.error('Error in live event listener:', error);
+                }
+            }
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+// The broker is kept on the global object so every API route bundle, and every hot reload
+// in development, publishes to and subscribes on the same instance.
+const globalForEvents = global as unknown as { eventBroker?: EventBroker };
+
+export function getEventBroker(): EventBroker {
+    if (!globalForEvents.eventBroker) {
+        globalForEvents.eventBroker = createInProcessBroker();
+    }
+    return globalForEvents.eventBroker;
+}
+
+/**
+ * Replaces the broker, e.g. with one shared between server instances. Existing subscribers
+ * stay on the old broker, so call this at startup before any client connects.
+ */
+export function setEventBroker(broker: EventBroker): void {
+    globalForEvents.eventBroker = broker;
+}
+
+/**
+ * Announces committed changes to records of one trip. Call it after the transaction that made
+ * them; a failing broker is logged rather than failing the request that already succeeded.
+ */
+export function publishChange(entityType: LiveEntityType, action: AuditAction, records: { id: string, tripId: string }[]): void {
+    if (records.length === 0) return;
+
+    try {
+        getEventBroker().publish({
+            entityType,
+            action,
+            tripId: records[0].tripId,
+            entityIds: records.map(record => record.id),
+            at: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error publishing live event:', error);
+    }
+}
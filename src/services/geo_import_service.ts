@@ -0,0 +1,178 @@
+import { XMLParser } from 'fast-xml-parser';
+import { TRIP_PLACE_SCHEMA } from '../utils/schemas';
+
+export type GeoFormat = 'gpx' | 'kml' | 'geojson';
+
+export const GEO_FORMATS: GeoFormat[] = ['gpx', 'kml', 'geojson'];
+
+/**
+ * A point read from a mapping app export. Day, time and purpose are assigned by the Admin
+ * before it becomes a TripPlace.
+ */
+export interface DraftPlace {
+    name: string;
+    latitude: number;
+    longitude: number;
+    notes: string | null;
+}
+
+export interface GeoImportResult {
+    drafts: DraftPlace[];
+    skipped: number;        // Points with missing or out-of-range coordinates
+}
+
+const NAME_MAX = TRIP_PLACE_SCHEMA.name.maxLength!;
+const NOTES_MAX = TRIP_PLACE_SCHEMA.notes.maxLength!;
+
+const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+});
+
+/** Reads the text of a parsed XML element, which may be a string or an object with attributes */
+function textOf(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return textOf((value as Record<string, unknown>)['#text']);
+    return String(value);
+}
+
+/** Descriptions from mapping apps are often HTML; keep the readable text only */
+function cleanDescription(value: string): string | null {
+    const text = value
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return text ? text.slice(0, NOTES_MAX) : null;
+}
+
+/** Finds every element with the given tag anywhere below a parsed XML node */
+function collectElements(node: unknown, tag: string, found: Record<string, unknown>[] = []): Record<string, unknown>[] {
+    if (Array.isArray(node)) {
+        node.forEach(child => collectElements(child, tag, found));
+    } else if (node && typeof node === 'object') {
+        for (const [key, child] of Object.entries(node)) {
+            if (key === tag) {
+                (Array.isArray(child) ? child : [child]).forEach(element => found.push(element));
+            } else if (!key.startsWith('@')) {
+                collectElements(child, tag, found);
+            }
+        }
+    }
+    return found;
+}
+
+function parseGpx(content: string): Partial<DraftPlace>[] {
+    return collectElements(xmlParser.parse(content), 'wpt').map(waypoint => ({
+        name: textOf(waypoint.name),
+        latitude: parseFloat(textOf(waypoint['@lat'])),
+        longitude: parseFloat(textOf(waypoint['@lon'])),
+        notes: cleanDescription(textOf(waypoint.desc) || textOf(waypoint.cmt)),
+    }));
+}
+
+function parseKml(content: string): Partial<DraftPlace>[] {
+    return collectElements(xmlParser.parse(content), 'Placemark').flatMap(placemark => {
+        // Only Point placemarks (possibly inside a MultiGeometry) describe a single spot
+        const [point] = collectElements(placemark, 'Point');
+        if (!point) return [];
+
+        // KML coordinates are "longitude,latitude[,altitude]"
+        const [longitude, latitude] = textOf(point.coordinates).trim().split(',').map(parseFloat);
+        return [{
+            name: textOf(placemark.name),
+            latitude,
+            longitude,
+            notes: cleanDescription(textOf(placemark.description)),
+        }];
+    });
+}
+
+/** A GeoJSON Feature whose geometry is a single position */
+interface PointFeature {
+    geometry: { type: 'Point'; coordinates: unknown[] };
+    properties?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPointFeature(value: unknown): value is PointFeature {
+    return isRecord(value) && isRecord(value.geometry) &&
+        value.geometry.type === 'Point' && Array.isArray(value.geometry.coordinates);
+}
+
+/** Text of the first property that is set, for names and descriptions stored under different keys */
+function propertyText(properties: Record<string, unknown>, keys: string[]): string {
+    const value = keys.map(key => properties[key]).find(value => value !== undefined && value !== null);
+    return value === undefined ? '' : String(value);
+}
+
+function parseGeoJson(content: string): Partial<DraftPlace>[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid GeoJSON.');
+    }
+
+    const features: unknown[] = !isRecord(data) ? []
+        : data.type === 'FeatureCollection' ? (Array.isArray(data.features) ? data.features : [])
+        : data.type === 'Feature' ? [data]
+        : [];
+
+    return features.filter(isPointFeature).map(feature => {
+        const properties = isRecord(feature.properties) ? feature.properties : {};
+        // GeoJSON positions are [longitude, latitude]; anything else is left out and counted as skipped
+        const [longitude, latitude] = feature.geometry.coordinates;
+        return {
+            name: propertyText(properties, ['name', 'title']),
+            latitude: typeof latitude === 'number' ? latitude : undefined,
+            longitude: typeof longitude === 'number' ? longitude : undefined,
+            notes: cleanDescription(propertyText(properties, ['description', 'desc', 'notes'])),
+        };
+    });
+}
+
+/**
+ * Reads GPX waypoints, KML Point placemarks or GeoJSON Point features into draft places.
+ * Points without usable coordinates are counted as skipped; unnamed points get a numbered name.
+ * Throws an Error with a readable message when the file cannot be parsed at all.
+ */
+export function parseGeoFile(content: string, format: GeoFormat): GeoImportResult {
+    let points: Partial<DraftPlace>[];
+    try {
+        points = format === 'gpx' ? parseGpx(content)
+            : format === 'kml' ? parseKml(content)
+            : parseGeoJson(content);
+    } catch (error: any) {
+        throw new Error(error.message?.startsWith('The file') ? error.message : `The file is not valid ${format.toUpperCase()}.`);
+    }
+
+    const drafts: DraftPlace[] = [];
+    let skipped = 0;
+
+    for (const point of points) {
+        const { latitude, longitude } = point;
+        if (typeof latitude !== 'number' || typeof longitude !== 'number' ||
+            !Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+            Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            skipped++;
+            continue;
+        }
+
+        drafts.push({
+            name: (point.name || '').trim().slice(0, NAME_MAX) || `Waypoint ${drafts.length + 1}`,
+            latitude,
+            longitude,
+            notes: point.notes ?? null,
+        });
+    }
+
+    return { drafts, skipped };
+}
@@ -1,4 +1,8 @@
-import { PrismaClient, TripPlace, Suggestion, SuggestionStatus } from '../../app/generated/prisma';
+import { PrismaClient, Prisma, Trip, TripPlace, Suggestion, SuggestionComment, SuggestionStatus, AuditEvent, Expense, RateSnapshot, ChecklistItem, Booking, Attachment } from '../../app/generated/prisma';
+import { CreateAttachmentData, CreateBookingData, CreateChecklistItemData, CreateExpenseData, CreateSuggestionData, CreateTripData, CreateTripPlaceData, RateTableInput, ReorderInput, TripPlaceInput, UpdateBookingData, UpdateChecklistItemData, UpdateExpenseData, UpdateTripData, UpdateTripPlaceData } from '../utils/schemas';
+import { AuditAction, AuditActor, AuditEntityType, diffRecords } from '../utils/audit_utils';
+import { isCompleteDayOrder, planReorder } from './schedule_service';
+import { publishChange } from './event_service';
 
 // Prisma is exported as a module to handle connection pooling efficiently
 // in a serverless environment like Vercel.
@@ -15,42 +19,166 @@ if (process.env.NODE_ENV === 'production') {
   prisma = (global as any).prisma;
 }
 
-/** Data required for creating a new Suggestion */
-export interface CreateSuggestionData {
-    userId: string;
-    title: string;
-    text: string;
+/** Filters for reading the audit log; all optional */
+export interface AuditEventFilters {
+    tripId?: string;
+    entityType?: AuditEntityType;
+    entityId?: string;
+    action?: AuditAction;
+    actorRole?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
 }
 
-/** Data required for creating a new TripPlace */
-export interface CreateTripPlaceData {
-    day: number;
-    time: string;
-    name: string;
-    purpose: string;
-    notes?: string;
-    latitude: number;
-    longitude: number;
+/** Data required for adding a comment to a Suggestion thread */
+export interface CreateSuggestionCommentData {
+    suggestionId: string;
+    authorRole: 'admin' | 'trusted';
+    body: string;
 }
 
-/** Data required for updating an existing TripPlace */
-export type UpdateTripPlaceData = Partial<Omit<CreateTripPlaceData, 'day'>> & { day?: number };
 
+// --- 3. TRIP CRUD (Trip Management) ---
+
+/**
+ * Fetches all trips, newest first (Read).
+ */
+export async function getTrips(): Promise<Trip[]> {
+    return prisma.trip.findMany({
+        orderBy: {
+            startDate: 'desc',
+        },
+    });
+}
+
+/**
+ * Fetches a single trip by ID (Read). Returns null when it does not exist.
+ */
+export async function getTrip(id: string): Promise<Trip | null> {
+    return prisma.trip.findUnique({
+        where: { id },
+    });
+}
+
+/**
+ * Picks the trip to show when the client does not ask for one explicitly:
+ * the next trip that has not ended yet, otherwise the most recent past trip.
+ */
+export async function getDefaultTrip(): Promise<Trip | null> {
+    const upcoming = await prisma.trip.findFirst({
+        where: { endDate: { gte: new Date() } },
+        orderBy: { startDate: 'asc' },
+    });
+
+    if (upcoming) return upcoming;
+
+    return prisma.trip.findFirst({
+        orderBy: { startDate: 'desc' },
+    });
+}
+
+/** Trip days are stored at midnight UTC */
+function toTripDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+}
+
+/** Maps validated fields to columns; a cleared time zone goes back to the UTC default */
+function toTripColumns<T extends UpdateTripData>(data: T) {
+    const { startDate, endDate, timezone, ...columns } = data;
+    return {
+        ...columns,
+        startDate: startDate ? toTripDate(startDate) : undefined,
+        endDate: endDate ? toTripDate(endDate) : undefined,
+        timezone: timezone === null ? 'UTC' : timezone,
+    };
+}
+
+/**
+ * Creates a new Trip record (Create).
+ */
+export async function createTrip(data: CreateTripData, actor: AuditActor): Promise<Trip> {
+    return prisma.$transaction(async (tx) => {
+        const trip = await tx.trip.create({
+            data: { ...toTripColumns(data), startDate: toTripDate(data.startDate), endDate: toTripDate(data.endDate) },
+        });
+        await recordAuditEvent(tx, actor, 'Trip', 'create', null, trip);
+        return trip;
+    });
+}
+
+/**
+ * Updates an existing Trip record (Update).
+ */
+export async function updateTrip(id: string, data: UpdateTripData, actor: AuditActor): Promise<Trip> {
+    return prisma.$transaction(async (tx) => {
+        const before = await tx.trip.findUnique({ where: { id } });
+        const trip = await tx.trip.update({
+            where: { id },
+            data: toTripColumns(data),
+        });
+        await recordAuditEvent(tx, actor, 'Trip', 'update', before, trip);
+        return trip;
+    });
+}
+
+/**
+ * Deletes a Trip together with its places, suggestions and attachments (Delete).
+ * Also returns the deleted attachments; the caller removes their files afterwards.
+ */
+export async function deleteTrip(id: string, actor: AuditActor): Promise<{ trip: Trip, attachments: Attachment[] }> {
+    return prisma.$transaction(async (tx) => {
+        const attachments = await tx.attachment.findMany({ where: { tripId: id } });
+        const trip = await tx.trip.delete({
+            where: { id },
+        });
+        await recordAuditEvent(tx, actor, 'Trip', 'delete', trip, null);
+        return { trip, attachments };
+    });
+}
 
-// --- 3. TRIPPLACE CRUD (Itinerary Management) ---
+
+// --- 4. TRIPPLACE CRUD (Itinerary Management) ---
 
 /**
- * Fetches the official trip itinerary places (Read).
+ * Fetches the itinerary places of a single trip, leaving out soft-deleted ones (Read).
+ * @param tripId - The trip the places belong to.
  * @param day - Optional day number to filter.
  */
-export async function getTripPlaces(day?: number): Promise<TripPlace[]> {
-    const whereClause = day ? { day: day } : {};
+export async function getTripPlaces(tripId: string, day?: number): Promise<TripPlace[]> {
+    // Soft-deleted places stay in the table until restored, but are never part of the plan
+    const whereClause = day ? { tripId, day, deletedAt: null } : { tripId, deletedAt: null };
 
     return prisma.tripPlace.findMany({
         where: whereClause,
+        orderBy: [
+            // Sorting by day, then start time ensures the events are chronological;
+            // unscheduled places go last. Ties keep their drag-and-drop order, then the order they were added.
+            { day: 'asc' },
+            { startTime: { sort: 'asc', nulls: 'last' } },
+            { position: 'asc' },
+            { createdAt: 'asc' },
+        ],
+    });
+}
+
+/**
+ * Fetches a single place by ID, including a soft-deleted one (Read). Returns null when it does not exist.
+ */
+export async function getTripPlace(id: string): Promise<TripPlace | null> {
+    return prisma.tripPlace.findUnique({
+        where: { id },
+    });
+}
+
+/**
+ * Fetches the soft-deleted places of a trip, most recently deleted first (Read).
+ */
+export async function getDeletedTripPlaces(tripId: string): Promise<TripPlace[]> {
+    return prisma.tripPlace.findMany({
+        where: { tripId, deletedAt: { not: null } },
         orderBy: {
-            // Sorting by time ensures the day's events are sequential
-            time: 'asc',
+            deletedAt: 'desc',
         },
     });
 }
@@ -58,70 +186,816 @@ export async function getTripPlaces(day?: number): Promise<TripPlace[]> {
 /**
  * Creates a new TripPlace record (Create).
  */
-export async function createTripPlace(data: CreateTripPlaceData): Promise<TripPlace> {
-    return prisma.tripPlace.create({ data });
+export async function createTripPlace(data: CreateTripPlaceData, actor: AuditActor): Promise<TripPlace> {
+    const place = await prisma.$transaction(async (tx) => {
+        const place = await tx.tripPlace.create({ data });
+        await recordAuditEvent(tx, actor, 'TripPlace', 'create', null, place);
+        return place;
+    });
+    publishChange('TripPlace', 'create', [place]);
+    return place;
 }
 
 /**
- * Updates an existing TripPlace record (Update).
+ * Creates many TripPlace records for one trip in a single transaction (Create).
+ * Either every place is created or none is. The places and their audit events are
+ * written as two bulk inserts, so a large import stays well within the transaction timeout.
  */
-export async function updateTripPlace(id: string, data: UpdateTripPlaceData): Promise<TripPlace> {
-    return prisma.tripPlace.update({
-        where: { id },
-        data,
+export async function createTripPlaces(tripId: string, places: TripPlaceInput[], actor: AuditActor): Promise<TripPlace[]> {
+    const created = await prisma.$transaction(async (tx) => {
+        const created = await tx.tripPlace.createManyAndReturn({ data: places.map(data => ({ ...data, tripId })) });
+        await tx.auditEvent.createMany({
+            data: created.map(place => buildAuditEvent(actor, 'TripPlace', 'create', null, place)!),
+        });
+        return created;
     });
+    publishChange('TripPlace', 'create', created);
+    return created;
 }
 
 /**
- * Deletes a TripPlace record (Delete).
+ * Updates an existing TripPlace record (Update). Deleted places must be restored first.
+ * @param expectedVersion - Optional version the edit is based on (If-Match). Fails with Prisma
+ *   error P2025 when the place has been changed since, as well as when it does not exist.
  */
-export async function deleteTripPlace(id: string): Promise<TripPlace> {
-    return prisma.tripPlace.delete({
-        where: { id },
+export async function updateTripPlace(id: string, data: UpdateTripPlaceData, actor: AuditActor, expectedVersion?: number): Promise<TripPlace> {
+    const place = await prisma.$transaction(async (tx) => {
+        const before = await tx.tripPlace.findUnique({ where: { id } });
+        const place = await tx.tripPlace.update({
+            where: expectedVersion === undefined ? { id, deletedAt: null } : { id, deletedAt: null, version: expectedVersion },
+            data: { ...data, version: { increment: 1 } },
+        });
+        await recordAuditEvent(tx, actor, 'TripPlace', 'update', before, place);
+        return place;
     });
+    publishChange('TripPlace', 'update', [place]);
+    return place;
 }
 
+/**
+ * Soft-deletes a TripPlace record by stamping deletedAt (Delete).
+ * Fails with Prisma error P2025 if the place does not exist or is already deleted.
+ */
+export async function deleteTripPlace(id: string, actor: AuditActor): Promise<TripPlace> {
+    const place = await prisma.$transaction(async (tx) => {
+        const before = await tx.tripPlace.findUnique({ where: { id } });
+        const place = await tx.tripPlace.update({
+            where: { id, deletedAt: null },
+            data: { deletedAt: new Date(), version: { increment: 1 } },
+        });
+        await recordAuditEvent(tx, actor, 'TripPlace', 'delete', before, place);
+        return place;
+    });
+    publishChange('TripPlace', 'delete', [place]);
+    return place;
+}
+
+/**
+ * Permanently deletes a soft-deleted TripPlace with its bookings and attachments (Delete).
+ * Also returns the deleted attachments; the caller removes their files afterwards.
+ * Fails with Prisma error P2025 if the place does not exist or has not been deleted first.
+ */
+export async function purgeTripPlace(id: string, actor: AuditActor): Promise<{ place: TripPlace, attachments: Attachment[] }> {
+    const result = await prisma.$transaction(async (tx) => {
+        const attachments = await tx.attachment.findMany({ where: { placeId: id } });
+        const place = await tx.tripPlace.delete({
+            where: { id, deletedAt: { not: null } },
+        });
+        await recordAuditEvent(tx, actor, 'TripPlace', 'delete', place, null);
+        return { place, attachments };
+    });
+    publishChange('TripPlace', 'delete', [result.place]);
+    return result;
+}
+
+/**
+ * Brings a soft-deleted TripPlace back into the itinerary (Update).
+ * Fails with Prisma error P2025 if the place does not exist or is not deleted.
+ */
+export async function restoreTripPlace(id: string, actor: AuditActor): Promise<TripPlace> {
+    const place = await prisma.$transaction(async (tx) => {
+        const before = await tx.tripPlace.findUnique({ where: { id } });
+        const place = await tx.tripPlace.update({
+            where: { id, deletedAt: { not: null } },
+            data: { deletedAt: null, version: { increment: 1 } },
+        });
+        await recordAuditEvent(tx, actor, 'TripPlace', 'restore', before, place);
+        return place;
+    });
+    publishChange('TripPlace', 'restore', [place]);
+    return place;
+}
 
-// --- 4. SUGGESTION CRUD (User Submission & Inbox Management) ---
+
+/**
+ * Applies a drag-and-drop reorder of one day in a single transaction (Update).
+ * Moves the listed places to the day, stores their new order and re-times the moved place
+ * (see planReorder); the day the moved place left is renumbered so its positions stay contiguous.
+ * Returns null when the IDs are not exactly the day's live places plus the moved one (see isCompleteDayOrder).
+ */
+export async function reorderTripPlaces(tripId: string, input: ReorderInput, actor: AuditActor): Promise<TripPlace[] | null> {
+    const changed: TripPlace[] = [];
+    const result = await prisma.$transaction(async (tx) => {
+        const places = await tx.tripPlace.findMany({
+            where: { id: { in: input.placeIds }, tripId, deletedAt: null },
+        });
+        const dayPlaces = await tx.tripPlace.findMany({
+            where: { tripId, day: input.day, deletedAt: null },
+            select: { id: true },
+        });
+        if (places.length !== input.placeIds.length ||
+            !isCompleteDayOrder(dayPlaces.map(place => place.id), input.placeIds, input.movedPlaceId)) {
+            return null;
+        }
+
+        const byId = new Map(places.map(place => [place.id, place]));
+        const ordered = input.placeIds.map(id => byId.get(id)!);
+        const moves = planReorder(input.day, ordered, input);
+
+        const result: TripPlace[] = [];
+        for (const move of moves) {
+            const before = byId.get(move.id)!;
+            if (before.day === move.day && before.position === move.position && before.startTime === move.startTime) {
+                result.push(before);
+                continue;
+            }
+
+            const place = await tx.tripPlace.update({
+                where: { id: move.id },
+                data: { day: move.day, position: move.position, startTime: move.startTime, version: { increment: 1 } },
+            });
+            await recordAuditEvent(tx, actor, 'TripPlace', 'update', before, place);
+            changed.push(place);
+            result.push(place);
+        }
+
+        // Close the gap the moved place leaves in the day it came from
+        const sourceDays = new Set(places.filter(place => place.day !== input.day).map(place => place.day));
+        for (const day of sourceDays) {
+            const remaining = await tx.tripPlace.findMany({
+                where: { tripId, day, deletedAt: null },
+                orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+            });
+            for (const [position, before] of remaining.entries()) {
+                if (before.position === position) continue;
+
+                const place = await tx.tripPlace.update({
+                    where: { id: before.id },
+                    data: { position, version: { increment: 1 } },
+                });
+                await recordAuditEvent(tx, actor, 'TripPlace', 'update', before, place);
+                changed.push(place);
+            }
+        }
+        return result;
+    });
+    publishChange('TripPlace', 'update', changed);
+    return result;
+}
+
+// --- 5. SUGGESTION CRUD (User Submission & Inbox Management) ---
 
 /**
  * Creates a new user suggestion (Create). Status is defaulted to PENDING.
  */
-export async function createSuggestion(data: CreateSuggestionData): Promise<Suggestion> {
-    return prisma.suggestion.create({
-        data: {
-            userId: data.userId,
-            title: data.title,
-            text: data.text,
-            status: SuggestionStatus.Pending,
-        },
+export async function createSuggestion(data: CreateSuggestionData, actor: AuditActor): Promise<Suggestion> {
+    const suggestion = await prisma.$transaction(async (tx) => {
+        const suggestion = await tx.suggestion.create({
+            data: {
+                tripId: data.tripId,
+                userId: data.userId,
+                title: data.title,
+                text: data.text,
+                status: SuggestionStatus.Pending,
+            },
+        });
+        await recordAuditEvent(tx, actor, 'Suggestion', 'create', null, suggestion);
+        return suggestion;
     });
+    publishChange('Suggestion', 'create', [suggestion]);
+    return suggestion;
+}
+
+// The place a scheduled suggestion became, as shown in the suggestion lists
+const SCHEDULED_PLACE_FIELDS = { id: true, name: true, day: true, startTime: true, timeLabel: true, deletedAt: true } as const;
+
+/** A soft-deleted place no longer counts as the suggestion being scheduled */
+function hideDeletedScheduledPlaces<T extends { scheduledPlace: { deletedAt: Date | null } | null }>(suggestions: T[]): T[] {
+    return suggestions.map(suggestion => suggestion.scheduledPlace?.deletedAt ? { ...suggestion, scheduledPlace: null } : suggestion);
 }
 
 /**
- * Fetches all user suggestions (Read - Admin Inbox).
+ * Fetches all user suggestions of a trip (Read - Admin Inbox).
+ * @param tripId - The trip the suggestions belong to.
  * @param status - Optional status to filter by (PENDING, APPROVED, REJECTED).
  */
-export async function getSuggestions(status?: SuggestionStatus): Promise<Suggestion[]> {
-    const whereClause = status ? { status } : {};
-    return prisma.suggestion.findMany({
+export async function getSuggestions(tripId: string, status?: SuggestionStatus): Promise<Suggestion[]> {
+    const whereClause = status ? { tripId, status } : { tripId };
+    const suggestions = await prisma.suggestion.findMany({
         where: whereClause,
+        include: {
+            // Lets the inbox show which itinerary place an approved suggestion became
+            scheduledPlace: {
+                select: SCHEDULED_PLACE_FIELDS,
+            },
+            _count: {
+                select: { comments: true },
+            },
+        },
         orderBy: {
             createdAt: 'desc', // Show newest suggestions first
         },
     });
+    return hideDeletedScheduledPlaces(suggestions);
+}
+
+/**
+ * Fetches the suggestions one submitter sent, newest first (Read - "My suggestions").
+ * @param userId - The submitter's identifier from their session.
+ * @param tripId - Optional trip to restrict the list to.
+ */
+export async function getSuggestionsByUser(userId: string, tripId?: string): Promise<Suggestion[]> {
+    const whereClause = tripId ? { userId, tripId } : { userId };
+    const suggestions = await prisma.suggestion.findMany({
+        where: whereClause,
+        include: {
+            scheduledPlace: {
+                select: SCHEDULED_PLACE_FIELDS,
+            },
+            _count: {
+                select: { comments: true },
+            },
+        },
+        orderBy: {
+            createdAt: 'desc',
+        },
+    });
+    return hideDeletedScheduledPlaces(suggestions);
+}
+
+/**
+ * Fetches a single suggestion by ID (Read). Returns null when it does not exist.
+ */
+export async function getSuggestion(id: string): Promise<Suggestion | null> {
+    return prisma.suggestion.findUnique({
+        where: { id },
+    });
 }
 
 /**
  * Updates the status of a specific suggestion (Update - Admin Review).
+ * Returns null when the suggestion is already an itinerary place, so the place never points
+ * at a suggestion that is no longer approved; a soft-deleted place is unlinked instead. Fails with Prisma error P2025 if it does not exist.
+ * @param reviewNote - Optional reviewer note; replaces any earlier note.
+ */
+export async function updateSuggestionStatus(id: string, newStatus: SuggestionStatus, actor: AuditActor, reviewNote?: string | null): Promise<Suggestion | null> {
+    const suggestion = await prisma.$transaction(async (tx) => {
+        const scheduledPlace = await tx.tripPlace.findUnique({ where: { sourceSuggestionId: id } });
+        if (scheduledPlace && !scheduledPlace.deletedAt) return null;
+
+        // A deleted place lets go of the suggestion, so restoring it later cannot link it to a rejection
+        if (scheduledPlace) {
+            const detached = await tx.tripPlace.update({ where: { id: scheduledPlace.id }, data: { sourceSuggestionId: null } });
+            await recordAuditEvent(tx, actor, 'TripPlace', 'update', scheduledPlace, detached);
+        }
+
+        const before = await tx.suggestion.findUnique({ where: { id } });
+        const suggestion = await tx.suggestion.update({
+            where: { id },
+            data: { status: newStatus, reviewNote: reviewNote || null },
+        });
+        await recordAuditEvent(tx, actor, 'Suggestion', 'status', before, suggestion);
+        return suggestion;
+    });
+    if (!suggestion) return null;
+
+    publishChange('Suggestion', 'status', [suggestion]);
+    return suggestion;
+}
+
+/**
+ * Fetches the comment thread of a suggestion, oldest first (Read).
  */
-export async function updateSuggestionStatus(id: string, newStatus: SuggestionStatus): Promise<Suggestion> {
-    return prisma.suggestion.update({
+export async function getSuggestionComments(suggestionId: string): Promise<SuggestionComment[]> {
+    return prisma.suggestionComment.findMany({
+        where: { suggestionId },
+        orderBy: {
+            createdAt: 'asc',
+        },
+    });
+}
+
+/**
+ * Adds a comment to a suggestion thread (Create).
+ * Fails with Prisma error P2003 if the suggestion does not exist.
+ */
+export async function createSuggestionComment(data: CreateSuggestionCommentData, actor: AuditActor): Promise<SuggestionComment> {
+    const { comment, tripId } = await prisma.$transaction(async (tx) => {
+        const comment = await tx.suggestionComment.create({ data });
+        const { tripId } = await tx.suggestion.findUniqueOrThrow({ where: { id: data.suggestionId }, select: { tripId: true } });
+
+        // Comments have no trip of their own; the suggestion's is recorded so the history can filter by trip
+        const audited = { ...comment, tripId };
+        await recordAuditEvent(tx, actor, 'SuggestionComment', 'create', null, audited);
+        return { comment, tripId };
+    });
+    publishChange('SuggestionComment', 'create', [{ id: comment.id, tripId }]);
+    return comment;
+}
+
+/**
+ * Approves a pending suggestion and creates its itinerary place in one transaction (Update + Create).
+ * The place belongs to the suggestion's trip and keeps a link back via sourceSuggestionId;
+ * an empty name or missing notes fall back to the suggestion's title and text. Any earlier
+ * review note is cleared. Returns null when the suggestion is no longer pending; fails with Prisma error P2025
+ * if it does not exist and P2002 if it was already scheduled.
+ */
+export async function approveAndScheduleSuggestion(
+    id: string,
+    placeData: TripPlaceInput,
+    actor: AuditActor
+): Promise<{ suggestion: Suggestion, place: TripPlace } | null> {
+    const result = await prisma.$transaction(async (tx) => {
+        const before = await tx.suggestion.findUnique({ where: { id } });
+        if (before && before.status !== SuggestionStatus.Pending) return null;
+
+        // Filtering on the status as well keeps two concurrent approvals from both going through
+        const suggestion = await tx.suggestion.update({
+            where: { id, status: SuggestionStatus.Pending },
+            data: { status: SuggestionStatus.Approved, reviewNote: null },
+        });
+
+        const place = await tx.tripPlace.create({
+            data: {
+                ...placeData,
+                name: placeData.name || suggestion.title,
+                notes: placeData.notes ?? suggestion.text,
+                tripId: suggestion.tripId,
+                sourceSuggestionId: suggestion.id,
+            },
+        });
+
+        await recordAuditEvent(tx, actor, 'Suggestion', 'status', before, suggestion);
+        await recordAuditEvent(tx, actor, 'TripPlace', 'create', null, place);
+        return { suggestion, place };
+    });
+    if (!result) return null;
+
+    publishChange('Suggestion', 'status', [result.suggestion]);
+    publishChange('TripPlace', 'create', [result.place]);
+    return result;
+}
+
+
+// --- 6. EXPENSES (Budget Tracking) ---
+
+/**
+ * Fetches the expenses of a trip by day, with expenses not tied to a day last (Read).
+ */
+export async function getExpenses(tripId: string): Promise<Expense[]> {
+    return prisma.expense.findMany({
+        where: { tripId },
+        orderBy: [
+            { day: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'asc' },
+        ],
+    });
+}
+
+/**
+ * Checks that a linked place is a live place of the trip and, unless a day was given,
+ * books the expense on the place's day. Returns null when the place does not belong to the trip.
+ */
+async function resolveExpensePlace<T extends UpdateExpenseData>(tx: Prisma.TransactionClient, tripId: string, data: T): Promise<T | null> {
+    if (!data.placeId) return data;
+
+    const place = await tx.tripPlace.findFirst({ where: { id: data.placeId, tripId, deletedAt: null } });
+    if (!place) return null;
+
+    return { ...data, day: data.day ?? place.day };
+}
+
+/** Maps validated fields to columns; a cleared category or shared flag goes back to its default */
+function toExpenseColumns<T extends UpdateExpenseData>(data: T) {
+    const { category, shared, ...columns } = data;
+    return {
+        ...columns,
+        category: category === null ? 'Other' as const : category,
+        shared: shared === null ? true : shared,
+    };
+}
+
+/**
+ * Creates a new Expense record (Create). Returns null when the linked place is not part of the trip.
+ */
+export async function createExpense(data: CreateExpenseData, actor: AuditActor): Promise<Expense | null> {
+    const expense = await prisma.$transaction(async (tx) => {
+        const resolved = await resolveExpensePlace(tx, data.tripId, data);
+        if (!resolved) return null;
+
+        const expense = await tx.expense.create({ data: toExpenseColumns(resolved) });
+        await recordAuditEvent(tx, actor, 'Expense', 'create', null, expense);
+        return expense;
+    });
+    if (expense) publishChange('Expense', 'create', [expense]);
+    return expense;
+}
+
+/**
+ * Updates an existing Expense record (Update). Returns null when a newly linked place is not
+ * part of the expense's trip; fails with Prisma error P2025 if the expense does not exist.
+ */
+export async function updateExpense(id: string, data: UpdateExpenseData, actor: AuditActor): Promise<Expense | null> {
+    const expense = await prisma.$transaction(async (tx) => {
+        const before = await tx.expense.findUnique({ where: { id } });
+        const resolved = before ? await resolveExpensePlace(tx, before.tripId, data) : data;
+        if (!resolved) return null;
+
+        const expense = await tx.expense.update({
+            where: { id },
+            data: toExpenseColumns(resolved),
+        });
+        await recordAuditEvent(tx, actor, 'Expense', 'update', before, expense);
+        return expense;
+    });
+    if (expense) publishChange('Expense', 'update', [expense]);
+    return expense;
+}
+
+/**
+ * Permanently deletes an Expense record (Delete); the audit log keeps its last state.
+ * Fails with Prisma error P2025 if the expense does not exist.
+ */
+export async function deleteExpense(id: string, actor: AuditActor): Promise<Expense> {
+    const expense = await prisma.$transaction(async (tx) => {
+        const expense = await tx.expense.delete({ where: { id } });
+        await recordAuditEvent(tx, actor, 'Expense', 'delete', expense, null);
+        return expense;
+    });
+    publishChange('Expense', 'delete', [expense]);
+    return expense;
+}
+
+
+// --- 7. EXCHANGE RATES (Budget Conversion) ---
+
+/**
+ * Fetches the saved exchange rate tables of a trip, newest first (Read).
+ * @param limit - How many snapshots to return; the first one is the table in use.
+ */
+export async function getRateSnapshots(tripId: string, limit: number = 20): Promise<RateSnapshot[]> {
+    return prisma.rateSnapshot.findMany({
+        where: { tripId },
+        orderBy: {
+            createdAt: 'desc',
+        },
+        take: limit,
+    });
+}
+
+/**
+ * Fetches the table in use for a trip, i.e. the most recently saved one (Read).
+ * Returns null when no rates have been saved yet.
+ */
+export async function getCurrentRateSnapshot(tripId: string): Promise<RateSnapshot | null> {
+    return prisma.rateSnapshot.findFirst({
+        where: { tripId },
+        orderBy: {
+            createdAt: 'desc',
+        },
+    });
+}
+
+/**
+ * Fetches one snapshot of a trip by ID (Read). Returns null when it does not exist or
+ * belongs to another trip.
+ */
+export async function getRateSnapshot(tripId: string, id: string): Promise<RateSnapshot | null> {
+    return prisma.rateSnapshot.findFirst({
+        where: { id, tripId },
+    });
+}
+
+/**
+ * Saves a new version of a trip's exchange rate table (Create). Snapshots are never updated,
+ * so totals computed with an earlier one can still be reproduced.
+ */
+export async function createRateSnapshot(tripId: string, data: RateTableInput, actor: AuditActor): Promise<RateSnapshot> {
+    const snapshot = await prisma.$transaction(async (tx) => {
+        const snapshot = await tx.rateSnapshot.create({ data: { tripId, ...data } });
+        await recordAuditEvent(tx, actor, 'RateSnapshot', 'create', null, snapshot);
+        return snapshot;
+    });
+    publishChange('RateSnapshot', 'create', [snapshot]);
+    return snapshot;
+}
+
+
+// --- 8. CHECKLIST (Bookings, Documents and Packing) ---
+
+/**
+ * Fetches the checklist of a trip (Read): open items first, then by due date, undated items last.
+ */
+export async function getChecklistItems(tripId: string): Promise<ChecklistItem[]> {
+    return prisma.checklistItem.findMany({
+        where: { tripId },
+        orderBy: [
+            { done: 'asc' },
+            { dueDate: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'asc' },
+        ],
+    });
+}
+
+/** Whether an item may link to the place: it has to be a live place of the same trip */
+async function isLinkablePlace(tx: Prisma.TransactionClient, tripId: string, placeId: string | null | undefined): Promise<boolean> {
+    if (!placeId) return true;
+    return (await tx.tripPlace.count({ where: { id: placeId, tripId, deletedAt: null } })) > 0;
+}
+
+/** Maps validated fields to columns; due dates are stored at midnight UTC */
+function toChecklistColumns<T extends UpdateChecklistItemData>(data: T) {
+    const { category, done, dueDate, ...columns } = data;
+    return {
+        ...columns,
+        category: category === null ? 'Other' as const : category,
+        done: done === null ? false : done,
+        dueDate: dueDate ? new Date(`${dueDate}T00:00:00.000Z`) : dueDate,
+    };
+}
+
+/**
+ * Creates a new ChecklistItem record (Create). Returns null when the linked place is not part of the trip.
+ */
+export async function createChecklistItem(data: CreateChecklistItemData, actor: AuditActor): Promise<ChecklistItem | null> {
+    const item = await prisma.$transaction(async (tx) => {
+        if (!await isLinkablePlace(tx, data.tripId, data.placeId)) return null;
+
+        const item = await tx.checklistItem.create({ data: toChecklistColumns(data) });
+        await recordAuditEvent(tx, actor, 'ChecklistItem', 'create', null, item);
+        return item;
+    });
+    if (item) publishChange('ChecklistItem', 'create', [item]);
+    return item;
+}
+
+/**
+ * Updates an existing ChecklistItem record, e.g. ticks it off (Update). Returns null when a newly
+ * linked place is not part of the item's trip; fails with Prisma error P2025 if the item does not exist.
+ */
+export async function updateChecklistItem(id: string, data: UpdateChecklistItemData, actor: AuditActor): Promise<ChecklistItem | null> {
+    const item = await prisma.$transaction(async (tx) => {
+        const before = await tx.checklistItem.findUnique({ where: { id } });
+        if (before && !await isLinkablePlace(tx, before.tripId, data.placeId)) return null;
+
+        const item = await tx.checklistItem.update({
+            where: { id },
+            data: toChecklistColumns(data),
+        });
+        await recordAuditEvent(tx, actor, 'ChecklistItem', 'update', before, item);
+        return item;
+    });
+    if (item) publishChange('ChecklistItem', 'update', [item]);
+    return item;
+}
+
+/**
+ * Permanently deletes a ChecklistItem record (Delete); the audit log keeps its last state.
+ * Fails with Prisma error P2025 if the item does not exist.
+ */
+export async function deleteChecklistItem(id: string, actor: AuditActor): Promise<ChecklistItem> {
+    const item = await prisma.$transaction(async (tx) => {
+        const item = await tx.checklistItem.delete({ where: { id } });
+        await recordAuditEvent(tx, actor, 'ChecklistItem', 'delete', item, null);
+        return item;
+    });
+    publishChange('ChecklistItem', 'delete', [item]);
+    return item;
+}
+
+
+// --- 9. BOOKINGS (Reservations and Confirmations) ---
+
+// Bookings of soft-deleted places are hidden along with the place and come back on restore
+const LIVE_PLACE_BOOKINGS: Prisma.BookingWhereInput = { place: { deletedAt: null } };
+
+/**
+ * Fetches the bookings of a trip (Read), in the order they start; undated bookings last.
+ */
+export async function getBookings(tripId: string): Promise<Booking[]> {
+    return prisma.booking.findMany({
+        where: { tripId, ...LIVE_PLACE_BOOKINGS },
+        orderBy: [
+            { startsAt: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'asc' },
+        ],
+    });
+}
+
+/**
+ * Fetches a single booking by ID (Read). Returns null when it does not exist.
+ */
+export async function getBooking(id: string): Promise<Booking | null> {
+    return prisma.booking.findUnique({
         where: { id },
-        data: { status: newStatus },
+    });
+}
+
+/**
+ * Fetches the bookings that can still be cancelled (Read - Deadlines), soonest cutoff first.
+ * @param after - Trip-local wall clock time, stored as if it were UTC like the deadlines themselves.
+ */
+export async function getUpcomingCancellationDeadlines(tripId: string, after: Date): Promise<Booking[]> {
+    return prisma.booking.findMany({
+        where: { tripId, cancellationDeadline: { gte: after }, ...LIVE_PLACE_BOOKINGS },
+        orderBy: [
+            { cancellationDeadline: 'asc' },
+            { createdAt: 'asc' },
+        ],
+    });
+}
+
+/** Maps validated fields to columns; trip-local times are stored as if they were UTC */
+function toBookingColumns<T extends UpdateBookingData>(data: T) {
+    const toColumn = (value: string | null | undefined) => value ? new Date(`${value}:00.000Z`) : value;
+    return {
+        ...data,
+        startsAt: toColumn(data.startsAt),
+        endsAt: toColumn(data.endsAt),
+        cancellationDeadline: toColumn(data.cancellationDeadline),
+    };
+}
+
+/**
+ * Creates a new Booking record (Create). Returns null when the place is not part of the trip.
+ */
+export async function createBooking(data: CreateBookingData, actor: AuditActor): Promise<Booking | null> {
+    const booking = await prisma.$transaction(async (tx) => {
+        if (!await isLinkablePlace(tx, data.tripId, data.placeId)) return null;
+
+        const booking = await tx.booking.create({ data: toBookingColumns(data) });
+        await recordAuditEvent(tx, actor, 'Booking', 'create', null, booking);
+        return booking;
+    });
+    if (booking) publishChange('Booking', 'create', [booking]);
+    return booking;
+}
+
+/**
+ * Updates an existing Booking record (Update). Returns null when the booking is moved to a place
+ * outside its trip; fails with Prisma error P2025 if the booking does not exist.
+ */
+export async function updateBooking(id: string, data: UpdateBookingData, actor: AuditActor): Promise<Booking | null> {
+    const booking = await prisma.$transaction(async (tx) => {
+        const before = await tx.booking.findUnique({ where: { id } });
+        if (before && !await isLinkablePlace(tx, before.tripId, data.placeId)) return null;
+
+        const booking = await tx.booking.update({
+            where: { id },
+            data: toBookingColumns(data),
+        });
+        await recordAuditEvent(tx, actor, 'Booking', 'update', before, booking);
+        return booking;
+    });
+    if (booking) publishChange('Booking', 'update', [booking]);
+    return booking;
+}
+
+/**
+ * Permanently deletes a Booking record (Delete); the audit log keeps its last state.
+ * Fails with Prisma error P2025 if the booking does not exist.
+ */
+export async function deleteBooking(id: string, actor: AuditActor): Promise<Booking> {
+    const booking = await prisma.$transaction(async (tx) => {
+        const booking = await tx.booking.delete({ where: { id } });
+        await recordAuditEvent(tx, actor, 'Booking', 'delete', booking, null);
+        return booking;
+    });
+    publishChange('Booking', 'delete', [booking]);
+    return booking;
+}
+
+
+// --- 10. ATTACHMENTS (Photos and Files) ---
+// Only the records live here; attachment_service stores the files themselves.
+
+/**
+ * Fetches the attachments of a place (Read), oldest first.
+ */
+export async function getAttachments(placeId: string): Promise<Attachment[]> {
+    return prisma.attachment.findMany({
+        where: { placeId },
+        orderBy: { createdAt: 'asc' },
+    });
+}
+
+/**
+ * Fetches a single Attachment record by its ID (Read).
+ */
+export async function getAttachment(id: string): Promise<Attachment | null> {
+    return prisma.attachment.findUnique({
+        where: { id },
+    });
+}
+
+/**
+ * Records the attachments of one upload (Create), all or none.
+ */
+export async function createAttachments(data: CreateAttachmentData[], actor: AuditActor): Promise<Attachment[]> {
+    const attachments = await prisma.$transaction(async (tx) => {
+        const created: Attachment[] = [];
+        for (const attachmentData of data) {
+            const attachment = await tx.attachment.create({ data: attachmentData });
+            await recordAuditEvent(tx, actor, 'Attachment', 'create', null, attachment);
+            created.push(attachment);
+        }
+        return created;
+    });
+    publishChange('Attachment', 'create', attachments);
+    return attachments;
+}
+
+/**
+ * Permanently deletes an Attachment record (Delete); the caller removes its files afterwards.
+ * Fails with Prisma error P2025 if the attachment does not exist.
+ */
+export async function deleteAttachment(id: string, actor: AuditActor): Promise<Attachment> {
+    const attachment = await prisma.$transaction(async (tx) => {
+        const attachment = await tx.attachment.delete({ where: { id } });
+        await recordAuditEvent(tx, actor, 'Attachment', 'delete', attachment, null);
+        return attachment;
+    });
+    publishChange('Attachment', 'delete', [attachment]);
+    return attachment;
+}
+
+
+// --- 11. AUDIT LOG (Change History) ---
+
+/**
+ * Builds the audit event row for one change, or null for an update that changes nothing.
+ * The entity and its trip are taken from whichever version of the record exists.
+ */
+function buildAuditEvent(
+    actor: AuditActor,
+    entityType: AuditEntityType,
+    action: AuditAction,
+    before: { id: string } | null,
+    after: { id: string } | null
+): Prisma.AuditEventCreateManyInput | null {
+    const record = (after || before)!;
+    const changes = diffRecords(before, after);
+    if (action === 'update' && Object.keys(changes).length === 0) return null;
+
+    return {
+        tripId: entityType === 'Trip' ? record.id : (record as { tripId?: string }).tripId ?? null,
+        actorRole: actor.role,
+        actorId: actor.userId,
+        entityType,
+        entityId: record.id,
+        action,
+        changes: changes as unknown as Prisma.InputJsonObject,
+    };
+}
+
+/**
+ * Records one change inside the transaction that made it (Create).
+ * Updates that change nothing are not recorded.
+ */
+async function recordAuditEvent(
+    tx: Prisma.TransactionClient,
+    actor: AuditActor,
+    entityType: AuditEntityType,
+    action: AuditAction,
+    before: { id: string } | null,
+    after: { id: string } | null
+): Promise<void> {
+    const data = buildAuditEvent(actor, entityType, action, before, after);
+    if (data) await tx.auditEvent.create({ data });
+}
+
+/**
+ * Fetches audit events, newest first (Read - Admin History).
+ * @param filters - Optional trip, entity, action, actor role and time range; at most 500 events.
+ */
+export async function getAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const { tripId, entityType, entityId, action, actorRole, from, to, limit = 100 } = filters;
+
+    return prisma.auditEvent.findMany({
+        where: {
+            tripId,
+            entityType,
+            entityId,
+            action,
+            actorRole,
+            createdAt: from || to ? { gte: from, lte: to } : undefined,
+        },
+        orderBy: {
+            createdAt: 'desc',
+        },
+        take: Math.min(limit, 500),
     });
 }
 
 // Export the prisma client instance for direct use if needed
 export default prisma;
-
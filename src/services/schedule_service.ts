@@ -0,0 +1,187 @@
+import { TripPlace } from '../../app/generated/prisma';
+import { formatStartTime, MINUTES_PER_DAY } from '../utils/time_utils';
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'transit', 'drive'];
+
+/** Average door-to-door speeds used when no override is configured */
+export const DEFAULT_TRAVEL_SPEEDS_KMH: Record<TravelMode, number> = {
+    walk: 4.5,
+    transit: 25,
+    drive: 40,
+};
+
+/** A problem found in a day's schedule, always between two places */
+export interface ScheduleWarning {
+    type: 'overlap' | 'infeasible_transfer';
+    placeIds: [string, string];
+    message: string;
+    distanceKm?: number;
+    requiredMinutes?: number;
+    availableMinutes?: number;
+}
+
+export interface ScheduleCheckOptions {
+    mode?: TravelMode;
+    speedsKmh?: Partial<Record<TravelMode, number>>;
+}
+
+/** Where a place ends up after a drag-and-drop reorder */
+export interface PlaceMove {
+    id: string;
+    day: number;
+    position: number;
+    startTime: number | null;
+}
+
+export interface ReorderOptions {
+    movedPlaceId?: string;
+    shiftStartTimes?: boolean;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two coordinates using the haversine formula.
+ */
+export function haversineDistanceKm(
+    a: Pick<TripPlace, 'latitude' | 'longitude'>,
+    b: Pick<TripPlace, 'latitude' | 'longitude'>
+): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Reads per-mode speed overrides from TRAVEL_SPEEDS_KMH (e.g. "walk=5,transit=30,drive=50").
+ * Unknown modes and non-positive values are ignored.
+ */
+export function getConfiguredTravelSpeeds(): Record<TravelMode, number> {
+    const speeds = { ...DEFAULT_TRAVEL_SPEEDS_KMH };
+    const config = process.env.TRAVEL_SPEEDS_KMH;
+    if (!config) return speeds;
+
+    for (const entry of config.split(',')) {
+        const [mode, value] = entry.split('=').map(part => part.trim());
+        const speed = parseFloat(value);
+        if (TRAVEL_MODES.includes(mode as TravelMode) && speed > 0) {
+            speeds[mode as TravelMode] = speed;
+        }
+    }
+    return speeds;
+}
+
+/**
+ * Checks one day's places for overlapping stops and for transfers that cannot be
+ * made at the chosen travel speed. Places without a start time are skipped.
+ * A stop without a duration is treated as ending when it starts.
+ */
+export function checkDaySchedule(places: TripPlace[], options: ScheduleCheckOptions = {}): ScheduleWarning[] {
+    const mode = options.mode || 'transit';
+    const speedKmh = { ...getConfiguredTravelSpeeds(), ...options.speedsKmh }[mode];
+
+    const timed = places
+        .filter(place => place.startTime !== null)
+        .sort((a, b) => a.startTime! - b.startTime!);
+
+    const endOf = (place: TripPlace) => place.startTime! + (place.durationMinutes || 0);
+    const warnings: ScheduleWarning[] = [];
+
+    // 1. Overlaps: a long stop can overlap several later ones, so compare every pair
+    for (let i = 0; i < timed.length; i++) {
+        for (let j = i + 1; j < timed.length && timed[j].startTime! < endOf(timed[i]); j++) {
+            warnings.push({
+                type: 'overlap',
+                placeIds: [timed[i].id, timed[j].id],
+                message: `"${timed[i].name}" (until ${formatStartTime(endOf(timed[i]))}) overlaps "${timed[j].name}" (from ${formatStartTime(timed[j].startTime!)}).`,
+            });
+        }
+    }
+
+    // 2. Transfers: consecutive stops must leave enough time to travel between them
+    for (let i = 0; i + 1 < timed.length; i++) {
+        const from = timed[i];
+        const to = timed[i + 1];
+        const availableMinutes = to.startTime! - endOf(from);
+
+        // Already reported as an overlap
+        if (availableMinutes < 0) continue;
+
+        const distanceKm = haversineDistanceKm(from, to);
+        const requiredMinutes = Math.ceil(distanceKm / speedKmh * 60);
+
+        if (requiredMinutes > availableMinutes) {
+            warnings.push({
+                type: 'infeasible_transfer',
+                placeIds: [from.id, to.id],
+                message: `"${from.name}" → "${to.name}" is ${distanceKm.toFixed(1)} km, about ${requiredMinutes} min by ${mode}, but only ${availableMinutes} min are planned.`,
+                distanceKm: Math.round(distanceKm * 10) / 10,
+                requiredMinutes,
+                availableMinutes,
+            });
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * Whether a reorder lists exactly the day's live places, plus the moved place when it comes
+ * from another day. Anything else means the client's itinerary is out of date, and applying
+ * the order would leave places unpositioned or drag along places nobody moved.
+ */
+export function isCompleteDayOrder(dayPlaceIds: string[], placeIds: string[], movedPlaceId?: string): boolean {
+    const expected = new Set(dayPlaceIds);
+    if (movedPlaceId) expected.add(movedPlaceId);
+
+    return placeIds.length === expected.size && placeIds.every(id => expected.has(id));
+}
+
+/**
+ * Plans a drag-and-drop reorder of one day. `ordered` is the day's new order and may include
+ * places dragged in from other days; every place takes the day and its index as position.
+ *
+ * The itinerary is sorted by start time first, so the moved place is re-timed to stay where it
+ * was dropped. With shiftStartTimes it takes over the start of the stop it was dropped before
+ * (or starts when the previous stop ends) and every later timed stop is pushed back by its
+ * duration. Otherwise it keeps its time when that already fits, or is fitted in between its
+ * new neighbours without touching them; ties are broken by position. Untimed places are
+ * ordered by position alone.
+ */
+export function planReorder(day: number, ordered: TripPlace[], options: ReorderOptions = {}): PlaceMove[] {
+    const moves: PlaceMove[] = ordered.map((place, position) => ({ id: place.id, day, position, startTime: place.startTime }));
+
+    const movedIndex = ordered.findIndex(place => place.id === options.movedPlaceId);
+    const moved = ordered[movedIndex];
+    if (!moved || moved.startTime === null) return moves;
+
+    const previous = ordered.slice(0, movedIndex).reverse().find(place => place.startTime !== null);
+    const next = ordered.slice(movedIndex + 1).find(place => place.startTime !== null);
+    const duration = moved.durationMinutes || 0;
+    const previousEnd = previous ? previous.startTime! + (previous.durationMinutes || 0) : null;
+    const clamp = (minutes: number) => Math.min(Math.max(minutes, 0), MINUTES_PER_DAY - 1);
+
+    let startTime = moved.startTime;
+
+    if (options.shiftStartTimes) {
+        startTime = next ? next.startTime! : previousEnd ?? startTime;
+
+        for (let i = movedIndex + 1; i < moves.length; i++) {
+            if (moves[i].startTime !== null) moves[i].startTime = clamp(moves[i].startTime! + duration);
+        }
+    } else if ((previous && startTime < previous.startTime!) || (next && startTime > next.startTime!)) {
+        startTime = previousEnd ?? next!.startTime! - duration;
+        if (previous) startTime = Math.max(startTime, previous.startTime!);
+        if (next) startTime = Math.min(startTime, next.startTime!);
+    }
+
+    moves[movedIndex].startTime = clamp(startTime);
+    return moves;
+}
@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where attachment files are kept. Keys are slash-separated paths such as
+ * "trip/place/file" that each driver maps onto its own namespace.
+ */
+export interface StorageDriver {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    /** Resolves to null when nothing is stored under the key */
+    get(key: string): Promise<Buffer | null>;
+    /** Removing a key that does not exist is not an error */
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Keys are generated by the service layer, but are checked anyway so that a malformed one
+ * can never point outside the storage root.
+ */
+function assertValidKey(key: string): void {
+    const parts = key.split('/');
+    if (!parts.every(part => /^[A-Za-z0-9._-]+$/.test(part) && part !== '.' && part !== '..')) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+}
+
+/**
+ * Creates a driver that stores each key as a file below rootDir, creating folders as needed.
+ */
+export function createLocalStorageDriver(rootDir: string): StorageDriver {
+    const toFilePath = (key: string) => {
+        assertValidKey(key);
+        return path.join(rootDir, ...key.split('/'));
+    };
+
+    return {
+        async put(key, data) {
+            const filePath = toFilePath(key);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, data);
+        },
+        async get(key) {
+            try {
+                return await fs.readFile(toFilePath(key));
+            } catch (error: any) {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async delete(key) {
+            await fs.rm(toFilePath(key), { force: true });
+        },
+    };
+}
+
+/**
+ * The object operations the S3 driver relies on, named after the S3 API. A small adapter over
+ * @aws-sdk/client-s3, or the SDK of any S3-compatible service such as MinIO or R2, provides them.
+ */
+export interface S3CompatibleClient {
+    putObject(params: { Bucket: string, Key: string, Body: Buffer, ContentType: string }): Promise<void>;
+    /** Resolves to null when the object does not exist (S3's NoSuchKey) */
+    getObject(params: { Bucket: string, Key: string }): Promise<Buffer | null>;
+    deleteObject(params: { Bucket: string, Key: string }): Promise<void>;
+}
+
+/**
+ * Creates a driver that stores each key as an object in a bucket, optionally below a key prefix.
+ */
+export function createS3StorageDriver(client: S3CompatibleClient, bucket: string, prefix: string = ''): StorageDriver {
+    const toObjectKey = (key: string) => {
+        assertValidKey(key);
+        return prefix ? `${prefix.replace(/\/+$/, '')}/${key}` : key;
+    };
+
+    return {
+        put: (key, data, contentType) => client.putObject({ Bucket: bucket, Key: toObjectKey(key), Body: data, ContentType: contentType }),
+        get: (key) => client.getObject({ Bucket: bucket, Key: toObjectKey(key) }),
+        delete: (key) => client.deleteObject({ Bucket: bucket, Key: toObjectKey(key) }),
+    };
+}
+
+/**
+ * A stand-in for an S3 service that keeps every bucket as a folder below rootDir, so the S3
+ * driver can be run and tested without a network or credentials. Content types are not kept;
+ * the database records them.
+ */
+export function createLocalS3StandIn(rootDir: string): S3CompatibleClient {
+    const bucketStorage = (bucket: string) => {
+        assertValidKey(bucket);
+        return createLocalStorageDriver(path.join(rootDir, bucket));
+    };
+
+    return {
+        putObject: ({ Bucket, Key, Body, ContentType }) => bucketStorage(Bucket).put(Key, Body, ContentType),
+        getObject: ({ Bucket, Key }) => bucketStorage(Bucket).get(Key),
+        deleteObject: ({ Bucket, Key }) => bucketStorage(Bucket).delete(Key),
+    };
+}
+
+/**
+ * The driver picked by the environment:
+ * - ATTACHMENT_STORAGE=local (default) keeps files in ATTACHMENT_STORAGE_DIR, or ./storage/attachments.
+ * - ATTACHMENT_STORAGE=s3-local runs the S3 driver against the on-disk stand-in in the same folder,
+ *   with the bucket named by ATTACHMENT_S3_BUCKET.
+ * A real bucket is plugged in at startup with setStorageDriver(createS3StorageDriver(client, bucket)).
+ */
+function createDefaultStorageDriver(): StorageDriver {
+    const rootDir = process.env.ATTACHMENT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'attachments');
+
+    if (process.env.ATTACHMENT_STORAGE === 's3-local') {
+        return createS3StorageDriver(createLocalS3StandIn(rootDir), process.env.ATTACHMENT_S3_BUCKET || 'attachments');
+    }
+    return createLocalStorageDriver(rootDir);
+}
+
+// Kept on the global object so every API route bundle, and every hot reload in development,
+// shares the driver that was configured.
+const globalForStorage = global as unknown as { storageDriver?: StorageDriver };
+
+export function getStorageDriver(): StorageDriver {
+    if (!globalForStorage.storageDriver) {
+        globalForStorage.storageDriver = createDefaultStorageDriver();
+    }
+    return globalForStorage.storageDriver;
+}
+
+/**
+ * Replaces the storage driver, e.g. with one backed by a real S3 bucket. Files already stored
+ * with the previous driver are not moved, so call this at startup.
+ */
+export function setStorageDriver(driver: StorageDriver): void {
+    globalForStorage.storageDriver = driver;
+}
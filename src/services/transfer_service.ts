@@ -0,0 +1,145 @@
+import { Trip, TripPlace } from '../../app/generated/prisma';
+import { parseCsvRecords, toCsv } from '../utils/csv_utils';
+import { checkTripDay, FieldErrors, TRIP_PLACE_SCHEMA, TripPlaceInput, validateTripPlaceInput } from '../utils/schemas';
+import { formatStartTime, parseTimeString } from '../utils/time_utils';
+
+export type TransferFormat = 'json' | 'csv';
+
+export const TRANSFER_FORMATS: TransferFormat[] = ['json', 'csv'];
+
+/** The columns of an export, in order; the same fields a new TripPlace accepts */
+export const PLACE_TRANSFER_FIELDS = Object.keys(TRIP_PLACE_SCHEMA) as (keyof TripPlaceInput)[];
+
+/** Outcome of one imported row; row numbers are 1-based data rows (the CSV header is not counted) */
+export interface ImportRowResult {
+    row: number;
+    status: 'valid' | 'invalid' | 'duplicate';
+    name?: string;
+    errors?: FieldErrors;
+    duplicateOf?: 'existing' | number;  // An existing place, or an earlier row of the same file
+}
+
+export interface ImportReport {
+    rows: ImportRowResult[];
+    validCount: number;
+    invalidCount: number;
+    duplicateCount: number;
+}
+
+/**
+ * Serializes places for backup or copying to another trip. JSON keeps start times as
+ * minutes since midnight; CSV uses "HH:MM" so the file stays readable in a spreadsheet.
+ */
+export function exportPlaces(places: TripPlace[], format: TransferFormat): string {
+    const rows = places.map(place => Object.fromEntries(PLACE_TRANSFER_FIELDS.map(field => [field, place[field]])));
+
+    if (format === 'json') {
+        return JSON.stringify(rows, null, 2);
+    }
+
+    return toCsv(PLACE_TRANSFER_FIELDS, rows.map(row => ({
+        ...row,
+        startTime: typeof row.startTime === 'number' ? formatStartTime(row.startTime) : null,
+    })));
+}
+
+/**
+ * Converts CSV cells to the types the TripPlace schema expects. Empty cells become null
+ * and start times may be "HH:MM" or minutes; anything unparseable is left as text so
+ * validation reports it against its field.
+ */
+function coerceCsvRecord(record: Record<string, string>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const field of PLACE_TRANSFER_FIELDS) {
+        const value = (record[field] ?? '').trim();
+
+        if (!value) {
+            result[field] = null;
+        } else if (field === 'startTime' && !/^\d+$/.test(value)) {
+            result[field] = parseTimeString(value).startTime ?? value;
+        } else if (TRIP_PLACE_SCHEMA[field].type !== 'string') {
+            const number = Number(value);
+            result[field] = Number.isNaN(number) ? value : number;
+        } else {
+            result[field] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Reads the raw rows of an import file. Throws an Error with a readable message when the
+ * file itself is malformed, as opposed to individual rows being invalid.
+ */
+export function parseImportRows(content: string, format: TransferFormat): unknown[] {
+    if (format === 'csv') {
+        return parseCsvRecords(content).map(coerceCsvRecord);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new Error('A JSON import must be an array of places.');
+    }
+    return parsed;
+}
+
+/** Identifies the "same stop": same day, same start (or label) and same name */
+function getDuplicateKey(place: Pick<TripPlace, 'day' | 'startTime' | 'timeLabel' | 'name'>): string {
+    const time = place.startTime ?? (place.timeLabel || '').toLowerCase();
+    return `${place.day}|${time}|${place.name.trim().toLowerCase()}`;
+}
+
+/**
+ * Validates every row against the schema and the trip's length, and flags duplicates, both of
+ * places already in the trip and of earlier rows in the same file. Returns the report and
+ * the places that would be created.
+ */
+export function planImport(rows: unknown[], trip: Trip, existingPlaces: TripPlace[]): { report: ImportReport, places: TripPlaceInput[] } {
+    const seen = new Map<string, 'existing' | number>(
+        existingPlaces.map(place => [getDuplicateKey(place), 'existing'] as const)
+    );
+    const results: ImportRowResult[] = [];
+    const places: TripPlaceInput[] = [];
+
+    rows.forEach((input, index) => {
+        const row = index + 1;
+        const validation = validateTripPlaceInput(input);
+        const errors = validation.ok ? checkTripDay(validation.data.day, trip) : validation.fields;
+
+        if (!validation.ok || errors) {
+            const name = input && typeof input === 'object' ? (input as Record<string, unknown>).name : undefined;
+            results.push({ row, status: 'invalid', name: typeof name === 'string' ? name : undefined, errors: errors! });
+            return;
+        }
+
+        const place = validation.data;
+        const key = getDuplicateKey({ ...place, startTime: place.startTime ?? null, timeLabel: place.timeLabel ?? null });
+        const duplicateOf = seen.get(key);
+
+        if (duplicateOf !== undefined) {
+            results.push({ row, status: 'duplicate', name: place.name, duplicateOf });
+            return;
+        }
+
+        seen.set(key, row);
+        places.push(place);
+        results.push({ row, status: 'valid', name: place.name });
+    });
+
+    return {
+        report: {
+            rows: results,
+            validCount: places.length,
+            invalidCount: results.filter(result => result.status === 'invalid').length,
+            duplicateCount: results.filter(result => result.status === 'duplicate').length,
+        },
+        places,
+    };
+}
@@ -0,0 +1,50 @@
+// Helpers for the audit log written by the service layer.
+
+export type AuditEntityType = 'Trip' | 'TripPlace' | 'Suggestion' | 'SuggestionComment' | 'Expense' | 'RateSnapshot' | 'ChecklistItem' | 'Booking' | 'Attachment';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'status';
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['Trip', 'TripPlace', 'Suggestion', 'SuggestionComment', 'Expense', 'RateSnapshot', 'ChecklistItem', 'Booking', 'Attachment'];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'status'];
+
+/** Who performed a change; every mutating service function takes one */
+export interface AuditActor {
+    role: string;
+    userId: string | null;
+}
+
+/** One changed field of an audited record */
+export interface FieldChange {
+    before: unknown;
+    after: unknown;
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'version'];
+
+/** Dates become ISO strings so changes compare by value and store as JSON */
+function toJsonValue(value: unknown): unknown {
+    return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/**
+ * Lists the fields that differ between two versions of a record. A missing before
+ * (create) or after (delete) reports every field against null.
+ */
+export function diffRecords(before: object | null, after: object | null): Record<string, FieldChange> {
+    const beforeValues = (before || {}) as Record<string, unknown>;
+    const afterValues = (after || {}) as Record<string, unknown>;
+    const changes: Record<string, FieldChange> = {};
+
+    for (const field of new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])) {
+        if (IGNORED_FIELDS.includes(field)) continue;
+
+        const oldValue = toJsonValue(beforeValues[field]);
+        const newValue = toJsonValue(afterValues[field]);
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes[field] = { before: oldValue, after: newValue };
+        }
+    }
+    return changes;
+}
@@ -1,44 +1,21 @@
-import { NextApiRequest } from 'next';
+import { safeEqual, SessionRole } from './session_utils';
 
-// --- Note: This function checks for a specific role key but is not yet fully utilized in the current API routes. ---
-export function isAuthorized(req: NextApiRequest, requiredRole: 'admin' | 'trusted'): boolean {
-    const secretFromHeader = req.headers['x-auth-secret'];
-    
-    let requiredKey: string | undefined;
-
-    if (requiredRole === 'admin') {
-        requiredKey = process.env.NEXT_PUBLIC_ADMIN_SECRET;
-    } else if (requiredRole === 'trusted') {
-        requiredKey = process.env.NEXT_PUBLIC_TRUSTED_SECRET;
-    }
-    
-    // Check if the required environment variable is actually set
-    if (!requiredKey) {
-        console.error(`${requiredRole.toUpperCase()}_SECRET_KEY environment variable is not set!`);
-        return false; 
-    }
-
-    // Compare the header value against the required key
-    return secretFromHeader === requiredKey;
-}
+// Route-level access checks live in permissions.ts (withPermission);
+// this module only decides which role a login secret unlocks.
 
 /**
- * Checks if the request header contains EITHER the Admin Key or the Trusted User Key.
- * This is the primary function to protect all administrative/privileged endpoints.
- * All API routes that handle modification (POST, PUT, DELETE, PATCH) should use this.
+ * Resolves which role a login secret unlocks, comparing it on the server against
+ * ADMIN_SECRET_KEY and TRUSTED_USER_KEY. Returns null when it matches neither.
  */
-export function isAdminOrTrustedAuthorized(req: NextApiRequest): boolean {
-    const secretFromHeader = req.headers['x-auth-secret'];
+export function resolveRoleForSecret(secret: string): SessionRole | null {
     const adminKey = process.env.ADMIN_SECRET_KEY;
     const trustedKey = process.env.TRUSTED_USER_KEY;
-    
-    // Security check: Must have a header value and EITHER key must match
-    if (!secretFromHeader) return false;
 
-    const isAdmin = secretFromHeader === adminKey;
-    const isTrusted = secretFromHeader === trustedKey;
-    
-    // For now, allow both to pass the access gate, but you can later use isAuthorized
-    // for endpoints only the admin should access (like deleting records).
-    return isAdmin || isTrusted;
+    if (!adminKey || !trustedKey) {
+        console.error('ADMIN_SECRET_KEY or TRUSTED_USER_KEY environment variable is not set!');
+    }
+
+    if (adminKey && safeEqual(secret, adminKey)) return 'admin';
+    if (trustedKey && safeEqual(secret, trustedKey)) return 'trusted';
+    return null;
 }
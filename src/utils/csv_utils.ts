@@ -0,0 +1,93 @@
+// Minimal RFC 4180 CSV reading and writing for itinerary import/export.
+
+// Leading characters that make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a cell when it contains a delimiter, quote or line break. Text that would
+ * be read as a formula is prefixed with an apostrophe; numbers are written as-is.
+ */
+function formatCell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Removes the apostrophe formatCell puts in front of formula-like text.
+ */
+function unescapeCell(cell: string): string {
+    return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Serializes rows under a header line. Rows are objects keyed by header.
+ */
+export function toCsv(headers: readonly string[], rows: Record<string, string | number | null | undefined>[]): string {
+    const lines = [headers.join(',')];
+    for (const row of rows) {
+        lines.push(headers.map(header => formatCell(row[header])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded commas, quotes
+ * and line breaks; a leading byte order mark and blank lines are ignored.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parses CSV text whose first row is a header into objects keyed by that header.
+ * Cells escaped by toCsv get their original text back, so exports re-import unchanged.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers) return [];
+
+    const keys = headers.map(header => header.trim());
+    return rows.map(cells => Object.fromEntries(keys.map((key, i) => [key, unescapeCell(cells[i] ?? '')])));
+}
@@ -0,0 +1,65 @@
+// Currency conversion helpers shared by the API routes and the client.
+// Rates come from the Admin's own table (a RateSnapshot), never from a live API, so
+// conversions work offline and stay reproducible.
+
+/** Amounts keyed by currency code */
+export type CurrencyTotals = Record<string, number>;
+
+/** An exchange rate table: units of homeCurrency per one unit of each listed currency */
+export interface RateTable {
+    homeCurrency: string;
+    rates: Record<string, number>;
+}
+
+/** A total converted into the home currency, along with the rates it was computed with */
+export interface ConvertedTotal {
+    currency: string;               // The home currency
+    amount: number;
+    missing: string[];              // Currencies left out because the table has no rate for them
+    rateSnapshotId: string;
+}
+
+/** Rounds to cents, which is as precise as amounts are shown and settled */
+export function roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Rate from a currency to the home currency; the home currency itself always converts at 1.
+ * Returns null when the table has no usable rate.
+ */
+export function getRate(table: RateTable, currency: string): number | null {
+    if (currency === table.homeCurrency) return 1;
+
+    const rate = table.rates[currency];
+    return typeof rate === 'number' && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * Converts an amount into the home currency, rounded to cents. Returns null when the table
+ * has no rate for the currency.
+ */
+export function convertAmount(amount: number, currency: string, table: RateTable): number | null {
+    const rate = getRate(table, currency);
+    return rate === null ? null : roundAmount(amount * rate);
+}
+
+/**
+ * Converts per-currency totals into one home currency total. Currencies without a rate are
+ * left out of the amount and listed in `missing`, so a partial total is never passed off as complete.
+ */
+export function convertTotals(totals: CurrencyTotals, table: RateTable, rateSnapshotId: string): ConvertedTotal {
+    let amount = 0;
+    const missing: string[] = [];
+
+    for (const [currency, value] of Object.entries(totals)) {
+        const rate = getRate(table, currency);
+        if (rate === null) {
+            missing.push(currency);
+        } else {
+            amount += value * rate;
+        }
+    }
+
+    return { currency: table.homeCurrency, amount: roundAmount(amount), missing: missing.sort(), rateSnapshotId };
+}
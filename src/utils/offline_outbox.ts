@@ -0,0 +1,66 @@
+// IndexedDB outbox for suggestions written without a connection (browser only).
+// The page replays the entries, oldest first, once the device is back online.
+
+import { SuggestionInput } from './schemas';
+
+const DB_NAME = 'date-planner';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'suggestion-outbox';
+
+/** A suggestion waiting to be sent */
+export interface QueuedSuggestion {
+    id: number;             // Auto-incremented, so it also gives the submission order
+    tripId: string;
+    suggestion: SuggestionInput;
+    queuedAt: string;       // ISO timestamp
+}
+
+function openOutbox(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs one request against the outbox store and resolves once its transaction has committed.
+ */
+async function withOutbox<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openOutbox();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(OUTBOX_STORE, mode);
+            const request = operation(transaction.objectStore(OUTBOX_STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Stores a suggestion for sending later.
+ */
+export async function queueSuggestion(tripId: string, suggestion: SuggestionInput): Promise<void> {
+    await withOutbox('readwrite', store => store.add({ tripId, suggestion, queuedAt: new Date().toISOString() }));
+}
+
+/**
+ * Lists the queued suggestions, oldest first.
+ */
+export function getQueuedSuggestions(): Promise<QueuedSuggestion[]> {
+    return withOutbox('readonly', store => store.getAll() as IDBRequest<QueuedSuggestion[]>);
+}
+
+/**
+ * Removes a suggestion once it was sent, or rejected for good.
+ */
+export async function removeQueuedSuggestion(id: number): Promise<void> {
+    await withOutbox('readwrite', store => store.delete(id));
+}
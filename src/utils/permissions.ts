@@ -0,0 +1,168 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession, Session, SessionRole } from './session_utils';
+import { AuditActor } from './audit_utils';
+
+export type Role = SessionRole | 'guest';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Every protected operation in the API. Route handlers refer to these names
+ * instead of checking roles themselves.
+ */
+export type Action =
+    | 'session:manage'
+    | 'trip:list'
+    | 'trip:create'
+    | 'trip:update'
+    | 'trip:delete'
+    | 'itinerary:list'
+    | 'itinerary:create'
+    | 'itinerary:update'
+    | 'itinerary:delete'
+    | 'itinerary:restore'
+    | 'itinerary:export'
+    | 'itinerary:import'
+    | 'suggestion:list'
+    | 'suggestion:create'
+    | 'suggestion:mine'
+    | 'suggestion:review'
+    | 'suggestion:schedule'
+    | 'suggestion:comment'
+    | 'expense:list'
+    | 'expense:create'
+    | 'expense:update'
+    | 'expense:delete'
+    | 'rates:list'
+    | 'rates:update'
+    | 'checklist:list'
+    | 'checklist:create'
+    | 'checklist:update'
+    | 'checklist:delete'
+    | 'booking:list'
+    | 'booking:create'
+    | 'booking:update'
+    | 'booking:delete'
+    | 'attachment:list'
+    | 'attachment:create'
+    | 'attachment:delete'
+    | 'audit:list';
+
+/**
+ * The single source of truth for who may do what.
+ * Admin (BF) owns the plan; the Trusted User (BAE) co-edits it and reviews suggestions.
+ */
+export const PERMISSIONS: Record<Action, readonly Role[]> = {
+    'session:manage':       ['guest', 'trusted', 'admin'],
+
+    'trip:list':            ['guest', 'trusted', 'admin'],
+    'trip:create':          ['admin'],
+    'trip:update':          ['admin'],
+    'trip:delete':          ['admin'],
+
+    'itinerary:list':       ['guest', 'trusted', 'admin'],
+    'itinerary:create':     ['trusted', 'admin'],
+    'itinerary:update':     ['trusted', 'admin'],
+    'itinerary:delete':     ['admin'],
+    'itinerary:restore':    ['admin'],
+    'itinerary:export':     ['admin'],
+    'itinerary:import':     ['admin'],
+
+    'suggestion:list':      ['trusted', 'admin'],
+    'suggestion:create':    ['trusted', 'admin'],
+    'suggestion:mine':      ['trusted', 'admin'],
+    'suggestion:review':    ['trusted', 'admin'],
+    'suggestion:schedule':  ['trusted', 'admin'],
+    'suggestion:comment':   ['trusted', 'admin'],
+
+    // Expenses are private to the two travellers who share them
+    'expense:list':         ['trusted', 'admin'],
+    'expense:create':       ['trusted', 'admin'],
+    'expense:update':       ['trusted', 'admin'],
+    'expense:delete':       ['trusted', 'admin'],
+    'rates:list':           ['trusted', 'admin'],
+    'rates:update':         ['admin'],
+
+    'checklist:list':       ['trusted', 'admin'],
+    'checklist:create':     ['trusted', 'admin'],
+    'checklist:update':     ['trusted', 'admin'],
+    'checklist:delete':     ['trusted', 'admin'],
+
+    // Confirmation codes and phone numbers stay with the travellers, like the budget
+    'booking:list':         ['trusted', 'admin'],
+    'booking:create':       ['trusted', 'admin'],
+    'booking:update':       ['trusted', 'admin'],
+    'booking:delete':       ['trusted', 'admin'],
+
+    // Ticket screenshots often carry booking codes, so attachments are not shown to guests
+    'attachment:list':      ['trusted', 'admin'],
+    'attachment:create':    ['trusted', 'admin'],
+    'attachment:delete':    ['trusted', 'admin'],
+
+    'audit:list':           ['admin'],
+};
+
+/**
+ * Checks whether a role may perform an action according to the permission table.
+ */
+export function can(role: Role, action: Action): boolean {
+    return PERMISSIONS[action].includes(role);
+}
+
+/** Who is calling, handed to every handler wrapped by withPermission */
+export interface AuthContext {
+    role: Role;
+    session: Session | null;
+}
+
+/**
+ * The actor recorded in the audit log for changes made by this request.
+ */
+export function getAuditActor(auth: AuthContext): AuditActor {
+    return { role: auth.role, userId: auth.session ? auth.session.userId : null };
+}
+
+export type PermissionedHandler<T> = (
+    req: NextApiRequest,
+    res: NextApiResponse<T | { error: string }>,
+    auth: AuthContext
+) => unknown | Promise<unknown>;
+
+/**
+ * Checks an action that depends on the request rather than its method, such as an export format.
+ * Sends the same 401/403 responses as withPermission and returns false when access is denied.
+ */
+export function ensurePermission(res: NextApiResponse, auth: AuthContext, action: Action): boolean {
+    if (can(auth.role, action)) return true;
+
+    if (!auth.session) {
+        res.status(401).json({ error: `Unauthorized: Please log in to perform "${action}".` });
+    } else {
+        res.status(403).json({ error: `Forbidden: The ${auth.role} role is not allowed to perform "${action}".` });
+    }
+    return false;
+}
+
+/**
+ * Wraps an API handler with the permission table.
+ * Maps each supported HTTP method to the action it performs; other methods get 405.
+ * Callers without a session get 401 for non-public actions, logged-in callers
+ * whose role is not allowed get 403.
+ */
+export function withPermission<T>(actions: Partial<Record<HttpMethod, Action>>, handler: PermissionedHandler<T>) {
+    return async (req: NextApiRequest, res: NextApiResponse<T | { error: string }>) => {
+        const action = actions[req.method as HttpMethod];
+
+        if (!action) {
+            res.setHeader('Allow', Object.keys(actions).join(', '));
+            return res.status(405).json({ error: 'Method Not Allowed' });
+        }
+
+        const session = getSession(req);
+        const auth: AuthContext = { role: session ? session.role : 'guest', session };
+
+        if (!ensurePermission(res, auth, action)) return;
+
+        return handler(req, res, auth);
+    };
+}
@@ -0,0 +1,120 @@
+import { NextApiRequest } from 'next';
+import { SuggestionStatus } from '../../app/generated/prisma';
+import { getDefaultTrip, getTrip } from '../services/prisma_service';
+
+/**
+ * Reads a single query parameter, taking the first value when it was repeated.
+ */
+export function getQueryParam(req: NextApiRequest, name: string): string | undefined {
+    const value = req.query[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Resolves which trip a request targets.
+ * Routes nested under /api/trips/[tripId] and requests carrying ?tripId= use that ID;
+ * the legacy /api/itinerary and /api/suggestions routes fall back to the default trip.
+ * Returns null when the requested trip does not exist or no trip exists yet, so callers answer 404.
+ */
+export async function resolveTripId(req: NextApiRequest): Promise<string | null> {
+    const tripId = getQueryParam(req, 'tripId');
+    if (tripId) {
+        const trip = await getTrip(tripId);
+        return trip ? trip.id : null;
+    }
+
+    const defaultTrip = await getDefaultTrip();
+    return defaultTrip ? defaultTrip.id : null;
+}
+
+/** A file part of a multipart/form-data body */
+export interface UploadedFile {
+    fileName: string;
+    contentType: string;            // As claimed by the client
+    data: Buffer;
+}
+
+/**
+ * Reads the raw body of a route that turned Next.js's body parser off. Resolves to null once
+ * the body grows past maxBytes, so an oversized upload is never buffered whole.
+ */
+export function readRawBody(req: NextApiRequest, maxBytes: number): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let settled = false;
+
+        req.on('data', (chunk: Buffer) => {
+            if (settled) return;
+
+            size += chunk.length;
+            if (size > maxBytes) {
+                // The rest of the stream is still drained so the response can go out
+                settled = true;
+                resolve(null);
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (!settled) resolve(Buffer.concat(chunks));
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Parses a multipart/form-data body and returns the files sent under the given field name.
+ * Returns null when the request is not valid multipart data.
+ */
+export async function parseMultipartFiles(req: NextApiRequest, body: Buffer, fieldName: string): Promise<UploadedFile[] | null> {
+    const contentType = req.headers['content-type'] || '';
+    if (!contentType.toLowerCase().startsWith('multipart/form-data')) return null;
+
+    try {
+        // The Fetch API's parser handles boundaries and encodings, so no extra dependency is needed.
+        // It reads a view of the body rather than a copy, to keep large uploads from being held twice.
+        const view = new Uint8Array(body.buffer as ArrayBuffer, body.byteOffset, body.length);
+        const form = await new Response(view, { headers: { 'Content-Type': contentType } }).formData();
+        const files: UploadedFile[] = [];
+
+        for (const entry of form.getAll(fieldName)) {
+            if (typeof entry === 'string') continue;
+            files.push({ fileName: entry.name, contentType: entry.type, data: Buffer.from(await entry.arrayBuffer()) });
+        }
+        return files;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Formats a record version as a strong ETag, e.g. "3".
+ */
+export function formatVersionETag(version: number): string {
+    return `"${version}"`;
+}
+
+/**
+ * Reads the version a write is based on from the If-Match header.
+ * Returns undefined when the header is absent or "*" (no check), and null when it is not
+ * an ETag issued by formatVersionETag.
+ */
+export function parseIfMatchVersion(req: NextApiRequest): number | undefined | null {
+    const header = req.headers['if-match'];
+    if (!header || header.trim() === '*') return undefined;
+
+    const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Matches a status such as "approved" or "APPROVED" against the SuggestionStatus enum,
+ * whose values are capitalized (Pending, Approved, Rejected). Returns null when it matches none.
+ */
+export function parseSuggestionStatus(value: unknown): SuggestionStatus | null {
+    if (typeof value !== 'string') return null;
+
+    const match = Object.values(SuggestionStatus).find(status => status.toLowerCase() === value.toLowerCase());
+    return match || null;
+}
@@ -0,0 +1,717 @@
+// Validation schemas shared by the API routes and the client forms.
+// Each schema lists the fields a request may carry; anything else in the body is dropped,
+// so ids, timestamps and other columns can never be written through the API.
+
+import { getTripDayCount, isValidTimeZone, MINUTES_PER_DAY } from './time_utils';
+
+/** Longest trip the planner supports; also the upper bound for a place's day */
+export const MAX_TRIP_DAYS = 60;
+
+/** Values of the SuggestionStatus enum in schema.prisma */
+export const SUGGESTION_STATUSES = ['Pending', 'Approved', 'Rejected'] as const;
+
+export type SuggestionStatusName = typeof SUGGESTION_STATUSES[number];
+
+/** Data required for creating a new Trip; dates are "YYYY-MM-DD" */
+export interface CreateTripData {
+    title: string;
+    tagline?: string | null;
+    startDate: string;
+    endDate: string;
+    timezone?: string | null;        // IANA time zone such as "Asia/Shanghai"; defaults to UTC
+    coverImage?: string | null;      // URL or public path of the cover image
+}
+
+/** Data required for updating an existing Trip */
+export type UpdateTripData = Partial<CreateTripData>;
+
+/** Largest amount accepted for a cost or expense, in any currency */
+export const MAX_AMOUNT = 1000000;
+
+/** Most currencies one exchange rate table may list */
+export const MAX_RATE_CURRENCIES = 50;
+
+/** Largest party a single booking may be for */
+export const MAX_PARTY_SIZE = 50;
+
+/** Largest file that can be attached to a place */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Most files a single upload may carry */
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+/** Largest total size of the files in one upload; the server holds a whole upload in memory while checking it */
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+/** File types accepted as attachments; images also get a thumbnail */
+export const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'] as const;
+
+export type AttachmentMimeType = typeof ATTACHMENT_MIME_TYPES[number];
+
+/** Values of the ExpenseCategory enum in schema.prisma */
+export const EXPENSE_CATEGORIES = ['Food', 'Transport', 'Lodging', 'Activities', 'Shopping', 'Other'] as const;
+
+export type ExpenseCategoryName = typeof EXPENSE_CATEGORIES[number];
+
+/** The two travellers, named by their session role */
+export const TRAVELLER_ROLES = ['admin', 'trusted'] as const;
+
+export type TravellerRole = typeof TRAVELLER_ROLES[number];
+
+/** Either traveller can pay */
+export const EXPENSE_PAYERS = TRAVELLER_ROLES;
+
+export type ExpensePayer = TravellerRole;
+
+/** Values of the ChecklistCategory enum in schema.prisma */
+export const CHECKLIST_CATEGORIES = ['Booking', 'Document', 'Packing', 'Other'] as const;
+
+export type ChecklistCategoryName = typeof CHECKLIST_CATEGORIES[number];
+
+/** Data required for creating a new TripPlace */
+export interface CreateTripPlaceData {
+    tripId: string;
+    day: number;
+    startTime?: number | null;       // Minutes since midnight
+    durationMinutes?: number | null;
+    timeLabel?: string | null;       // Fuzzy slot such as "Evening"
+    name: string;
+    purpose: string;
+    notes?: string | null;
+    latitude: number;
+    longitude: number;
+    estimatedCost?: number | null;
+    currency?: string | null;        // ISO 4217 code such as "CNY"
+}
+
+/** Data required for updating an existing TripPlace */
+export type UpdateTripPlaceData = Partial<Omit<CreateTripPlaceData, 'day' | 'tripId'>> & { day?: number };
+
+/** Data required for creating a new Suggestion */
+export interface CreateSuggestionData {
+    tripId: string;
+    userId: string;
+    title: string;
+    text: string;
+}
+
+/** Data required for creating a new Expense */
+export interface CreateExpenseData {
+    tripId: string;
+    placeId?: string | null;
+    day?: number | null;             // Taken from the place when one is linked
+    payer: ExpensePayer;
+    amount: number;
+    currency: string;
+    category?: ExpenseCategoryName | null;
+    description?: string | null;
+    shared?: boolean | null;         // Split between both travellers; defaults to true
+}
+
+/** An Expense as submitted by a client; the trip comes from the URL */
+export type ExpenseInput = Omit<CreateExpenseData, 'tripId'>;
+
+/** Data required for updating an existing Expense */
+export type UpdateExpenseData = Partial<ExpenseInput>;
+
+/** Data required for creating a new ChecklistItem */
+export interface CreateChecklistItemData {
+    tripId: string;
+    placeId?: string | null;
+    title: string;
+    notes?: string | null;
+    category?: ChecklistCategoryName | null;
+    assignee?: TravellerRole | null; // Null when either traveller can do it
+    dueDate?: string | null;         // "YYYY-MM-DD"
+    done?: boolean | null;
+}
+
+/** A ChecklistItem as submitted by a client; the trip comes from the URL */
+export type ChecklistItemInput = Omit<CreateChecklistItemData, 'tripId'>;
+
+/** Data required for updating an existing ChecklistItem */
+export type UpdateChecklistItemData = Partial<ChecklistItemInput>;
+
+/** Data required for creating a new Booking */
+export interface CreateBookingData {
+    tripId: string;
+    placeId: string;
+    provider: string;
+    confirmationCode?: string | null;
+    startsAt?: string | null;        // "YYYY-MM-DDTHH:mm" in trip-local time; check-in or reservation time
+    endsAt?: string | null;          // Check-out, for stays
+    partySize?: number | null;
+    contactPhone?: string | null;
+    cancellationDeadline?: string | null;
+    notes?: string | null;
+}
+
+/** A Booking as submitted by a client; the trip comes from the URL */
+export type BookingInput = Omit<CreateBookingData, 'tripId'>;
+
+/** Data required for updating an existing Booking */
+export type UpdateBookingData = Partial<BookingInput>;
+
+/** Data recorded for an uploaded Attachment once its files are stored */
+export interface CreateAttachmentData {
+    tripId: string;
+    placeId: string;
+    fileName: string;
+    mimeType: AttachmentMimeType;
+    size: number;
+    storageKey: string;
+    thumbnailKey: string | null;
+    width: number | null;
+    height: number | null;
+    uploadedBy: string;
+}
+
+/** An exchange rate table as saved by the Admin: units of homeCurrency per unit of each currency */
+export interface RateTableInput {
+    homeCurrency: string;
+    rates: Record<string, number>;
+}
+
+/** A TripPlace as submitted by a client; the trip comes from the URL */
+export type TripPlaceInput = Omit<CreateTripPlaceData, 'tripId'>;
+
+/** A Suggestion as submitted by a client; the trip comes from the URL and the submitter from the session */
+export type SuggestionInput = Omit<CreateSuggestionData, 'tripId' | 'userId'>;
+
+/** A review decision on a Suggestion; a rejection needs a note for the submitter */
+export interface SuggestionReviewInput {
+    id?: string;                     // Only read from the body by the collection route, PATCH /api/suggestions
+    status: SuggestionStatusName;
+    reviewNote?: string | null;
+}
+
+/** A reply in a Suggestion's comment thread; the author comes from the session */
+export interface SuggestionCommentInput {
+    body: string;
+}
+
+/** Credentials posted to /api/auth/login */
+export interface LoginInput {
+    secret: string;
+}
+
+/** A drag-and-drop reorder: the complete new order of one day, which may pull in the moved place from another day */
+export interface ReorderInput {
+    day: number;
+    placeIds: string[];
+    movedPlaceId?: string;          // The place that was dragged; only it is re-timed
+    shiftStartTimes?: boolean;      // Push the later stops back by the moved place's duration
+}
+
+/** Most places a single reorder may touch */
+export const MAX_REORDER_PLACES = 200;
+
+/** Field name → human-readable problem */
+export type FieldErrors = Record<string, string>;
+
+/** Body of every 400 response caused by invalid input */
+export interface ValidationErrorResponse {
+    error: string;
+    fields: FieldErrors;
+}
+
+export type ValidationResult<T> = { ok: true, data: T } | { ok: false, fields: FieldErrors };
+
+interface FieldRule {
+    type: 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'datetime' | 'timezone';    // Dates are "YYYY-MM-DD", datetimes "YYYY-MM-DDTHH:mm", time zones IANA names
+    label: string;
+    required?: boolean;
+    min?: number;
+    max?: number;
+    maxLength?: number;
+    oneOf?: readonly string[];
+    caseInsensitive?: boolean;      // oneOf matches ignoring case and yields the listed spelling
+    pattern?: RegExp;
+    format?: string;                // Describes the pattern in error messages
+    uppercase?: boolean;
+}
+
+const CURRENCY_RULE: FieldRule = { type: 'string', label: 'Currency', pattern: /^[A-Za-z]{3}$/, format: 'a 3-letter code such as CNY', uppercase: true };
+
+type Schema<T> = { [K in keyof T]-?: FieldRule };
+
+export const TRIP_PLACE_SCHEMA: Schema<TripPlaceInput> = {
+    day:             { type: 'integer', label: 'Day', required: true, min: 1, max: MAX_TRIP_DAYS },
+    startTime:       { type: 'integer', label: 'Start time', min: 0, max: MINUTES_PER_DAY - 1 },
+    durationMinutes: { type: 'integer', label: 'Duration', min: 1, max: MINUTES_PER_DAY },
+    timeLabel:       { type: 'string', label: 'Time label', maxLength: 40 },
+    name:            { type: 'string', label: 'Name', required: true, maxLength: 120 },
+    purpose:         { type: 'string', label: 'Purpose', required: true, maxLength: 60 },
+    notes:           { type: 'string', label: 'Notes', maxLength: 2000 },
+    latitude:        { type: 'number', label: 'Latitude', required: true, min: -90, max: 90 },
+    longitude:       { type: 'number', label: 'Longitude', required: true, min: -180, max: 180 },
+    estimatedCost:   { type: 'number', label: 'Estimated cost', min: 0, max: MAX_AMOUNT },
+    currency:        CURRENCY_RULE,
+};
+
+export const TRIP_SCHEMA: Schema<CreateTripData> = {
+    title:           { type: 'string', label: 'Title', required: true, maxLength: 120 },
+    tagline:         { type: 'string', label: 'Tagline', maxLength: 200 },
+    startDate:       { type: 'date', label: 'Start date', required: true },
+    endDate:         { type: 'date', label: 'End date', required: true },
+    timezone:        { type: 'timezone', label: 'Time zone' },
+    coverImage:      { type: 'string', label: 'Cover image', maxLength: 2000 },
+};
+
+export const SUGGESTION_SCHEMA: Schema<SuggestionInput> = {
+    title:           { type: 'string', label: 'Title', required: true, maxLength: 120 },
+    text:            { type: 'string', label: 'Text', required: true, maxLength: 2000 },
+};
+
+export const SUGGESTION_REVIEW_SCHEMA: Schema<SuggestionReviewInput> = {
+    id:              { type: 'string', label: 'Suggestion ID', maxLength: 40 },
+    status:          { type: 'string', label: 'Status', required: true, oneOf: SUGGESTION_STATUSES, caseInsensitive: true },
+    reviewNote:      { type: 'string', label: 'Review note', maxLength: 1000 },
+};
+
+export const SUGGESTION_COMMENT_SCHEMA: Schema<SuggestionCommentInput> = {
+    body:            { type: 'string', label: 'Comment', required: true, maxLength: 2000 },
+};
+
+export const LOGIN_SCHEMA: Schema<LoginInput> = {
+    secret:          { type: 'string', label: 'Secret', required: true, maxLength: 200 },
+};
+
+export const EXPENSE_SCHEMA: Schema<ExpenseInput> = {
+    placeId:         { type: 'string', label: 'Place', maxLength: 40 },
+    day:             { type: 'integer', label: 'Day', min: 1, max: MAX_TRIP_DAYS },
+    payer:           { type: 'string', label: 'Payer', required: true, oneOf: EXPENSE_PAYERS },
+    amount:          { type: 'number', label: 'Amount', required: true, min: 0.01, max: MAX_AMOUNT },
+    currency:        { ...CURRENCY_RULE, required: true },
+    category:        { type: 'string', label: 'Category', oneOf: EXPENSE_CATEGORIES },
+    description:     { type: 'string', label: 'Description', maxLength: 200 },
+    shared:          { type: 'boolean', label: 'Shared' },
+};
+
+export const CHECKLIST_ITEM_SCHEMA: Schema<ChecklistItemInput> = {
+    placeId:         { type: 'string', label: 'Place', maxLength: 40 },
+    title:           { type: 'string', label: 'Title', required: true, maxLength: 120 },
+    notes:           { type: 'string', label: 'Notes', maxLength: 500 },
+    category:        { type: 'string', label: 'Category', oneOf: CHECKLIST_CATEGORIES },
+    assignee:        { type: 'string', label: 'Assignee', oneOf: TRAVELLER_ROLES },
+    dueDate:         { type: 'date', label: 'Due date' },
+    done:            { type: 'boolean', label: 'Done' },
+};
+
+export const BOOKING_SCHEMA: Schema<BookingInput> = {
+    placeId:         { type: 'string', label: 'Place', required: true, maxLength: 40 },
+    provider:        { type: 'string', label: 'Provider', required: true, maxLength: 120 },
+    confirmationCode: { type: 'string', label: 'Confirmation code', maxLength: 60 },
+    startsAt:        { type: 'datetime', label: 'Check-in / reservation time' },
+    endsAt:          { type: 'datetime', label: 'Check-out' },
+    partySize:       { type: 'integer', label: 'Party size', min: 1, max: MAX_PARTY_SIZE },
+    contactPhone:    { type: 'string', label: 'Contact phone', maxLength: 30, pattern: /^\+?[0-9][0-9 ()./-]{2,}$/, format: 'a phone number such as +86 10 1234 5678' },
+    cancellationDeadline: { type: 'datetime', label: 'Cancellation deadline' },
+    notes:           { type: 'string', label: 'Notes', maxLength: 500 },
+};
+
+/**
+ * Checks a single value against its rule. Returns the cleaned value (trimmed strings,
+ * null for cleared optional fields), undefined when the field was left out, or an error message.
+ */
+function validateField(rule: FieldRule, value: unknown, partial: boolean): { value?: unknown, error?: string } {
+    const isBlank = value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+    if (isBlank) {
+        if (rule.required) {
+            return partial && value === undefined ? {} : { error: `${rule.label} is required.` };
+        }
+        return value === undefined ? {} : { value: null };
+    }
+
+    if (rule.type === 'date') {
+        // Round-tripping through Date rejects impossible days such as 2025-02-30
+        const text = typeof value === 'string' ? value.trim() : '';
+        const isDate = /^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text)) && new Date(text).toISOString().startsWith(text);
+        return isDate ? { value: text } : { error: `${rule.label} must be a date (YYYY-MM-DD).` };
+    }
+
+    if (rule.type === 'datetime') {
+        // A wall clock time without a zone; parsed as UTC only to reject impossible values
+        const text = typeof value === 'string' ? value.trim() : '';
+        const asUtc = `${text}:00.000Z`;
+        const isDateTime = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(text) && !isNaN(Date.parse(asUtc)) && new Date(asUtc).toISOString() === asUtc;
+        return isDateTime ? { value: text } : { error: `${rule.label} must be a date and time (YYYY-MM-DDTHH:mm).` };
+    }
+
+    if (rule.type === 'timezone') {
+        // An unknown zone would be stored and make every local time on the trip wrong
+        const text = typeof value === 'string' ? value.trim() : '';
+        return text.length <= 64 && isValidTimeZone(text) ? { value: text } : { error: `${rule.label} must be an IANA time zone such as Asia/Shanghai.` };
+    }
+
+    if (rule.type === 'boolean') {
+        return typeof value === 'boolean' ? { value } : { error: `${rule.label} must be true or false.` };
+    }
+
+    if (rule.type === 'string') {
+        if (typeof value !== 'string') return { error: `${rule.label} must be text.` };
+
+        const text = value.trim();
+        if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+            return { error: `${rule.label} must be at most ${rule.maxLength} characters.` };
+        }
+        if (rule.oneOf) {
+            const match = rule.oneOf.find(option => rule.caseInsensitive ? option.toLowerCase() === text.toLowerCase() : option === text);
+            if (match === undefined) {
+                return { error: `${rule.label} must be one of: ${rule.oneOf.join(', ')}.` };
+            }
+            return { value: match };
+        }
+        if (rule.pattern && !rule.pattern.test(text)) {
+            return { error: `${rule.label} must be ${rule.format}.` };
+        }
+        return { value: rule.uppercase ? text.toUpperCase() : text };
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) return { error: `${rule.label} must be a number.` };
+    if (rule.type === 'integer' && !Number.isInteger(value)) return { error: `${rule.label} must be a whole number.` };
+
+    if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        return { error: `${rule.label} must be between ${rule.min} and ${rule.max}.` };
+    }
+    return { value };
+}
+
+/**
+ * Validates a request body against a schema. With partial set, missing fields are allowed
+ * (updates), but fields that are present still have to be valid.
+ */
+function validateSchema<T>(schema: Schema<T>, input: unknown, partial: boolean): ValidationResult<Partial<T>> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, fields: { body: 'Request body must be a JSON object.' } };
+    }
+
+    const data: Record<string, unknown> = {};
+    const fields: FieldErrors = {};
+
+    for (const key of Object.keys(schema) as (keyof T & string)[]) {
+        const result = validateField(schema[key], (input as Record<string, unknown>)[key], partial);
+
+        if (result.error) {
+            fields[key] = result.error;
+        } else if ('value' in result) {
+            data[key] = result.value;
+        }
+    }
+
+    return Object.keys(fields).length > 0 ? { ok: false, fields } : { ok: true, data: data as Partial<T> };
+}
+
+/**
+ * Validates a new Trip. The title and both dates are required, and the trip cannot end before it starts.
+ */
+export function validateTripInput(input: unknown): ValidationResult<CreateTripData> {
+    const result = validateSchema(TRIP_SCHEMA, input, false);
+    if (!result.ok) return result;
+
+    if (result.data.endDate! < result.data.startDate!) {
+        return { ok: false, fields: { endDate: 'End date must not be before the start date.' } };
+    }
+    return { ok: true, data: result.data as CreateTripData };
+}
+
+/**
+ * Validates changes to an existing Trip. At least one known field must be present; pass the
+ * stored dates as current so that moving only one of them is checked against the other.
+ */
+export function validateTripUpdate(input: unknown, current?: Pick<CreateTripData, 'startDate' | 'endDate'>): ValidationResult<UpdateTripData> {
+    const result = validateSchema(TRIP_SCHEMA, input, true);
+    if (!result.ok) return result;
+
+    if (Object.keys(result.data).length === 0) {
+        return { ok: false, fields: { body: 'Provide at least one field to update.' } };
+    }
+
+    const startDate = result.data.startDate ?? current?.startDate;
+    const endDate = result.data.endDate ?? current?.endDate;
+    if (startDate && endDate && endDate < startDate) {
+        return { ok: false, fields: { endDate: 'End date must not be before the start date.' } };
+    }
+    return result;
+}
+
+/**
+ * The rules a whole place has to meet: a clock time or a fuzzy time label, and a currency
+ * for an estimated cost. Returns null when the place meets them.
+ */
+function checkTripPlace(place: Partial<TripPlaceInput>): FieldErrors | null {
+    if (typeof place.startTime !== 'number' && !place.timeLabel) {
+        return { startTime: 'Provide a start time or a time label.' };
+    }
+    if (typeof place.estimatedCost === 'number' && !place.currency) {
+        return { currency: 'Provide a currency for the estimated cost.' };
+    }
+    return null;
+}
+
+/**
+ * Validates a new TripPlace. A place needs either a clock time or a fuzzy time label,
+ * and an estimated cost needs a currency.
+ * Pass nameOptional when the name has a fallback, e.g. a scheduled suggestion's title.
+ */
+export function validateTripPlaceInput(input: unknown, options: { nameOptional?: boolean } = {}): ValidationResult<TripPlaceInput> {
+    const schema = options.nameOptional
+        ? { ...TRIP_PLACE_SCHEMA, name: { ...TRIP_PLACE_SCHEMA.name, required: false } }
+        : TRIP_PLACE_SCHEMA;
+
+    const result = validateSchema(schema, input, false);
+    if (!result.ok) return result;
+
+    const fields = checkTripPlace(result.data);
+    if (fields) return { ok: false, fields };
+
+    return { ok: true, data: result.data as TripPlaceInput };
+}
+
+/**
+ * Validates changes to an existing TripPlace. At least one known field must be present.
+ * Pass the stored place as current: the place as it will be saved (stored fields plus the
+ * changes) then has to meet the same rules as a new one. Without it, only the sent fields are checked.
+ */
+export function validateTripPlaceUpdate(input: unknown, current?: Partial<TripPlaceInput>): ValidationResult<UpdateTripPlaceData> {
+    const result = validateSchema(TRIP_PLACE_SCHEMA, input, true);
+    if (!result.ok) return result;
+
+    if (Object.keys(result.data).length === 0) {
+        return { ok: false, fields: { body: 'Provide at least one field to update.' } };
+    }
+
+    if (current) {
+        const fields = checkTripPlace({ ...current, ...result.data });
+        if (fields) return { ok: false, fields };
+    }
+    return result;
+}
+
+/**
+ * Validates a new Expense. Payer, amount and currency are required; a missing category
+ * or shared flag falls back to the database default.
+ */
+export function validateExpenseInput(input: unknown): ValidationResult<ExpenseInput> {
+    return validateSchema(EXPENSE_SCHEMA, input, false) as ValidationResult<ExpenseInput>;
+}
+
+/**
+ * Validates changes to an existing Expense. At least one known field must be present.
+ */
+export function validateExpenseUpdate(input: unknown): ValidationResult<UpdateExpenseData> {
+    const result = validateSchema(EXPENSE_SCHEMA, input, true);
+    if (!result.ok) return result;
+
+    if (Object.keys(result.data).length === 0) {
+        return { ok: false, fields: { body: 'Provide at least one field to update.' } };
+    }
+    return result;
+}
+
+/**
+ * Checks a place's day against the length of its trip. The schemas only cap the day at
+ * MAX_TRIP_DAYS, because the trip is not known until the route has loaded it.
+ * Returns null when the day is inside the trip or was not sent.
+ */
+export function checkTripDay(day: number | undefined, trip: { startDate: Date | string, endDate: Date | string }): FieldErrors | null {
+    const dayCount = getTripDayCount(trip);
+    if (day === undefined || day <= dayCount) return null;
+    return { day: `Day must be between 1 and ${dayCount}, the length of this trip.` };
+}
+
+/**
+ * Validates a new Suggestion's title and text.
+ */
+export function validateSuggestionInput(input: unknown): ValidationResult<SuggestionInput> {
+    return validateSchema(SUGGESTION_SCHEMA, input, false) as ValidationResult<SuggestionInput>;
+}
+
+/**
+ * Validates a review decision. A rejection must explain itself to the submitter.
+ * Pass idRequired for the collection route, which takes the suggestion's ID from the body.
+ */
+export function validateSuggestionReviewInput(input: unknown, options: { idRequired?: boolean } = {}): ValidationResult<SuggestionReviewInput> {
+    const schema = options.idRequired
+        ? { ...SUGGESTION_REVIEW_SCHEMA, id: { ...SUGGESTION_REVIEW_SCHEMA.id, required: true } }
+        : SUGGESTION_REVIEW_SCHEMA;
+
+    const result = validateSchema(schema, input, false);
+    if (!result.ok) return result;
+
+    if (result.data.status === 'Rejected' && !result.data.reviewNote) {
+        return { ok: false, fields: { reviewNote: 'Review note is required when rejecting a suggestion.' } };
+    }
+    return { ok: true, data: result.data as SuggestionReviewInput };
+}
+
+/**
+ * Validates a reply to a suggestion thread.
+ */
+export function validateSuggestionCommentInput(input: unknown): ValidationResult<SuggestionCommentInput> {
+    return validateSchema(SUGGESTION_COMMENT_SCHEMA, input, false) as ValidationResult<SuggestionCommentInput>;
+}
+
+/**
+ * Validates a login request. Only the shape is checked here; the secret itself is compared by auth_utils.
+ */
+export function validateLoginInput(input: unknown): ValidationResult<LoginInput> {
+    return validateSchema(LOGIN_SCHEMA, input, false) as ValidationResult<LoginInput>;
+}
+
+/**
+ * Validates a reorder request: a valid day, a non-empty list of distinct place ids and,
+ * when given, a moved place that is part of that list.
+ */
+export function validateReorderInput(input: unknown): ValidationResult<ReorderInput> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, fields: { body: 'Request body must be a JSON object.' } };
+    }
+
+    const { day, placeIds, movedPlaceId, shiftStartTimes } = input as Record<string, unknown>;
+    const fields: FieldErrors = {};
+
+    const dayResult = validateField(TRIP_PLACE_SCHEMA.day, day, false);
+    if (dayResult.error) fields.day = dayResult.error;
+
+    if (!Array.isArray(placeIds) || placeIds.length === 0 || !placeIds.every(id => typeof id === 'string' && id)) {
+        fields.placeIds = 'Place IDs must be a non-empty list of IDs.';
+    } else if (placeIds.length > MAX_REORDER_PLACES) {
+        fields.placeIds = `A reorder can include at most ${MAX_REORDER_PLACES} places.`;
+    } else if (new Set(placeIds).size !== placeIds.length) {
+        fields.placeIds = 'Place IDs must not repeat.';
+    }
+
+    if (movedPlaceId !== undefined && movedPlaceId !== null &&
+        (typeof movedPlaceId !== 'string' || !Array.isArray(placeIds) || !placeIds.includes(movedPlaceId))) {
+        fields.movedPlaceId = 'The moved place must be one of the reordered places.';
+    }
+
+    if (shiftStartTimes !== undefined && typeof shiftStartTimes !== 'boolean') {
+        fields.shiftStartTimes = 'Shift start times must be true or false.';
+    }
+
+    if (Object.keys(fields).length > 0) return { ok: false, fields };
+
+    return {
+        ok: true,
+        data: {
+            day: dayResult.value as number,
+            placeIds: placeIds as string[],
+            movedPlaceId: typeof movedPlaceId === 'string' ? movedPlaceId : undefined,
+            shiftStartTimes: shiftStartTimes === true,
+        },
+    };
+}
+
+/**
+ * Validates a new ChecklistItem. Only the title is required; category and done flag
+ * fall back to the database defaults.
+ */
+export function validateChecklistItemInput(input: unknown): ValidationResult<ChecklistItemInput> {
+    return validateSchema(CHECKLIST_ITEM_SCHEMA, input, false) as ValidationResult<ChecklistItemInput>;
+}
+
+/**
+ * Validates changes to an existing ChecklistItem, such as ticking it off. At least one known
+ * field must be present.
+ */
+export function validateChecklistItemUpdate(input: unknown): ValidationResult<UpdateChecklistItemData> {
+    const result = validateSchema(CHECKLIST_ITEM_SCHEMA, input, true);
+    if (!result.ok) return result;
+
+    if (Object.keys(result.data).length === 0) {
+        return { ok: false, fields: { body: 'Provide at least one field to update.' } };
+    }
+    return result;
+}
+
+/**
+ * Validates a new Booking. The place and provider are required, and a check-out
+ * cannot come before the check-in.
+ */
+export function validateBookingInput(input: unknown): ValidationResult<BookingInput> {
+    const result = validateSchema(BOOKING_SCHEMA, input, false);
+    if (!result.ok) return result;
+
+    if (result.data.startsAt && result.data.endsAt && result.data.endsAt < result.data.startsAt) {
+        return { ok: false, fields: { endsAt: 'Check-out must be after the check-in.' } };
+    }
+    return { ok: true, data: result.data as BookingInput };
+}
+
+/**
+ * Validates changes to an existing Booking. At least one known field must be present.
+ * Pass the stored check-in and check-out as current: a time that is not sent is then checked
+ * against the stored one, so the check-out cannot end up before the check-in. Without it,
+ * only times sent together are compared.
+ */
+export function validateBookingUpdate(input: unknown, current?: Pick<BookingInput, 'startsAt' | 'endsAt'>): ValidationResult<UpdateBookingData> {
+    const result = validateSchema(BOOKING_SCHEMA, input, true);
+    if (!result.ok) return result;
+
+    if (Object.keys(result.data).length === 0) {
+        return { ok: false, fields: { body: 'Provide at least one field to update.' } };
+    }
+
+    const { startsAt, endsAt } = { ...current, ...result.data };
+    if (startsAt && endsAt && endsAt < startsAt) {
+        return { ok: false, fields: { endsAt: 'Check-out must be after the check-in.' } };
+    }
+    return result;
+}
+
+/**
+ * Validates an exchange rate table: a home currency and up to MAX_RATE_CURRENCIES positive
+ * rates keyed by currency code. Codes are uppercased; the home currency may only be listed at 1.
+ */
+export function validateRateTableInput(input: unknown): ValidationResult<RateTableInput> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, fields: { body: 'Request body must be a JSON object.' } };
+    }
+
+    const { homeCurrency, rates } = input as Record<string, unknown>;
+    const fields: FieldErrors = {};
+
+    const homeResult = validateField({ ...CURRENCY_RULE, label: 'Home currency', required: true }, homeCurrency, false);
+    if (homeResult.error) fields.homeCurrency = homeResult.error;
+
+    const cleanRates: Record<string, number> = {};
+    if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+        fields.rates = 'Rates must be an object of currency codes and rates.';
+    } else if (Object.keys(rates).length > MAX_RATE_CURRENCIES) {
+        fields.rates = `A rate table can list at most ${MAX_RATE_CURRENCIES} currencies.`;
+    } else {
+        for (const [code, rate] of Object.entries(rates)) {
+            const codeResult = validateField({ ...CURRENCY_RULE, required: true }, code, false);
+            const rateResult = validateField({ type: 'number', label: `Rate for ${code}`, required: true, min: 0.000001, max: MAX_AMOUNT }, rate, false);
+            const error = codeResult.error || rateResult.error;
+
+            if (error) {
+                fields.rates = error;
+                break;
+            }
+            cleanRates[codeResult.value as string] = rateResult.value as number;
+        }
+    }
+
+    const home = homeResult.value as string | undefined;
+    if (!fields.rates && home && home in cleanRates) {
+        if (cleanRates[home] !== 1) {
+            fields.rates = 'The home currency always converts at 1.';
+        }
+        delete cleanRates[home];
+    }
+
+    if (Object.keys(fields).length > 0) return { ok: false, fields };
+
+    return { ok: true, data: { homeCurrency: home!, rates: cleanRates } };
+}
+
+/**
+ * Builds the 400 response body for failed validation; `error` summarizes the field messages.
+ */
+export function validationError(fields: FieldErrors): ValidationErrorResponse {
+    return { error: `Invalid request: ${Object.values(fields).join(' ')}`, fields };
+}
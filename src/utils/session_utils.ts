@@ -0,0 +1,146 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+export type SessionRole = 'admin' | 'trusted';
+
+/** Payload carried inside the signed session cookie */
+export interface Session {
+    role: SessionRole;
+    userId: string;     // Stable identifier of the browser that logged in; issued by the server
+    expiresAt: number;  // Unix timestamp (ms) after which the cookie is rejected
+}
+
+export const SESSION_COOKIE_NAME = 'planner_session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// The browser's identifier outlives its sessions, so suggestions stay linked to it after logging out
+export const IDENTITY_COOKIE_NAME = 'planner_identity';
+const IDENTITY_MAX_AGE_SECONDS = 60 * 60 * 24 * 365; // 1 year
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getSigningKey(): string | null {
+    const key = process.env.SESSION_SECRET;
+    if (!key) {
+        console.error('SESSION_SECRET environment variable is not set!');
+        return null;
+    }
+    return key;
+}
+
+function sign(value: string, key: string): string {
+    return createHmac('sha256', key).update(value).digest('base64url');
+}
+
+/**
+ * Constant-time string comparison, used for both signatures and login secrets.
+ */
+export function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Serializes and signs a session as `<base64url payload>.<base64url HMAC>`.
+ */
+function encodeSession(session: Session, key: string): string {
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+    return `${payload}.${sign(payload, key)}`;
+}
+
+/**
+ * Verifies the signature and expiry of a session token. Returns null when either check fails.
+ */
+function decodeSession(token: string, key: string): Session | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature || !safeEqual(signature, sign(payload, key))) {
+        return null;
+    }
+
+    try {
+        const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+        if (session.role !== 'admin' && session.role !== 'trusted') return null;
+        if (typeof session.expiresAt !== 'number' || session.expiresAt < Date.now()) return null;
+        return session;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Signs a browser identifier as `<id>.<base64url HMAC>`. The prefix keeps an identity
+ * signature from ever verifying a session payload, and the other way round.
+ */
+function encodeIdentity(userId: string, key: string): string {
+    return `${userId}.${sign(`identity:${userId}`, key)}`;
+}
+
+/**
+ * Verifies an identity token. Returns null when it is malformed or its signature does not match.
+ */
+function decodeIdentity(token: string, key: string): string | null {
+    const [userId, signature] = token.split('.');
+    if (!userId || !signature || !UUID_PATTERN.test(userId)) return null;
+
+    return safeEqual(signature, sign(`identity:${userId}`, key)) ? userId : null;
+}
+
+function serializeCookie(name: string, value: string, maxAgeSeconds: number): string {
+    const attributes = [
+        `${name}=${value}`,
+        'Path=/',
+        'HttpOnly',
+        'SameSite=Lax',
+        `Max-Age=${maxAgeSeconds}`,
+    ];
+    if (process.env.NODE_ENV === 'production') {
+        attributes.push('Secure');
+    }
+    return attributes.join('; ');
+}
+
+/**
+ * Reads the session from the request cookie. Returns null for guests,
+ * tampered or expired cookies, and when SESSION_SECRET is missing.
+ */
+export function getSession(req: NextApiRequest): Session | null {
+    const token = req.cookies[SESSION_COOKIE_NAME];
+    const key = getSigningKey();
+    if (!token || !key) return null;
+
+    return decodeSession(token, key);
+}
+
+/**
+ * Issues a new signed HttpOnly session cookie for the given role.
+ * The userId is never taken from the client: it comes from the browser's signed identity cookie,
+ * or from the session being replaced, and is otherwise a new random UUID.
+ * Returns the session, or null when the server cannot sign cookies.
+ */
+export function startSession(req: NextApiRequest, res: NextApiResponse, role: SessionRole): Session | null {
+    const key = getSigningKey();
+    if (!key) return null;
+
+    const identityToken = req.cookies[IDENTITY_COOKIE_NAME];
+    const currentSession = getSession(req);
+    const userId = (identityToken && decodeIdentity(identityToken, key)) || (currentSession && currentSession.userId) || randomUUID();
+
+    const session: Session = {
+        role,
+        userId,
+        expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+    };
+    res.setHeader('Set-Cookie', [
+        serializeCookie(SESSION_COOKIE_NAME, encodeSession(session, key), SESSION_MAX_AGE_SECONDS),
+        serializeCookie(IDENTITY_COOKIE_NAME, encodeIdentity(userId, key), IDENTITY_MAX_AGE_SECONDS),
+    ]);
+    return session;
+}
+
+/**
+ * Expires the session cookie on the client. The identity cookie stays, so the next login
+ * continues as the same browser.
+ */
+export function endSession(res: NextApiResponse): void {
+    res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE_NAME, '', 0));
+}
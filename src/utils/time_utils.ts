@@ -0,0 +1,120 @@
+// Time-of-day helpers shared by the API routes and the client.
+// Start times are stored as minutes since midnight in the trip's local time.
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Approximate start times for fuzzy slots, so "Evening" still sorts after "2:00 PM".
+ * Keep in sync with the backfill in the add_structured_start_time migration.
+ */
+export const FUZZY_TIME_SLOTS: Record<string, number> = {
+    morning: 9 * 60,
+    '早上': 9 * 60,
+    noon: 12 * 60,
+    lunch: 12 * 60,
+    '中午': 12 * 60,
+    afternoon: 14 * 60,
+    '下午': 14 * 60,
+    evening: 18 * 60,
+    dinner: 19 * 60,
+    '晚上': 19 * 60,
+    night: 21 * 60,
+    '夜晚': 21 * 60,
+};
+
+/** The structured time fields of a TripPlace */
+export interface PlaceTiming {
+    startTime: number | null;
+    durationMinutes: number | null;
+    timeLabel: string | null;
+}
+
+/**
+ * Parses a free-form time such as "09:30", "9:30 PM", "10 AM" or "Evening".
+ * Clock times become minutes since midnight; fuzzy slots keep their text as the label
+ * and get an approximate start time when known. Anything else is kept as a label only.
+ */
+export function parseTimeString(value: string): Pick<PlaceTiming, 'startTime' | 'timeLabel'> {
+    const text = value.trim();
+    if (!text) return { startTime: null, timeLabel: null };
+
+    const twentyFourHour = text.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    if (twentyFourHour) {
+        return { startTime: parseInt(twentyFourHour[1], 10) * 60 + parseInt(twentyFourHour[2], 10), timeLabel: null };
+    }
+
+    const twelveHour = text.match(/^(1[0-2]|0?[1-9])(?::([0-5]\d))?\s*([ap])\.?m\.?$/i);
+    if (twelveHour) {
+        const hour = parseInt(twelveHour[1], 10) % 12 + (twelveHour[3].toLowerCase() === 'p' ? 12 : 0);
+        const minutes = twelveHour[2] ? parseInt(twelveHour[2], 10) : 0;
+        return { startTime: hour * 60 + minutes, timeLabel: null };
+    }
+
+    const fuzzyStart = FUZZY_TIME_SLOTS[text.toLowerCase()];
+    return { startTime: fuzzyStart !== undefined ? fuzzyStart : null, timeLabel: text };
+}
+
+/**
+ * Formats minutes since midnight as a 24-hour "HH:MM" string (the <input type="time"> format).
+ */
+export function formatStartTime(minutes: number): string {
+    const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const hours = Math.floor(normalized / 60);
+    const mins = normalized % 60;
+    return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Human-readable time for a place: the label for fuzzy slots, otherwise "HH:MM" or "HH:MM–HH:MM".
+ */
+export function formatPlaceTime(place: PlaceTiming): string {
+    if (place.timeLabel) return place.timeLabel;
+    if (place.startTime === null) return 'Anytime';
+
+    const start = formatStartTime(place.startTime);
+    return place.durationMinutes
+        ? `${start}–${formatStartTime(place.startTime + place.durationMinutes)}`
+        : start;
+}
+
+/**
+ * Chronological comparator: earlier start times first, places without a start time last.
+ * Ties follow the drag-and-drop position when the places carry one.
+ */
+export function compareByStartTime(a: PlaceTiming & { position?: number }, b: PlaceTiming & { position?: number }): number {
+    if (a.startTime !== null && b.startTime === null) return -1;
+    if (a.startTime === null && b.startTime !== null) return 1;
+
+    const byTime = (a.startTime ?? 0) - (b.startTime ?? 0);
+    if (byTime !== 0) return byTime;
+
+    const byPosition = (a.position ?? 0) - (b.position ?? 0);
+    if (byPosition !== 0) return byPosition;
+
+    return a.startTime === null ? (a.timeLabel || '').localeCompare(b.timeLabel || '') : 0;
+}
+
+/**
+ * Number of calendar days covered by a trip (inclusive), at least 1. Accepts the stored
+ * Date columns as well as the ISO strings the client receives.
+ */
+export function getTripDayCount(trip: { startDate: Date | string, endDate: Date | string }): number {
+    const msPerDay = MINUTES_PER_DAY * 60 * 1000;
+    const span = Math.round((new Date(trip.endDate).getTime() - new Date(trip.startDate).getTime()) / msPerDay);
+    return Math.max(1, span + 1);
+}
+
+/**
+ * Whether the runtime knows a time zone by this IANA name, e.g. "Asia/Tokyo".
+ * Intl throws a RangeError for unknown zones, so constructing a formatter is the check.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) return false;
+
+    try {
+        new Intl.DateTimeFormat(undefined, { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,132 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AuditActor } from './audit_utils';
+import { AuthContext, getAuditActor, PermissionedHandler } from './permissions';
+import { getQueryParam, resolveTripId } from './request_utils';
+import { ValidationResult, validationError } from './schemas';
+
+// Expenses, checklist items and bookings are trip records handled the same way:
+// a collection route (list, create) and a record route (update, delete). Only the
+// data functions and wording differ, so the routes describe those and share the handling.
+
+/** How a kind of trip record is named in error messages and logs */
+export interface TripRecordNames {
+    route: string;              // e.g. '/api/expenses', for error logs
+    record: string;             // e.g. 'Expense', for a missing ID or record
+    request: string;            // e.g. 'expense', for server errors
+    collection: string;         // e.g. 'expenses', for an unknown trip
+    placeError: string;         // Why a create or update fails when the linked place belongs to another trip
+}
+
+/** The list and create operations behind a collection route */
+export interface TripCollectionRoute<T, Input> extends TripRecordNames {
+    noTrip: string;             // Answered when no trip exists yet, e.g. 'Create a trip before recording expenses.'
+    list: (tripId: string) => Promise<T[]>;
+    validate: (input: unknown) => ValidationResult<Input>;
+    create: (data: Input & { tripId: string }, actor: AuditActor) => Promise<T | null>;
+}
+
+/** The update and delete operations behind a record route */
+export interface TripRecordRoute<T, Update> extends TripRecordNames {
+    load?: (id: string) => Promise<T | null>;       // When set, updates are validated against the stored record
+    validate: (input: unknown, current?: T) => ValidationResult<Update>;
+    update: (id: string, data: Update, actor: AuditActor) => Promise<T | null>;
+    remove: (id: string, actor: AuditActor) => Promise<T>;
+}
+
+/**
+ * Handles GET (list) and POST (create) for the records of the trip given by ?tripId=,
+ * otherwise the default trip. Permissions are checked by withPermission around it.
+ */
+export function tripCollectionHandler<T, Input>(route: TripCollectionRoute<T, Input>): PermissionedHandler<T[] | T> {
+    return async (req: NextApiRequest, res: NextApiResponse<T[] | T | { error: string }>, auth: AuthContext) => {
+        try {
+            const tripId = await resolveTripId(req);
+
+            if (!tripId) {
+                return res.status(404).json({ error: `No trip found. ${route.noTrip}` });
+            }
+
+            if (req.method === 'GET') {
+                return res.status(200).json(await route.list(tripId));
+
+            } else if (req.method === 'POST') {
+                // Only schema fields are passed on; the trip always comes from the request
+                const validation = route.validate(req.body);
+                if (!validation.ok) {
+                    return res.status(400).json(validationError(validation.fields));
+                }
+
+                const created = await route.create({ ...validation.data, tripId }, getAuditActor(auth));
+
+                if (!created) {
+                    return res.status(400).json(validationError({ placeId: route.placeError }));
+                }
+
+                return res.status(201).json(created);
+            }
+
+            return res.status(405).json({ error: 'Method Not Allowed' });
+        } catch (error: any) {
+            console.error(`Error in ${route.route} handler (${req.method}):`, error);
+
+            // Handle Prisma "Foreign key constraint failed" error (trip deleted meanwhile)
+            if (error.code === 'P2003') {
+                return res.status(404).json({ error: `Trip not found for the requested ${route.collection}.` });
+            }
+
+            return res.status(500).json({ error: `Failed to process ${route.request} request due to a server error.` });
+        }
+    };
+}
+
+/**
+ * Handles PUT (partial update) and DELETE for one record given by the [id] path segment.
+ * Permissions are checked by withPermission around it.
+ */
+export function tripRecordHandler<T, Update>(route: TripRecordRoute<T, Update>): PermissionedHandler<T> {
+    return async (req: NextApiRequest, res: NextApiResponse<T | { error: string }>, auth: AuthContext) => {
+        const id = getQueryParam(req, 'id');
+
+        if (!id) {
+            return res.status(400).json({ error: `${route.record} ID is required in the URL path.` });
+        }
+
+        try {
+            if (req.method === 'PUT') {
+                const current = route.load ? await route.load(id) : undefined;
+                if (current === null) {
+                    return res.status(404).json({ error: `${route.record} not found with ID: ${id}` });
+                }
+
+                // Only schema fields are passed on; the trip of a record never changes
+                const validation = route.validate(req.body, current);
+                if (!validation.ok) {
+                    return res.status(400).json(validationError(validation.fields));
+                }
+
+                const updated = await route.update(id, validation.data, getAuditActor(auth));
+
+                if (!updated) {
+                    return res.status(400).json(validationError({ placeId: route.placeError }));
+                }
+
+                return res.status(200).json(updated);
+
+            } else if (req.method === 'DELETE') {
+                return res.status(200).json(await route.remove(id, getAuditActor(auth)));
+            }
+
+            return res.status(405).json({ error: 'Method Not Allowed' });
+
+        } catch (error: any) {
+            console.error(`Error in ${route.route}/[id] handler (${req.method}):`, error);
+
+            // Handle Prisma "Record not found" error
+            if (error.code === 'P2025') {
+                return res.status(404).json({ error: `${route.record} not found with ID: ${id}` });
+            }
+
+            return res.status(500).json({ error: `Failed to process ${route.request} request due to a server error.` });
+        }
+    };
+}
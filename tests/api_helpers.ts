@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Session, SessionRole } from '../src/utils/session_utils';
+
+// Stand-ins for the Next.js request and response objects, for calling API routes directly.
+
+export interface RequestOptions {
+    method: string;
+    query?: Record<string, string>;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+/** What a route answered; bodies stay unknown so tests compare them rather than reach into them */
+export interface RouteResult {
+    statusCode: number;
+    body: unknown;
+    headers: Record<string, string | string[]>;
+}
+
+type ApiRoute = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+/** Only the parts of a request the routes read; the rest of IncomingMessage is never touched */
+export function mockRequest(options: RequestOptions): NextApiRequest {
+    const req: Pick<NextApiRequest, 'method' | 'query' | 'body' | 'headers' | 'cookies'> = {
+        method: options.method,
+        query: options.query ?? {},
+        body: options.body,
+        headers: options.headers ?? {},
+        cookies: {},
+    };
+    return req as NextApiRequest;
+}
+
+/** A signed-in session, as getSession would return it */
+export function makeSession(role: SessionRole, userId = `${role}-user`): Session {
+    return { role, userId, expiresAt: Date.now() + 60_000 };
+}
+
+/** Runs an API route against a recording response and returns what it answered */
+export async function callRoute(route: ApiRoute, options: RequestOptions): Promise<RouteResult> {
+    const result: RouteResult = { statusCode: 200, body: undefined, headers: {} };
+    const res: Pick<NextApiResponse, 'status' | 'json' | 'send' | 'setHeader'> = {
+        status(code: number) { result.statusCode = code; return res as NextApiResponse; },
+        json(body: unknown) { result.body = body; },
+        send(body: unknown) { result.body = body; },
+        setHeader(name: string, value: string | number | readonly string[]) {
+            result.headers[name.toLowerCase()] = typeof value === 'number' ? String(value) : typeof value === 'string' ? value : [...value];
+            return res as NextApiResponse;
+        },
+    };
+    await route(mockRequest(options), res as NextApiResponse);
+    return result;
+}
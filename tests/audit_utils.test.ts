@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { diffRecords } from '../src/utils/audit_utils';
+
+describe('diffRecords', () => {
+    it('lists only the fields that changed', () => {
+        const before = { id: 'a', name: 'Louvre', day: 1, notes: null };
+        const after = { id: 'a', name: 'Louvre', day: 2, notes: 'Closed Tuesdays' };
+
+        expect(diffRecords(before, after)).toEqual({
+            day: { before: 1, after: 2 },
+            notes: { before: null, after: 'Closed Tuesdays' },
+        });
+    });
+
+    it('reports every field against null for a create or delete', () => {
+        expect(diffRecords(null, { id: 'a', name: 'Louvre' })).toEqual({ name: { before: null, after: 'Louvre' } });
+        expect(diffRecords({ id: 'a', name: 'Louvre' }, null)).toEqual({ name: { before: 'Louvre', after: null } });
+    });
+
+    it('ignores bookkeeping columns and compares dates by value', () => {
+        const before = { createdAt: new Date(0), updatedAt: new Date(0), version: 1, startDate: new Date('2025-04-01T00:00:00Z') };
+        const after = { createdAt: new Date(1), updatedAt: new Date(1), version: 2, startDate: new Date('2025-04-01T00:00:00Z') };
+
+        expect(diffRecords(before, after)).toEqual({});
+    });
+
+    it('stores dates as ISO strings', () => {
+        const changes = diffRecords({ endDate: new Date('2025-04-04T00:00:00Z') }, { endDate: new Date('2025-04-05T00:00:00Z') });
+
+        expect(changes.endDate).toEqual({ before: '2025-04-04T00:00:00.000Z', after: '2025-04-05T00:00:00.000Z' });
+    });
+});
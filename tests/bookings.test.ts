@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSession } from '../src/utils/session_utils';
+import * as db from '../src/services/prisma_service';
+import bookingsRoute from '../src/pages/api/bookings';
+import bookingRoute from '../src/pages/api/bookings/[id]';
+import deadlinesRoute from '../src/pages/api/bookings/deadlines';
+import { callRoute, makeSession } from './api_helpers';
+import { makeBooking, makeTrip } from './fixtures';
+
+vi.mock('../src/utils/session_utils', () => ({ getSession: vi.fn() }));
+vi.mock('../src/services/prisma_service', () => ({
+    getTrip: vi.fn(),
+    getDefaultTrip: vi.fn(),
+    getBookings: vi.fn(),
+    getBooking: vi.fn(),
+    getUpcomingCancellationDeadlines: vi.fn(),
+    createBooking: vi.fn(),
+    updateBooking: vi.fn(),
+    deleteBooking: vi.fn(),
+}));
+
+const TRUSTED_ACTOR = { role: 'trusted', userId: 'trusted-user' };
+
+// Two nights from 15:00 on November 1st, stored as trip-local wall clock times
+const STAY = makeBooking('stay', {
+    startsAt: new Date('2025-11-01T15:00:00.000Z'),
+    endsAt: new Date('2025-11-03T11:00:00.000Z'),
+});
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getSession).mockReturnValue(makeSession('trusted'));
+    vi.mocked(db.getTrip).mockResolvedValue(makeTrip());
+    vi.mocked(db.getDefaultTrip).mockResolvedValue(makeTrip());
+});
+
+describe('/api/bookings', () => {
+    it('creates a booking for a place of the trip', async () => {
+        vi.mocked(db.createBooking).mockResolvedValue(STAY);
+
+        const res = await callRoute(bookingsRoute, {
+            method: 'POST',
+            query: { tripId: 'trip-1' },
+            body: { placeId: 'hotel', provider: 'Hotel Gracery', startsAt: '2025-11-01T15:00', endsAt: '2025-11-03T11:00', partySize: 2 },
+        });
+
+        expect(res.statusCode).toBe(201);
+        expect(db.createBooking).toHaveBeenCalledWith(
+            { placeId: 'hotel', provider: 'Hotel Gracery', startsAt: '2025-11-01T15:00', endsAt: '2025-11-03T11:00', partySize: 2, tripId: 'trip-1' },
+            TRUSTED_ACTOR,
+        );
+    });
+
+    it('needs a place and rejects a check-out before the check-in', async () => {
+        const unplaced = await callRoute(bookingsRoute, { method: 'POST', body: { provider: 'Hotel Gracery' } });
+        const backwards = await callRoute(bookingsRoute, {
+            method: 'POST',
+            body: { placeId: 'hotel', provider: 'Hotel Gracery', startsAt: '2025-11-03T15:00', endsAt: '2025-11-01T11:00' },
+        });
+
+        expect(unplaced.statusCode).toBe(400);
+        expect(backwards.body).toMatchObject({ fields: { endsAt: 'Check-out must be after the check-in.' } });
+        expect(db.createBooking).not.toHaveBeenCalled();
+    });
+
+    it('rejects a place from another trip', async () => {
+        vi.mocked(db.createBooking).mockResolvedValue(null);
+
+        const res = await callRoute(bookingsRoute, { method: 'POST', body: { placeId: 'elsewhere', provider: 'Hotel Gracery' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ fields: { placeId: 'The place is not part of this trip.' } });
+    });
+});
+
+describe('/api/bookings/[id]', () => {
+    it('updates a booking', async () => {
+        vi.mocked(db.getBooking).mockResolvedValue(STAY);
+        vi.mocked(db.updateBooking).mockResolvedValue({ ...STAY, partySize: 3 });
+
+        const res = await callRoute(bookingRoute, { method: 'PUT', query: { id: 'stay' }, body: { partySize: 3 } });
+
+        expect(res.statusCode).toBe(200);
+        expect(db.updateBooking).toHaveBeenCalledWith('stay', { partySize: 3 }, TRUSTED_ACTOR);
+    });
+
+    it('checks a check-out sent alone against the stored check-in', async () => {
+        vi.mocked(db.getBooking).mockResolvedValue(STAY);
+
+        const res = await callRoute(bookingRoute, { method: 'PUT', query: { id: 'stay' }, body: { endsAt: '2025-11-01T10:00' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ fields: { endsAt: 'Check-out must be after the check-in.' } });
+        expect(db.updateBooking).not.toHaveBeenCalled();
+    });
+
+    it('checks a check-in sent alone against the stored check-out', async () => {
+        vi.mocked(db.getBooking).mockResolvedValue(STAY);
+
+        const res = await callRoute(bookingRoute, { method: 'PUT', query: { id: 'stay' }, body: { startsAt: '2025-11-04T15:00' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(db.updateBooking).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 before validating when the booking does not exist', async () => {
+        vi.mocked(db.getBooking).mockResolvedValue(null);
+
+        const res = await callRoute(bookingRoute, { method: 'PUT', query: { id: 'missing' }, body: { partySize: 3 } });
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toEqual({ error: 'Booking not found with ID: missing' });
+        expect(db.updateBooking).not.toHaveBeenCalled();
+    });
+
+    it('is closed to guests', async () => {
+        vi.mocked(getSession).mockReturnValue(null);
+
+        const res = await callRoute(bookingRoute, { method: 'DELETE', query: { id: 'stay' } });
+
+        expect(res.statusCode).toBe(401);
+        expect(db.deleteBooking).not.toHaveBeenCalled();
+    });
+});
+
+describe('/api/bookings/deadlines', () => {
+    it('looks deadlines up from the clock in the trip time zone', async () => {
+        vi.useFakeTimers({ now: new Date('2025-10-30T23:30:00Z') });
+        vi.mocked(db.getUpcomingCancellationDeadlines).mockResolvedValue([STAY]);
+
+        const res = await callRoute(deadlinesRoute, { method: 'GET' });
+        vi.useRealTimers();
+
+        expect(res.statusCode).toBe(200);
+        // 23:30 UTC is 08:30 the next morning in Tokyo
+        expect(db.getUpcomingCancellationDeadlines).toHaveBeenCalledWith('trip-1', new Date('2025-10-31T08:30:00Z'));
+    });
+});
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildBookletDays, getBookletFontProblem } from '../src/services/booklet_service';
+import { makePlace, makeTrip } from './fixtures';
+
+afterEach(() => {
+    delete process.env.PDF_FONT_PATH;
+});
+
+describe('buildBookletDays', () => {
+    it('lists every trip day, with its stops in schedule order', () => {
+        const days = buildBookletDays(makeTrip(), [
+            makePlace('late', { day: 2, startTime: 18 * 60 }),
+            makePlace('early', { day: 2, startTime: 9 * 60 }),
+        ]);
+
+        expect(days.map(day => day.day)).toEqual([1, 2, 3, 4]);
+        expect(days[0].stops).toEqual([]);
+        expect(days[1].stops.map(stop => stop.id)).toEqual(['early', 'late']);
+        expect(days[1].dateLabel).toBe('Wed, Apr 2, 2025');
+    });
+
+    it('extends the booklet for places planned past the end date', () => {
+        const days = buildBookletDays(makeTrip(), [makePlace('a', { day: 6 })]);
+
+        expect(days).toHaveLength(6);
+        expect(days[5].stops.map(stop => stop.id)).toEqual(['a']);
+    });
+});
+
+describe('getBookletFontProblem', () => {
+    it('accepts Latin text with the built-in fonts', () => {
+        const trip = makeTrip({ title: 'Café crawl – “Paris”' });
+
+        expect(getBookletFontProblem(trip, [makePlace('a', { notes: 'Crème brûlée…' })])).toBeNull();
+    });
+
+    it('names PDF_FONT_PATH when the text needs another font', () => {
+        const problem = getBookletFontProblem(makeTrip(), [makePlace('a', { name: '浅草寺' })]);
+
+        expect(problem).toContain('PDF_FONT_PATH');
+    });
+
+    it('reports a configured font that does not exist', () => {
+        process.env.PDF_FONT_PATH = '/nonexistent/NotoSansSC.otf';
+
+        expect(getBookletFontProblem(makeTrip(), [])).toContain('/nonexistent/NotoSansSC.otf');
+    });
+});
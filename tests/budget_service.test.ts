@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { exportBudget, settleExpenses, summarizeBudget } from '../src/services/budget_service';
+import { makeExpense, makePlace, makeRateSnapshot } from './fixtures';
+
+describe('settleExpenses', () => {
+    it('has whoever paid less pay back half the difference', () => {
+        const expenses = [
+            makeExpense('dinner', { payer: 'admin', amount: 80 }),
+            makeExpense('taxi', { payer: 'trusted', amount: 20 }),
+        ];
+
+        expect(settleExpenses(expenses)).toEqual([{ from: 'trusted', to: 'admin', amount: 30, currency: 'JPY' }]);
+    });
+
+    it('settles each currency on its own', () => {
+        const expenses = [
+            makeExpense('hotel', { payer: 'trusted', amount: 100, currency: 'EUR' }),
+            makeExpense('ramen', { payer: 'admin', amount: 3000, currency: 'JPY' }),
+        ];
+
+        expect(settleExpenses(expenses)).toEqual([
+            { from: 'admin', to: 'trusted', amount: 50, currency: 'EUR' },
+            { from: 'trusted', to: 'admin', amount: 1500, currency: 'JPY' },
+        ]);
+    });
+
+    it('leaves out personal expenses and balances below one cent', () => {
+        const expenses = [
+            makeExpense('gift', { payer: 'admin', amount: 500, shared: false }),
+            makeExpense('coffee', { payer: 'admin', amount: 4.005 }),
+            makeExpense('tea', { payer: 'trusted', amount: 4 }),
+        ];
+
+        expect(settleExpenses(expenses)).toEqual([]);
+    });
+});
+
+describe('summarizeBudget', () => {
+    it('totals estimates and expenses per day and keeps undated expenses apart', () => {
+        const places = [
+            makePlace('temple', { day: 1, estimatedCost: 500, currency: 'JPY' }),
+            makePlace('park', { day: 2 }),
+        ];
+        const expenses = [
+            makeExpense('entry', { day: 1, payer: 'trusted', amount: 600 }),
+            makeExpense('flight', { day: null, amount: 400, currency: 'EUR' }),
+        ];
+
+        const summary = summarizeBudget(places, expenses);
+
+        expect(summary.days).toEqual([{ day: 1, estimated: { JPY: 500 }, actual: { JPY: 600 } }]);
+        expect(summary.unassigned).toEqual({ EUR: 400 });
+        expect(summary.actual).toEqual({ JPY: 600, EUR: 400 });
+        expect(summary.paid).toEqual({ admin: { EUR: 400 }, trusted: { JPY: 600 } });
+    });
+});
+
+describe('summarizeBudget with a rate snapshot', () => {
+    it('converts the totals and settles once in the home currency', () => {
+        const expenses = [
+            makeExpense('ramen', { payer: 'admin', amount: 5000 }),
+            makeExpense('museum', { payer: 'trusted', amount: 10, currency: 'EUR' }),
+            makeExpense('souvenir', { payer: 'trusted', amount: 20, currency: 'USD', day: null }),
+        ];
+
+        const { converted } = summarizeBudget([], expenses, makeRateSnapshot());
+
+        expect(converted?.actual).toEqual({ currency: 'EUR', amount: 40, missing: ['USD'], rateSnapshotId: 'rates-1' });
+        expect(converted?.unassigned).toEqual({ currency: 'EUR', amount: 0, missing: ['USD'], rateSnapshotId: 'rates-1' });
+        expect(converted?.settlements).toEqual([{ from: 'trusted', to: 'admin', amount: 10, currency: 'EUR' }]);
+    });
+
+    it('is left out until there is a snapshot', () => {
+        expect(summarizeBudget([], [makeExpense('ramen')]).converted).toBeNull();
+    });
+});
+
+describe('exportBudget', () => {
+    it('lists each expense with its converted amount and blanks totals that miss a rate', () => {
+        const snapshot = makeRateSnapshot();
+        const expenses = [
+            makeExpense('ramen', { amount: 5000 }),
+            makeExpense('souvenir', { amount: 20, currency: 'USD' }),
+        ];
+
+        const lines = exportBudget(expenses, summarizeBudget([], expenses, snapshot), snapshot, 'csv').trim().split(/\r?\n/);
+
+        expect(lines[0]).toBe('kind,day,payer,category,description,shared,amount,currency,convertedAmount,homeCurrency,rateSnapshotId');
+        expect(lines[1]).toBe('expense,1,admin,Other,,yes,5000,JPY,30,EUR,rates-1');
+        expect(lines[2]).toBe('expense,1,admin,Other,,yes,20,USD,,EUR,rates-1');
+        expect(lines).toContain('spent,,,,,,5000 JPY + 20 USD,,,EUR,rates-1');
+    });
+});
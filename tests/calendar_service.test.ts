@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildItineraryCalendar } from '../src/services/calendar_service';
+import { makePlace, makeTrip } from './fixtures';
+
+/** Unfolds continuation lines and splits the feed into its content lines */
+function contentLines(calendar: string): string[] {
+    return calendar.replace(/\r\n /g, '').split('\r\n').filter(line => line !== '');
+}
+
+function property(calendar: string, name: string): string[] {
+    return contentLines(calendar)
+        .filter(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+describe('buildItineraryCalendar', () => {
+    it('wraps the events in a calendar named after the trip', () => {
+        const calendar = buildItineraryCalendar(makeTrip(), [makePlace('a'), makePlace('b')]);
+        const lines = contentLines(calendar);
+
+        expect(lines[0]).toBe('BEGIN:VCALENDAR');
+        expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+        expect(lines).toContain('X-WR-CALNAME:Spring in Tokyo');
+        expect(lines).toContain('X-WR-TIMEZONE:Asia/Tokyo');
+        expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    });
+
+    it('ends every line with CRLF', () => {
+        const calendar = buildItineraryCalendar(makeTrip(), [makePlace('a')]);
+
+        expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    });
+
+    it('derives a stable UID from the place id', () => {
+        const place = makePlace('place-42');
+        const first = buildItineraryCalendar(makeTrip(), [place]);
+        const second = buildItineraryCalendar(makeTrip(), [place]);
+
+        expect(property(first, 'UID')).toEqual(['UID:place-42@date-planner']);
+        expect(first).toBe(second);
+    });
+
+    it('converts a timed place from trip-local time to UTC', () => {
+        const place = makePlace('a', { day: 2, startTime: 9 * 60, durationMinutes: 90 });
+        const calendar = buildItineraryCalendar(makeTrip(), [place]);
+
+        // 09:00 in Tokyo (UTC+9) on 2 April is midnight UTC
+        expect(property(calendar, 'DTSTART')).toEqual(['DTSTART:20250402T000000Z']);
+        expect(property(calendar, 'DURATION')).toEqual(['DURATION:PT90M']);
+    });
+
+    it('gives a timed place without a duration the default length', () => {
+        const place = makePlace('a', { startTime: 9 * 60 });
+        const calendar = buildItineraryCalendar(makeTrip(), [place]);
+
+        expect(property(calendar, 'DURATION')).toEqual(['DURATION:PT60M']);
+    });
+
+    it('uses the right offset on either side of a daylight saving change', () => {
+        // Clocks in New York jump from 02:00 to 03:00 on 9 March 2025
+        const trip = makeTrip({
+            timezone: 'America/New_York',
+            startDate: new Date('2025-03-09T00:00:00Z'),
+            endDate: new Date('2025-03-10T00:00:00Z'),
+        });
+        const calendar = buildItineraryCalendar(trip, [
+            makePlace('before', { startTime: 60 }),
+            makePlace('after', { startTime: 3 * 60 + 30 }),
+        ]);
+
+        expect(property(calendar, 'DTSTART')).toEqual([
+            'DTSTART:20250309T060000Z',
+            'DTSTART:20250309T073000Z',
+        ]);
+    });
+
+    it('makes a place with only a time label an all-day event on its trip day', () => {
+        const place = makePlace('a', { day: 3, timeLabel: 'Evening' });
+        const calendar = buildItineraryCalendar(makeTrip(), [place]);
+
+        expect(property(calendar, 'DTSTART')).toEqual(['DTSTART;VALUE=DATE:20250403']);
+        expect(property(calendar, 'DTEND')).toEqual(['DTEND;VALUE=DATE:20250404']);
+        expect(property(calendar, 'DURATION')).toEqual([]);
+    });
+
+    it('escapes special characters in text values', () => {
+        const place = makePlace('a', {
+            name: 'Cafe; bar, and\\more',
+            notes: 'Bring cash\nNo cards',
+        });
+        const calendar = buildItineraryCalendar(makeTrip(), [place]);
+
+        expect(property(calendar, 'SUMMARY')).toEqual(['SUMMARY:Cafe\\; bar\\, and\\\\more']);
+        expect(property(calendar, 'DESCRIPTION')).toEqual(['DESCRIPTION:Sightseeing\\nBring cash\\nNo cards']);
+    });
+
+    it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+        const name = '浅草寺と仲見世通りを歩いて雷門で写真を撮る'.repeat(3);
+        const calendar = buildItineraryCalendar(makeTrip(), [makePlace('a', { name })]);
+        const physicalLines = calendar.split('\r\n');
+
+        for (const line of physicalLines) {
+            expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+            expect(line).not.toContain('�');
+        }
+        expect(property(calendar, 'SUMMARY')).toEqual([`SUMMARY:${name}`]);
+    });
+});
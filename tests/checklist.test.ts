@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSession } from '../src/utils/session_utils';
+import * as db from '../src/services/prisma_service';
+import checklistRoute from '../src/pages/api/checklist';
+import checklistItemRoute from '../src/pages/api/checklist/[id]';
+import { callRoute, makeSession } from './api_helpers';
+import { makeChecklistItem, makeTrip } from './fixtures';
+
+vi.mock('../src/utils/session_utils', () => ({ getSession: vi.fn() }));
+vi.mock('../src/services/prisma_service', () => ({
+    getTrip: vi.fn(),
+    getDefaultTrip: vi.fn(),
+    getChecklistItems: vi.fn(),
+    createChecklistItem: vi.fn(),
+    updateChecklistItem: vi.fn(),
+    deleteChecklistItem: vi.fn(),
+}));
+
+const ADMIN_ACTOR = { role: 'admin', userId: 'admin-user' };
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getSession).mockReturnValue(makeSession('admin'));
+    vi.mocked(db.getTrip).mockResolvedValue(makeTrip());
+    vi.mocked(db.getDefaultTrip).mockResolvedValue(makeTrip());
+});
+
+describe('/api/checklist', () => {
+    it('lists the items of the default trip', async () => {
+        vi.mocked(db.getChecklistItems).mockResolvedValue([makeChecklistItem('passports')]);
+
+        const res = await callRoute(checklistRoute, { method: 'GET' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual([makeChecklistItem('passports')]);
+        expect(db.getChecklistItems).toHaveBeenCalledWith('trip-1');
+    });
+
+    it('asks for a trip before the first item', async () => {
+        vi.mocked(db.getDefaultTrip).mockResolvedValue(null);
+
+        const res = await callRoute(checklistRoute, { method: 'POST', body: { title: 'Pack' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toEqual({ error: 'No trip found. Create a trip before adding checklist items.' });
+    });
+
+    it('creates an item assigned to one traveller with a due date', async () => {
+        vi.mocked(db.createChecklistItem).mockResolvedValue(makeChecklistItem('train'));
+
+        const res = await callRoute(checklistRoute, {
+            method: 'POST',
+            body: { title: ' Book the train ', assignee: 'trusted', dueDate: '2025-03-20', done: true },
+        });
+
+        expect(res.statusCode).toBe(201);
+        expect(db.createChecklistItem).toHaveBeenCalledWith(
+            { title: 'Book the train', assignee: 'trusted', dueDate: '2025-03-20', done: true, tripId: 'trip-1' },
+            ADMIN_ACTOR,
+        );
+    });
+
+    it('rejects an unknown assignee and an impossible due date', async () => {
+        const res = await callRoute(checklistRoute, { method: 'POST', body: { title: 'Pack', assignee: 'guest', dueDate: '2025-02-30' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({
+            fields: {
+                assignee: 'Assignee must be one of: admin, trusted.',
+                dueDate: 'Due date must be a date (YYYY-MM-DD).',
+            },
+        });
+        expect(db.createChecklistItem).not.toHaveBeenCalled();
+    });
+
+    it('is not shown to guests', async () => {
+        vi.mocked(getSession).mockReturnValue(null);
+
+        const res = await callRoute(checklistRoute, { method: 'GET' });
+
+        expect(res.statusCode).toBe(401);
+    });
+});
+
+describe('/api/checklist/[id]', () => {
+    it('ticks an item off', async () => {
+        vi.mocked(db.updateChecklistItem).mockResolvedValue(makeChecklistItem('passports', { done: true }));
+
+        const res = await callRoute(checklistItemRoute, { method: 'PUT', query: { id: 'passports' }, body: { done: true } });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({ done: true });
+        expect(db.updateChecklistItem).toHaveBeenCalledWith('passports', { done: true }, ADMIN_ACTOR);
+    });
+
+    it('rejects an update without known fields', async () => {
+        const res = await callRoute(checklistItemRoute, { method: 'PUT', query: { id: 'passports' }, body: { id: 'other-item' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(db.updateChecklistItem).not.toHaveBeenCalled();
+    });
+
+    it('names the item in a 404', async () => {
+        vi.mocked(db.deleteChecklistItem).mockRejectedValue(Object.assign(new Error('Record not found'), { code: 'P2025' }));
+
+        const res = await callRoute(checklistItemRoute, { method: 'DELETE', query: { id: 'missing' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toEqual({ error: 'Checklist item not found with ID: missing' });
+    });
+
+    it('answers 500 for unexpected errors', async () => {
+        vi.mocked(db.deleteChecklistItem).mockRejectedValue(new Error('Connection lost'));
+
+        const res = await callRoute(checklistItemRoute, { method: 'DELETE', query: { id: 'passports' } });
+
+        expect(res.statusCode).toBe(500);
+        expect(res.body).toEqual({ error: 'Failed to process checklist request due to a server error.' });
+    });
+});
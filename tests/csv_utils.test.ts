@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, toCsv } from '../src/utils/csv_utils';
+
+describe('toCsv', () => {
+    it('writes a header line and CRLF-terminated rows', () => {
+        expect(toCsv(['name', 'day'], [{ name: 'Louvre', day: 1 }])).toBe('name,day\r\nLouvre,1\r\n');
+    });
+
+    it('quotes cells with delimiters, quotes and line breaks', () => {
+        const csv = toCsv(['notes'], [{ notes: 'Say "bonjour", then\nbuy tickets' }]);
+
+        expect(csv).toBe('notes\r\n"Say ""bonjour"", then\nbuy tickets"\r\n');
+    });
+
+    it('leaves missing values empty', () => {
+        expect(toCsv(['a', 'b', 'c'], [{ a: null, b: undefined }])).toBe('a,b,c\r\n,,\r\n');
+    });
+
+    it.each(['=HYPERLINK("http://evil")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd'])('escapes formula-like text %j', value => {
+        const [, row] = parseCsv(toCsv(['notes'], [{ notes: value }]));
+
+        expect(row[0]).toBe(`'${value}`);
+    });
+
+    it('writes negative numbers as numbers', () => {
+        expect(toCsv(['longitude'], [{ longitude: -73.98 }])).toBe('longitude\r\n-73.98\r\n');
+    });
+});
+
+describe('parseCsv', () => {
+    it('reads quoted cells with embedded commas, quotes and line breaks', () => {
+        expect(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\r\n')).toEqual([
+            ['a', 'b'],
+            ['x, y', 'say "hi"\nagain'],
+        ]);
+    });
+
+    it('ignores a byte order mark, blank lines and a missing final newline', () => {
+        expect(parseCsv('﻿a,b\n\n1,2\n,\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+});
+
+describe('parseCsvRecords', () => {
+    it('keys cells by their trimmed header and fills short rows', () => {
+        expect(parseCsvRecords(' name ,day\nLouvre\n')).toEqual([{ name: 'Louvre', day: '' }]);
+    });
+
+    it('returns no records for empty text', () => {
+        expect(parseCsvRecords('')).toEqual([]);
+    });
+
+    it('round-trips escaped formula text unchanged', () => {
+        const rows = [{ notes: '=1+1' }, { notes: "'quoted already" }, { notes: '-5 degrees' }];
+
+        expect(parseCsvRecords(toCsv(['notes'], rows))).toEqual(rows);
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { convertAmount, convertTotals, getRate, RateTable } from '../src/utils/currency_utils';
+
+const TABLE: RateTable = { homeCurrency: 'CNY', rates: { EUR: 7.8, JPY: 0.048, USD: 0 } };
+
+describe('getRate', () => {
+    it('converts the home currency at 1 and ignores unusable rates', () => {
+        expect(getRate(TABLE, 'CNY')).toBe(1);
+        expect(getRate(TABLE, 'EUR')).toBe(7.8);
+        expect(getRate(TABLE, 'USD')).toBeNull();
+        expect(getRate(TABLE, 'GBP')).toBeNull();
+    });
+});
+
+describe('convertAmount', () => {
+    it('rounds to cents', () => {
+        expect(convertAmount(1234, 'JPY', TABLE)).toBe(59.23);
+        expect(convertAmount(10, 'GBP', TABLE)).toBeNull();
+    });
+});
+
+describe('convertTotals', () => {
+    it('sums what it can convert and lists the rest as missing', () => {
+        expect(convertTotals({ EUR: 10, CNY: 5, USD: 3, GBP: 1 }, TABLE, 'rates-1')).toEqual({
+            currency: 'CNY',
+            amount: 83,
+            missing: ['GBP', 'USD'],
+            rateSnapshotId: 'rates-1',
+        });
+    });
+});
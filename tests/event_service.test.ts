@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createInProcessBroker, EventBroker, getEventBroker, LiveEvent, publishChange, setEventBroker } from '../src/services/event_service';
+
+const originalBroker = getEventBroker();
+
+afterEach(() => {
+    setEventBroker(originalBroker);
+    vi.restoreAllMocks();
+});
+
+describe('createInProcessBroker', () => {
+    it('delivers events to subscribers until they unsubscribe', () => {
+        const broker = createInProcessBroker();
+        const received: LiveEvent[] = [];
+        const unsubscribe = broker.subscribe(event => received.push(event));
+        const event: LiveEvent = { entityType: 'TripPlace', action: 'create', tripId: 'trip-1', entityIds: ['a'], at: '2025-01-01T00:00:00.000Z' };
+
+        broker.publish(event);
+        unsubscribe();
+        broker.publish(event);
+
+        expect(received).toEqual([event]);
+    });
+
+    it('keeps delivering when one listener throws', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const broker = createInProcessBroker();
+        const listener = vi.fn();
+        broker.subscribe(() => { throw new Error('closed stream'); });
+        broker.subscribe(listener);
+
+        broker.publish({ entityType: 'Suggestion', action: 'status', tripId: 'trip-1', entityIds: ['s'], at: '' });
+
+        expect(listener).toHaveBeenCalledOnce();
+    });
+});
+
+describe('publishChange', () => {
+    it('publishes one event naming every changed record of the trip', () => {
+        const broker = createInProcessBroker();
+        const listener = vi.fn();
+        broker.subscribe(listener);
+        setEventBroker(broker);
+
+        publishChange('TripPlace', 'update', [{ id: 'a', tripId: 'trip-1' }, { id: 'b', tripId: 'trip-1' }]);
+
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+            entityType: 'TripPlace',
+            action: 'update',
+            tripId: 'trip-1',
+            entityIds: ['a', 'b'],
+        }));
+    });
+
+    it('publishes nothing for an empty change and survives a failing broker', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failing: EventBroker = {
+            publish: vi.fn(() => { throw new Error('broker down'); }),
+            subscribe: () => () => {},
+        };
+        setEventBroker(failing);
+
+        publishChange('TripPlace', 'create', []);
+        expect(failing.publish).not.toHaveBeenCalled();
+
+        expect(() => publishChange('TripPlace', 'create', [{ id: 'a', tripId: 'trip-1' }])).not.toThrow();
+    });
+});
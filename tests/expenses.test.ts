@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSession } from '../src/utils/session_utils';
+import * as db from '../src/services/prisma_service';
+import expensesRoute from '../src/pages/api/expenses';
+import expenseRoute from '../src/pages/api/expenses/[id]';
+import summaryRoute from '../src/pages/api/expenses/summary';
+import { callRoute, makeSession } from './api_helpers';
+import { makeExpense, makePlace, makeRateSnapshot, makeTrip } from './fixtures';
+
+vi.mock('../src/utils/session_utils', () => ({ getSession: vi.fn() }));
+vi.mock('../src/services/prisma_service', () => ({
+    getTrip: vi.fn(),
+    getDefaultTrip: vi.fn(),
+    getTripPlaces: vi.fn(),
+    getCurrentRateSnapshot: vi.fn(),
+    getRateSnapshot: vi.fn(),
+    getExpenses: vi.fn(),
+    createExpense: vi.fn(),
+    updateExpense: vi.fn(),
+    deleteExpense: vi.fn(),
+}));
+
+const TRUSTED_ACTOR = { role: 'trusted', userId: 'trusted-user' };
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getSession).mockReturnValue(makeSession('trusted'));
+    vi.mocked(db.getTrip).mockResolvedValue(makeTrip());
+    vi.mocked(db.getDefaultTrip).mockResolvedValue(makeTrip());
+});
+
+describe('/api/expenses', () => {
+    it('lists the expenses of the trip given by ?tripId=', async () => {
+        vi.mocked(db.getExpenses).mockResolvedValue([makeExpense('expense-1')]);
+
+        const res = await callRoute(expensesRoute, { method: 'GET', query: { tripId: 'trip-1' } });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual([makeExpense('expense-1')]);
+        expect(db.getExpenses).toHaveBeenCalledWith('trip-1');
+    });
+
+    it('answers 404 for an unknown trip', async () => {
+        vi.mocked(db.getTrip).mockResolvedValue(null);
+
+        const res = await callRoute(expensesRoute, { method: 'GET', query: { tripId: 'missing' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(db.getExpenses).not.toHaveBeenCalled();
+    });
+
+    it('is private to the two travellers', async () => {
+        vi.mocked(getSession).mockReturnValue(null);
+
+        const res = await callRoute(expensesRoute, { method: 'GET' });
+
+        expect(res.statusCode).toBe(401);
+        expect(db.getExpenses).not.toHaveBeenCalled();
+    });
+
+    it('records an expense in the requested trip with an upper-case currency', async () => {
+        vi.mocked(db.createExpense).mockResolvedValue(makeExpense('expense-1'));
+
+        const res = await callRoute(expensesRoute, {
+            method: 'POST',
+            query: { tripId: 'trip-1' },
+            body: { payer: 'admin', amount: 12.5, currency: 'jpy', tripId: 'other-trip', id: 'forged' },
+        });
+
+        expect(res.statusCode).toBe(201);
+        expect(db.createExpense).toHaveBeenCalledWith({ payer: 'admin', amount: 12.5, currency: 'JPY', tripId: 'trip-1' }, TRUSTED_ACTOR);
+    });
+
+    it('rejects an unknown payer, a zero amount and a missing currency', async () => {
+        const res = await callRoute(expensesRoute, { method: 'POST', body: { payer: 'someone', amount: 0 } });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({
+            fields: {
+                payer: 'Payer must be one of: admin, trusted.',
+                amount: expect.any(String),
+                currency: expect.any(String),
+            },
+        });
+        expect(db.createExpense).not.toHaveBeenCalled();
+    });
+
+    it('rejects a place from another trip', async () => {
+        vi.mocked(db.createExpense).mockResolvedValue(null);
+
+        const res = await callRoute(expensesRoute, {
+            method: 'POST',
+            body: { payer: 'trusted', amount: 3, currency: 'EUR', placeId: 'place-elsewhere' },
+        });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ fields: { placeId: 'The linked place is not part of this trip.' } });
+    });
+
+    it('answers 404 when the trip is deleted while recording', async () => {
+        vi.mocked(db.createExpense).mockRejectedValue(Object.assign(new Error('Foreign key constraint failed'), { code: 'P2003' }));
+
+        const res = await callRoute(expensesRoute, { method: 'POST', body: { payer: 'admin', amount: 5, currency: 'JPY' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toEqual({ error: 'Trip not found for the requested expenses.' });
+    });
+});
+
+describe('/api/expenses/[id]', () => {
+    it('passes on only the fields that were sent', async () => {
+        vi.mocked(db.updateExpense).mockResolvedValue(makeExpense('expense-1', { amount: 20, shared: false }));
+
+        const res = await callRoute(expenseRoute, { method: 'PUT', query: { id: 'expense-1' }, body: { amount: 20, shared: false, tripId: 'other-trip' } });
+
+        expect(res.statusCode).toBe(200);
+        expect(db.updateExpense).toHaveBeenCalledWith('expense-1', { amount: 20, shared: false }, TRUSTED_ACTOR);
+    });
+
+    it('rejects an update without any known field', async () => {
+        const res = await callRoute(expenseRoute, { method: 'PUT', query: { id: 'expense-1' }, body: { tripId: 'other-trip' } });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ fields: { body: 'Provide at least one field to update.' } });
+        expect(db.updateExpense).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 when the expense does not exist', async () => {
+        vi.mocked(db.deleteExpense).mockRejectedValue(Object.assign(new Error('Record not found'), { code: 'P2025' }));
+
+        const res = await callRoute(expenseRoute, { method: 'DELETE', query: { id: 'missing' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toEqual({ error: 'Expense not found with ID: missing' });
+    });
+});
+
+describe('/api/expenses/summary', () => {
+    it('totals the trip and settles the shared expenses', async () => {
+        vi.mocked(db.getTripPlaces).mockResolvedValue([makePlace('museum', { estimatedCost: 2000, currency: 'JPY' })]);
+        vi.mocked(db.getExpenses).mockResolvedValue([makeExpense('tickets', { amount: 3000 })]);
+
+        const res = await callRoute(summaryRoute, { method: 'GET' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({
+            estimated: { JPY: 2000 },
+            actual: { JPY: 3000 },
+            settlements: [{ from: 'trusted', to: 'admin', amount: 1500, currency: 'JPY' }],
+            converted: null,
+        });
+    });
+
+    it('converts with an earlier rate snapshot when one is asked for', async () => {
+        vi.mocked(db.getRateSnapshot).mockResolvedValue(makeRateSnapshot({ id: 'rates-old' }));
+        vi.mocked(db.getTripPlaces).mockResolvedValue([]);
+        vi.mocked(db.getExpenses).mockResolvedValue([makeExpense('tickets', { amount: 3000 })]);
+
+        const res = await callRoute(summaryRoute, { method: 'GET', query: { rateSnapshotId: 'rates-old' } });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({ converted: { rateSnapshotId: 'rates-old', actual: { currency: 'EUR', amount: 18 } } });
+        expect(db.getRateSnapshot).toHaveBeenCalledWith('trip-1', 'rates-old');
+        expect(db.getCurrentRateSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 for a rate snapshot of another trip', async () => {
+        vi.mocked(db.getRateSnapshot).mockResolvedValue(null);
+
+        const res = await callRoute(summaryRoute, { method: 'GET', query: { rateSnapshotId: 'elsewhere' } });
+
+        expect(res.statusCode).toBe(404);
+        expect(db.getExpenses).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,110 @@
+import { Booking, ChecklistItem, Expense, RateSnapshot, Trip, TripPlace } from '../app/generated/prisma';
+
+// Records as Prisma returns them, for services that take rows rather than IDs
+
+const CREATED_AT = new Date('2025-01-01T00:00:00Z');
+
+export function makeTrip(fields: Partial<Trip> = {}): Trip {
+    return {
+        id: 'trip-1',
+        title: 'Spring in Tokyo',
+        tagline: null,
+        startDate: new Date('2025-04-01T00:00:00Z'),
+        endDate: new Date('2025-04-04T00:00:00Z'),
+        timezone: 'Asia/Tokyo',
+        coverImage: null,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...fields,
+    };
+}
+
+export function makePlace(id: string, fields: Partial<TripPlace> = {}): TripPlace {
+    return {
+        id,
+        tripId: 'trip-1',
+        day: 1,
+        startTime: null,
+        durationMinutes: null,
+        timeLabel: null,
+        name: id,
+        purpose: 'Sightseeing',
+        notes: null,
+        latitude: 35,
+        longitude: 139,
+        estimatedCost: null,
+        currency: null,
+        sourceSuggestionId: null,
+        deletedAt: null,
+        position: 0,
+        version: 1,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...fields,
+    };
+}
+
+export function makeExpense(id: string, fields: Partial<Expense> = {}): Expense {
+    return {
+        id,
+        tripId: 'trip-1',
+        placeId: null,
+        day: 1,
+        payer: 'admin',
+        amount: 10,
+        currency: 'JPY',
+        category: 'Other',
+        description: null,
+        shared: true,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...fields,
+    };
+}
+
+export function makeRateSnapshot(fields: Partial<RateSnapshot> = {}): RateSnapshot {
+    return {
+        id: 'rates-1',
+        tripId: 'trip-1',
+        homeCurrency: 'EUR',
+        rates: { JPY: 0.006 },
+        createdAt: CREATED_AT,
+        ...fields,
+    };
+}
+
+export function makeChecklistItem(id: string, fields: Partial<ChecklistItem> = {}): ChecklistItem {
+    return {
+        id,
+        tripId: 'trip-1',
+        placeId: null,
+        title: id,
+        notes: null,
+        category: 'Other',
+        assignee: null,
+        dueDate: null,
+        done: false,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...fields,
+    };
+}
+
+export function makeBooking(id: string, fields: Partial<Booking> = {}): Booking {
+    return {
+        id,
+        tripId: 'trip-1',
+        placeId: 'hotel',
+        provider: 'Hotel Gracery',
+        confirmationCode: null,
+        startsAt: null,
+        endsAt: null,
+        partySize: null,
+        contactPhone: null,
+        cancellationDeadline: null,
+        notes: null,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...fields,
+    };
+}
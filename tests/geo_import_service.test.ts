@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeoFile } from '../src/services/geo_import_service';
+
+describe('parseGeoFile', () => {
+    it('reads GPX waypoints with their descriptions', () => {
+        const gpx = `<?xml version="1.0"?>
+            <gpx xmlns="http://www.topografix.com/GPX/1/1">
+                <wpt lat="48.8606" lon="2.3376"><name>Louvre</name><desc>Closed &lt;b&gt;Tuesdays&lt;/b&gt;</desc></wpt>
+                <wpt lat="48.8584" lon="2.2945"><cmt>Book the summit</cmt></wpt>
+            </gpx>`;
+
+        expect(parseGeoFile(gpx, 'gpx')).toEqual({
+            drafts: [
+                { name: 'Louvre', latitude: 48.8606, longitude: 2.3376, notes: 'Closed Tuesdays' },
+                { name: 'Waypoint 2', latitude: 48.8584, longitude: 2.2945, notes: 'Book the summit' },
+            ],
+            skipped: 0,
+        });
+    });
+
+    it('reads KML points as longitude,latitude and ignores other geometry', () => {
+        const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+            <Placemark><name>Shibuya</name><Point><coordinates>139.7016,35.6580,0</coordinates></Point></Placemark>
+            <Placemark><name>Walk</name><LineString><coordinates>139.7,35.6 139.8,35.7</coordinates></LineString></Placemark>
+        </Document></kml>`;
+
+        expect(parseGeoFile(kml, 'kml').drafts).toEqual([
+            { name: 'Shibuya', latitude: 35.658, longitude: 139.7016, notes: null },
+        ]);
+    });
+
+    it('reads GeoJSON point features and skips unusable coordinates', () => {
+        const geojson = JSON.stringify({
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [-73.9857, 40.7484] }, properties: { title: 'Empire State' } },
+                { type: 'Feature', geometry: { type: 'Point', coordinates: ['x', 40] }, properties: {} },
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [10, 95] }, properties: {} },
+                { type: 'Feature', geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } },
+            ],
+        });
+
+        expect(parseGeoFile(geojson, 'geojson')).toEqual({
+            drafts: [{ name: 'Empire State', latitude: 40.7484, longitude: -73.9857, notes: null }],
+            skipped: 2,
+        });
+    });
+
+    it('throws a readable error for a malformed file', () => {
+        expect(() => parseGeoFile('{', 'geojson')).toThrow('The file is not valid GeoJSON.');
+    });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { checkDaySchedule, getConfiguredTravelSpeeds, haversineDistanceKm, isCompleteDayOrder, planReorder } from '../src/services/schedule_service';
+import { makePlace } from './fixtures';
+
+// One degree of latitude is about 111.2 km anywhere on the globe
+const KM_PER_DEGREE_LATITUDE = 111.19;
+
+afterEach(() => {
+    delete process.env.TRAVEL_SPEEDS_KMH;
+});
+
+describe('haversineDistanceKm', () => {
+    it('measures one degree of latitude as about 111 km', () => {
+        const distance = haversineDistanceKm({ latitude: 35, longitude: 139 }, { latitude: 36, longitude: 139 });
+
+        expect(distance).toBeCloseTo(KM_PER_DEGREE_LATITUDE, 0);
+    });
+
+    it('is zero for the same point', () => {
+        expect(haversineDistanceKm({ latitude: 35, longitude: 139 }, { latitude: 35, longitude: 139 })).toBe(0);
+    });
+});
+
+describe('getConfiguredTravelSpeeds', () => {
+    it('overrides known modes from TRAVEL_SPEEDS_KMH and ignores the rest', () => {
+        process.env.TRAVEL_SPEEDS_KMH = 'walk=5, drive=-10, boat=30, transit=abc';
+
+        expect(getConfiguredTravelSpeeds()).toEqual({ walk: 5, transit: 25, drive: 40 });
+    });
+});
+
+describe('checkDaySchedule', () => {
+    it('reports every stop a long stop overlaps, once per pair', () => {
+        const warnings = checkDaySchedule([
+            makePlace('museum', { startTime: 9 * 60, durationMinutes: 180 }),
+            makePlace('cafe', { startTime: 10 * 60, durationMinutes: 30 }),
+            makePlace('garden', { startTime: 11 * 60, durationMinutes: 30 }),
+        ]);
+
+        expect(warnings.filter(warning => warning.type === 'overlap').map(warning => warning.placeIds)).toEqual([
+            ['museum', 'cafe'],
+            ['museum', 'garden'],
+        ]);
+        expect(warnings[0].message).toContain('until 12:00');
+    });
+
+    it('sorts by start time and skips places without one', () => {
+        const warnings = checkDaySchedule([
+            makePlace('late', { startTime: 10 * 60 }),
+            makePlace('untimed', { timeLabel: 'Evening' }),
+            makePlace('early', { startTime: 9 * 60, durationMinutes: 90 }),
+        ]);
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toMatchObject({ type: 'overlap', placeIds: ['early', 'late'] });
+    });
+
+    it('treats a stop without a duration as ending when it starts', () => {
+        const warnings = checkDaySchedule([
+            makePlace('a', { startTime: 9 * 60 }),
+            makePlace('b', { startTime: 9 * 60 }),
+        ]);
+
+        expect(warnings).toEqual([]);
+    });
+
+    it('flags a transfer that is too short for the distance, without also calling it an overlap', () => {
+        const warnings = checkDaySchedule([
+            makePlace('here', { startTime: 9 * 60, durationMinutes: 60 }),
+            makePlace('there', { startTime: 10 * 60 + 30, latitude: 36 }),
+        ], { mode: 'transit' });
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toMatchObject({
+            type: 'infeasible_transfer',
+            placeIds: ['here', 'there'],
+            distanceKm: 111.2,
+            requiredMinutes: 267,
+            availableMinutes: 30,
+        });
+    });
+
+    it('depends on the travel mode and speed overrides', () => {
+        const places = [
+            makePlace('here', { startTime: 9 * 60, durationMinutes: 30 }),
+            makePlace('there', { startTime: 10 * 60, latitude: 35.1 }),
+        ];
+
+        // 11.1 km: about 27 min by car, about 2.5 h on foot
+        expect(checkDaySchedule(places, { mode: 'drive' })).toEqual([]);
+        expect(checkDaySchedule(places, { mode: 'walk' })).toHaveLength(1);
+        expect(checkDaySchedule(places, { mode: 'walk', speedsKmh: { walk: 30 } })).toEqual([]);
+    });
+
+    it('uses transit when no mode is given', () => {
+        process.env.TRAVEL_SPEEDS_KMH = 'transit=1000';
+        const places = [
+            makePlace('here', { startTime: 9 * 60 }),
+            makePlace('there', { startTime: 9 * 60 + 10, latitude: 36 }),
+        ];
+
+        expect(checkDaySchedule(places)).toEqual([]);
+    });
+});
+
+describe('isCompleteDayOrder', () => {
+    it('accepts the day in any order', () => {
+        expect(isCompleteDayOrder(['a', 'b', 'c'], ['c', 'a', 'b'])).toBe(true);
+    });
+
+    it('accepts the moved place from another day', () => {
+        expect(isCompleteDayOrder(['a', 'b'], ['a', 'moved', 'b'], 'moved')).toBe(true);
+    });
+
+    it('refuses an order that leaves out one of the day\'s places', () => {
+        expect(isCompleteDayOrder(['a', 'b', 'c'], ['a', 'b'])).toBe(false);
+    });
+
+    it('refuses places from other days that were not moved', () => {
+        expect(isCompleteDayOrder(['a', 'b'], ['a', 'other', 'b'])).toBe(false);
+        expect(isCompleteDayOrder(['a', 'b'], ['a', 'moved', 'other', 'b'], 'moved')).toBe(false);
+    });
+});
+
+describe('planReorder', () => {
+    const morning = makePlace('morning', { day: 2, startTime: 9 * 60, durationMinutes: 60 });
+    const lunch = makePlace('lunch', { day: 2, startTime: 11 * 60, durationMinutes: 30 });
+
+    it('gives every place the day and its index as position', () => {
+        const untimed = makePlace('untimed', { day: 1, timeLabel: 'Evening' });
+
+        expect(planReorder(2, [untimed, morning, lunch])).toEqual([
+            { id: 'untimed', day: 2, position: 0, startTime: null },
+            { id: 'morning', day: 2, position: 1, startTime: 540 },
+            { id: 'lunch', day: 2, position: 2, startTime: 660 },
+        ]);
+    });
+
+    it('keeps the moved place\'s time when it already fits between its neighbours', () => {
+        const moved = makePlace('moved', { startTime: 10 * 60 + 30 });
+
+        expect(planReorder(2, [morning, moved, lunch], { movedPlaceId: 'moved' })[1].startTime).toBe(630);
+    });
+
+    it('fits an out-of-order moved place in after the previous stop ends', () => {
+        const moved = makePlace('moved', { startTime: 15 * 60, durationMinutes: 45 });
+        const moves = planReorder(2, [morning, moved, lunch], { movedPlaceId: 'moved' });
+
+        expect(moves.map(move => move.startTime)).toEqual([540, 600, 660]);
+    });
+
+    it('with shiftStartTimes takes over the next stop\'s start and pushes later stops back', () => {
+        const moved = makePlace('moved', { startTime: 15 * 60, durationMinutes: 45 });
+        const moves = planReorder(2, [morning, moved, lunch], { movedPlaceId: 'moved', shiftStartTimes: true });
+
+        expect(moves.map(move => move.startTime)).toEqual([540, 660, 705]);
+    });
+
+    it('with shiftStartTimes starts a place dropped last when the previous stop ends', () => {
+        const moved = makePlace('moved', { startTime: 8 * 60 });
+        const moves = planReorder(2, [morning, lunch, moved], { movedPlaceId: 'moved', shiftStartTimes: true });
+
+        expect(moves[2].startTime).toBe(11 * 60 + 30);
+    });
+
+    it('never pushes a stop past the end of the day', () => {
+        const late = makePlace('late', { startTime: 23 * 60 + 50 });
+        const moved = makePlace('moved', { startTime: 8 * 60, durationMinutes: 60 });
+        const moves = planReorder(2, [moved, late], { movedPlaceId: 'moved', shiftStartTimes: true });
+
+        expect(moves.map(move => move.startTime)).toEqual([23 * 60 + 50, 23 * 60 + 59]);
+    });
+
+    it('leaves an untimed moved place untimed', () => {
+        const moved = makePlace('moved', { timeLabel: 'Afternoon' });
+        const moves = planReorder(2, [morning, moved, lunch], { movedPlaceId: 'moved', shiftStartTimes: true });
+
+        expect(moves.map(move => move.startTime)).toEqual([540, null, 660]);
+    });
+});
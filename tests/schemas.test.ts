@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import {
+    checkTripDay,
+    MAX_REORDER_PLACES,
+    validateBookingInput,
+    validateBookingUpdate,
+    validateExpenseInput,
+    validateExpenseUpdate,
+    validateLoginInput,
+    validateRateTableInput,
+    validateReorderInput,
+    validateSuggestionCommentInput,
+    validateSuggestionReviewInput,
+    validateTripInput,
+    validateTripPlaceInput,
+    validateTripPlaceUpdate,
+    validateTripUpdate,
+    validationError,
+} from '../src/utils/schemas';
+
+const PLACE = { day: 1, startTime: 9 * 60, name: 'Temple', purpose: 'Sightseeing', latitude: 35, longitude: 139 };
+
+describe('validateTripInput', () => {
+    it('accepts a trip and trims its text', () => {
+        const result = validateTripInput({ title: '  Tokyo  ', startDate: '2025-04-01', endDate: '2025-04-05', timezone: 'Asia/Tokyo' });
+
+        expect(result).toEqual({ ok: true, data: { title: 'Tokyo', startDate: '2025-04-01', endDate: '2025-04-05', timezone: 'Asia/Tokyo' } });
+    });
+
+    it('rejects impossible dates, unknown time zones and missing titles', () => {
+        const result = validateTripInput({ startDate: '2025-02-30', endDate: '2025-03-01', timezone: 'Mars/Olympus' });
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && Object.keys(result.fields).sort()).toEqual(['startDate', 'timezone', 'title']);
+    });
+
+    it('rejects a trip that ends before it starts', () => {
+        const result = validateTripInput({ title: 'Back to front', startDate: '2025-04-05', endDate: '2025-04-01' });
+
+        expect(result).toEqual({ ok: false, fields: { endDate: 'End date must not be before the start date.' } });
+    });
+});
+
+describe('validateTripUpdate', () => {
+    const current = { startDate: '2025-04-01', endDate: '2025-04-05' };
+
+    it('checks a single moved date against the stored other one', () => {
+        expect(validateTripUpdate({ endDate: '2025-03-30' }, current).ok).toBe(false);
+        expect(validateTripUpdate({ endDate: '2025-04-10' }, current).ok).toBe(true);
+    });
+
+    it('needs at least one known field', () => {
+        expect(validateTripUpdate({ id: 'trip-2' }, current)).toEqual({ ok: false, fields: { body: 'Provide at least one field to update.' } });
+    });
+
+    it('turns a cleared time zone into null', () => {
+        expect(validateTripUpdate({ timezone: '' }, current)).toEqual({ ok: true, data: { timezone: null } });
+    });
+});
+
+describe('validateTripPlaceInput', () => {
+    it('drops fields that are not in the schema', () => {
+        const result = validateTripPlaceInput({ ...PLACE, id: 'place-1', tripId: 'other-trip', createdAt: '2020-01-01' });
+
+        expect(result).toEqual({ ok: true, data: PLACE });
+    });
+
+    it('needs a start time or a time label', () => {
+        const { startTime: _startTime, ...untimed } = PLACE;
+
+        expect(validateTripPlaceInput(untimed)).toEqual({ ok: false, fields: { startTime: 'Provide a start time or a time label.' } });
+        expect(validateTripPlaceInput({ ...untimed, timeLabel: 'Evening' }).ok).toBe(true);
+    });
+
+    it('checks types and ranges per field', () => {
+        const result = validateTripPlaceInput({ ...PLACE, day: 1.5, latitude: 91, startTime: 24 * 60, purpose: 42 });
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.fields).toEqual({
+            day: 'Day must be a whole number.',
+            startTime: 'Start time must be between 0 and 1439.',
+            purpose: 'Purpose must be text.',
+            latitude: 'Latitude must be between -90 and 90.',
+        });
+    });
+
+    it('lets the name be left out only when asked to', () => {
+        const { name: _name, ...unnamed } = PLACE;
+
+        expect(validateTripPlaceInput(unnamed).ok).toBe(false);
+        expect(validateTripPlaceInput(unnamed, { nameOptional: true }).ok).toBe(true);
+    });
+
+    it('needs a currency for an estimated cost and upper-cases it', () => {
+        expect(validateTripPlaceInput({ ...PLACE, estimatedCost: 1200 })).toEqual({ ok: false, fields: { currency: 'Provide a currency for the estimated cost.' } });
+        expect(validateTripPlaceInput({ ...PLACE, estimatedCost: 1200, currency: 'jpy' })).toEqual({ ok: true, data: { ...PLACE, estimatedCost: 1200, currency: 'JPY' } });
+        expect(validateTripPlaceInput({ ...PLACE, currency: 'yens' })).toEqual({ ok: false, fields: { currency: 'Currency must be a 3-letter code such as CNY.' } });
+    });
+});
+
+describe('validateTripPlaceUpdate', () => {
+    it('accepts a partial change', () => {
+        expect(validateTripPlaceUpdate({ notes: 'Bring cash' })).toEqual({ ok: true, data: { notes: 'Bring cash' } });
+    });
+
+    it('checks the stored place merged with the change', () => {
+        const stored = { ...PLACE, timeLabel: null };
+
+        expect(validateTripPlaceUpdate({ startTime: null }, stored)).toEqual({ ok: false, fields: { startTime: 'Provide a start time or a time label.' } });
+        expect(validateTripPlaceUpdate({ startTime: null, timeLabel: 'Evening' }, stored).ok).toBe(true);
+    });
+
+    it('keeps the currency of a stored cost', () => {
+        const stored = { ...PLACE, estimatedCost: 1200, currency: 'JPY' };
+
+        expect(validateTripPlaceUpdate({ currency: null }, stored)).toEqual({ ok: false, fields: { currency: 'Provide a currency for the estimated cost.' } });
+        expect(validateTripPlaceUpdate({ estimatedCost: null, currency: null }, stored).ok).toBe(true);
+    });
+});
+
+describe('validateExpenseInput', () => {
+    it('accepts an expense and leaves defaults to the database', () => {
+        const result = validateExpenseInput({ payer: 'trusted', amount: 12.5, currency: 'eur', description: ' Metro ' });
+
+        expect(result).toEqual({ ok: true, data: { payer: 'trusted', amount: 12.5, currency: 'EUR', description: 'Metro' } });
+    });
+
+    it('checks the payer, category and shared flag', () => {
+        const result = validateExpenseInput({ payer: 'guest', amount: 5, currency: 'EUR', category: 'Gifts', shared: 'yes' });
+
+        expect(!result.ok && result.fields).toEqual({
+            payer: 'Payer must be one of: admin, trusted.',
+            category: 'Category must be one of: Food, Transport, Lodging, Activities, Shopping, Other.',
+            shared: 'Shared must be true or false.',
+        });
+    });
+});
+
+describe('validateExpenseUpdate', () => {
+    it('needs at least one known field', () => {
+        expect(validateExpenseUpdate({ shared: false })).toEqual({ ok: true, data: { shared: false } });
+        expect(validateExpenseUpdate({ tripId: 'other-trip' })).toEqual({ ok: false, fields: { body: 'Provide at least one field to update.' } });
+    });
+});
+
+describe('checkTripDay', () => {
+    const trip = { startDate: new Date('2025-04-01T00:00:00Z'), endDate: new Date('2025-04-03T00:00:00Z') };
+
+    it('accepts days inside the trip and a day that was not sent', () => {
+        expect(checkTripDay(3, trip)).toBeNull();
+        expect(checkTripDay(undefined, trip)).toBeNull();
+    });
+
+    it('rejects days after the trip ends, also for the ISO strings the client holds', () => {
+        expect(checkTripDay(4, trip)).toEqual({ day: 'Day must be between 1 and 3, the length of this trip.' });
+        expect(checkTripDay(4, { startDate: '2025-04-01T00:00:00.000Z', endDate: '2025-04-03T00:00:00.000Z' })).not.toBeNull();
+    });
+});
+
+describe('validateReorderInput', () => {
+    it('accepts a day order and defaults shiftStartTimes to false', () => {
+        expect(validateReorderInput({ day: 2, placeIds: ['a', 'b'], movedPlaceId: 'b' })).toEqual({
+            ok: true,
+            data: { day: 2, placeIds: ['a', 'b'], movedPlaceId: 'b', shiftStartTimes: false },
+        });
+    });
+
+    it('rejects an empty, repeating or oversized list', () => {
+        expect(validateReorderInput({ day: 1, placeIds: [] }).ok).toBe(false);
+        expect(validateReorderInput({ day: 1, placeIds: ['a', 'a'] })).toMatchObject({ fields: { placeIds: 'Place IDs must not repeat.' } });
+
+        const tooMany = Array.from({ length: MAX_REORDER_PLACES + 1 }, (_, i) => `place-${i}`);
+        expect(validateReorderInput({ day: 1, placeIds: tooMany }).ok).toBe(false);
+    });
+
+    it('needs the moved place to be in the list', () => {
+        expect(validateReorderInput({ day: 1, placeIds: ['a'], movedPlaceId: 'b' })).toMatchObject({
+            fields: { movedPlaceId: 'The moved place must be one of the reordered places.' },
+        });
+    });
+
+    it('checks the day and the shift flag', () => {
+        expect(validateReorderInput({ day: 0, placeIds: ['a'], shiftStartTimes: 'yes' })).toMatchObject({
+            ok: false,
+            fields: { day: expect.any(String), shiftStartTimes: 'Shift start times must be true or false.' },
+        });
+    });
+});
+
+describe('validateSuggestionReviewInput', () => {
+    it('matches the status ignoring case and yields the enum spelling', () => {
+        expect(validateSuggestionReviewInput({ status: 'approved' })).toEqual({ ok: true, data: { status: 'Approved' } });
+    });
+
+    it('needs a review note to reject', () => {
+        expect(validateSuggestionReviewInput({ status: 'REJECTED', reviewNote: '  ' })).toEqual({
+            ok: false,
+            fields: { reviewNote: 'Review note is required when rejecting a suggestion.' },
+        });
+    });
+
+    it('needs the ID only when asked to', () => {
+        expect(validateSuggestionReviewInput({ status: 'Pending' }, { idRequired: true }).ok).toBe(false);
+        expect(validateSuggestionReviewInput({ status: 'Maybe' }).ok).toBe(false);
+    });
+});
+
+describe('small bodies', () => {
+    it('validates comments and logins', () => {
+        expect(validateSuggestionCommentInput({ body: ' Sounds fun ' })).toEqual({ ok: true, data: { body: 'Sounds fun' } });
+        expect(validateSuggestionCommentInput({ body: 'x'.repeat(2001) }).ok).toBe(false);
+        expect(validateLoginInput({ secret: 123 }).ok).toBe(false);
+    });
+
+    it('refuses bodies that are not objects', () => {
+        expect(validateLoginInput(['secret'])).toEqual({ ok: false, fields: { body: 'Request body must be a JSON object.' } });
+    });
+});
+
+describe('validateBookingInput', () => {
+    const BOOKING = { placeId: 'hotel', provider: 'Hotel Gracery' };
+
+    it('reads times as trip-local "YYYY-MM-DDTHH:mm"', () => {
+        expect(validateBookingInput({ ...BOOKING, startsAt: '2025-11-01T15:00' })).toEqual({ ok: true, data: { ...BOOKING, startsAt: '2025-11-01T15:00' } });
+        expect(validateBookingInput({ ...BOOKING, startsAt: '2025-11-01T15:00Z' }).ok).toBe(false);
+        expect(validateBookingInput({ ...BOOKING, cancellationDeadline: '2025-11-31T12:00' })).toEqual({
+            ok: false,
+            fields: { cancellationDeadline: 'Cancellation deadline must be a date and time (YYYY-MM-DDTHH:mm).' },
+        });
+    });
+
+    it('checks the phone number format', () => {
+        expect(validateBookingInput({ ...BOOKING, contactPhone: '+81 3 1234 5678' }).ok).toBe(true);
+        expect(validateBookingInput({ ...BOOKING, contactPhone: 'front desk' }).ok).toBe(false);
+    });
+});
+
+describe('validateBookingUpdate', () => {
+    it('checks a single time against the stored other one', () => {
+        const stored = { startsAt: '2025-11-01T15:00', endsAt: '2025-11-03T11:00' };
+
+        expect(validateBookingUpdate({ endsAt: '2025-11-01T11:00' }, stored)).toEqual({ ok: false, fields: { endsAt: 'Check-out must be after the check-in.' } });
+        expect(validateBookingUpdate({ endsAt: '2025-11-04T11:00' }, stored).ok).toBe(true);
+    });
+});
+
+describe('validateRateTableInput', () => {
+    it('upper-cases the codes and drops the home currency at 1', () => {
+        const result = validateRateTableInput({ homeCurrency: 'cny', rates: { eur: 7.8, CNY: 1 } });
+
+        expect(result).toEqual({ ok: true, data: { homeCurrency: 'CNY', rates: { EUR: 7.8 } } });
+    });
+
+    it('rejects bad codes, non-positive rates and a home currency at another rate', () => {
+        expect(validateRateTableInput({ homeCurrency: 'CNY', rates: { euro: 7.8 } })).toEqual({ ok: false, fields: { rates: 'Currency must be a 3-letter code such as CNY.' } });
+        expect(validateRateTableInput({ homeCurrency: 'CNY', rates: { EUR: 0 } }).ok).toBe(false);
+        expect(validateRateTableInput({ homeCurrency: 'CNY', rates: { CNY: 2 } })).toEqual({ ok: false, fields: { rates: 'The home currency always converts at 1.' } });
+    });
+});
+
+describe('validationError', () => {
+    it('summarizes the field messages', () => {
+        expect(validationError({ title: 'Title is required.', day: 'Day must be a number.' })).toEqual({
+            error: 'Invalid request: Title is required. Day must be a number.',
+            fields: { title: 'Title is required.', day: 'Day must be a number.' },
+        });
+    });
+});
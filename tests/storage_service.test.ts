@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalS3StandIn, createS3StorageDriver, S3CompatibleClient } from '../src/services/storage_service';
+
+let rootDir: string;
+
+beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'planner-storage-'));
+});
+
+afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe('createLocalS3StandIn', () => {
+    it('keeps each bucket as a folder and each key as a file in it', async () => {
+        const client = createLocalS3StandIn(rootDir);
+
+        await client.putObject({ Bucket: 'photos', Key: 'trip-1/place-1/a', Body: Buffer.from('hello'), ContentType: 'image/png' });
+
+        expect(await fs.readFile(path.join(rootDir, 'photos', 'trip-1', 'place-1', 'a'), 'utf8')).toBe('hello');
+        expect((await client.getObject({ Bucket: 'photos', Key: 'trip-1/place-1/a' }))!.toString()).toBe('hello');
+        expect(await client.getObject({ Bucket: 'other', Key: 'trip-1/place-1/a' })).toBeNull();
+    });
+
+    it('deletes objects, also ones that do not exist', async () => {
+        const client = createLocalS3StandIn(rootDir);
+        await client.putObject({ Bucket: 'photos', Key: 'a', Body: Buffer.from('x'), ContentType: 'image/png' });
+
+        await client.deleteObject({ Bucket: 'photos', Key: 'a' });
+        await client.deleteObject({ Bucket: 'photos', Key: 'missing' });
+
+        expect(await client.getObject({ Bucket: 'photos', Key: 'a' })).toBeNull();
+    });
+
+    it('refuses bucket names that leave the storage root', () => {
+        const client = createLocalS3StandIn(rootDir);
+
+        expect(() => client.getObject({ Bucket: '..', Key: 'a' })).toThrow('Invalid storage key');
+    });
+});
+
+describe('createS3StorageDriver', () => {
+    it('stores, reads and deletes files through the stand-in', async () => {
+        const driver = createS3StorageDriver(createLocalS3StandIn(rootDir), 'attachments');
+
+        await driver.put('trip-1/place-1/file', Buffer.from('%PDF-1.7'), 'application/pdf');
+        expect((await driver.get('trip-1/place-1/file'))!.toString()).toBe('%PDF-1.7');
+
+        await driver.delete('trip-1/place-1/file');
+        expect(await driver.get('trip-1/place-1/file')).toBeNull();
+    });
+
+    it('passes the bucket, prefixed key and content type to the client', async () => {
+        const calls: unknown[] = [];
+        const client: S3CompatibleClient = {
+            putObject: async (params) => { calls.push(params); },
+            getObject: async (params) => { calls.push(params); return null; },
+            deleteObject: async (params) => { calls.push(params); },
+        };
+        const driver = createS3StorageDriver(client, 'bucket', 'uploads/');
+        const data = Buffer.from('x');
+
+        await driver.put('trip-1/a', data, 'image/webp');
+        await driver.get('trip-1/a');
+        await driver.delete('trip-1/a');
+
+        expect(calls).toEqual([
+            { Bucket: 'bucket', Key: 'uploads/trip-1/a', Body: data, ContentType: 'image/webp' },
+            { Bucket: 'bucket', Key: 'uploads/trip-1/a' },
+            { Bucket: 'bucket', Key: 'uploads/trip-1/a' },
+        ]);
+    });
+
+    it('refuses keys that could point outside the bucket', () => {
+        const driver = createS3StorageDriver(createLocalS3StandIn(rootDir), 'attachments');
+
+        expect(() => driver.get('../secrets')).toThrow('Invalid storage key');
+        expect(() => driver.get('trip-1//a')).toThrow('Invalid storage key');
+    });
+});
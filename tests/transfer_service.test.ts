@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { exportPlaces, parseImportRows, planImport } from '../src/services/transfer_service';
+import { makePlace, makeTrip } from './fixtures';
+
+const ROW = { day: 1, startTime: 600, name: 'Senso-ji', purpose: 'Temple', latitude: 35.71, longitude: 139.79 };
+
+describe('exportPlaces', () => {
+    it('writes CSV start times as HH:MM that import back to minutes', () => {
+        const place = makePlace('a', { name: 'Senso-ji', startTime: 9 * 60 + 30, notes: '=not a formula' });
+        const [row] = parseImportRows(exportPlaces([place], 'csv'), 'csv') as Record<string, unknown>[];
+
+        expect(row).toMatchObject({ name: 'Senso-ji', startTime: 570, notes: '=not a formula', latitude: 35 });
+    });
+
+    it('writes JSON rows with only the importable fields', () => {
+        const [row] = JSON.parse(exportPlaces([makePlace('a')], 'json'));
+
+        expect(row).not.toHaveProperty('id');
+        expect(row).not.toHaveProperty('tripId');
+        expect(row).toHaveProperty('name', 'a');
+    });
+});
+
+describe('parseImportRows', () => {
+    it('rejects JSON that is not an array', () => {
+        expect(() => parseImportRows('{"name":"x"}', 'json')).toThrow('must be an array');
+        expect(() => parseImportRows('not json', 'json')).toThrow('not valid JSON');
+    });
+});
+
+describe('planImport', () => {
+    it('reports invalid rows with their field errors', () => {
+        const { report, places } = planImport([{ ...ROW, name: '' }], makeTrip(), []);
+
+        expect(places).toEqual([]);
+        expect(report.invalidCount).toBe(1);
+        expect(report.rows[0]).toMatchObject({ row: 1, status: 'invalid' });
+        expect(report.rows[0].errors).toHaveProperty('name');
+    });
+
+    it('rejects rows planned past the end of the trip', () => {
+        // The fixture trip runs for four days
+        const { report } = planImport([{ ...ROW, day: 5 }], makeTrip(), []);
+
+        expect(report.rows[0]).toMatchObject({ status: 'invalid', name: 'Senso-ji' });
+        expect(report.rows[0].errors?.day).toContain('between 1 and 4');
+    });
+
+    it('flags duplicates of existing places and of earlier rows', () => {
+        const existing = makePlace('old', { day: 1, startTime: 600, name: 'senso-ji ' });
+        const { report, places } = planImport(
+            [{ ...ROW, day: 2 }, { ...ROW, day: 2, name: 'SENSO-JI' }, ROW],
+            makeTrip(),
+            [existing]
+        );
+
+        expect(places).toHaveLength(1);
+        expect(report.rows.map(row => row.duplicateOf)).toEqual([undefined, 1, 'existing']);
+        expect(report).toMatchObject({ validCount: 1, invalidCount: 0, duplicateCount: 2 });
+    });
+});